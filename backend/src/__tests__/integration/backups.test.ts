@@ -86,7 +86,7 @@ describe.skip('Backup Storage Integration Tests', () => {
     });
 
     it('should accept valid status values', async () => {
-      const statuses = ['pending', 'completed', 'failed'];
+      const statuses = ['pending', 'invoice_paid', 'failed'];
 
       for (const status of statuses) {
         const backupData = {
@@ -123,7 +123,7 @@ describe.skip('Backup Storage Integration Tests', () => {
     it('should update backup status without authentication (public endpoint)', async () => {
       await request(app)
         .put(`/api/backups/${backupId}`)
-        .send({ status: 'completed' })
+        .send({ status: 'invoice_paid' })
         .expect(200);
 
       // Verify status was updated
@@ -132,7 +132,7 @@ describe.skip('Backup Storage Integration Tests', () => {
         .set('Authorization', `Bearer ${token}`)
         .expect(200);
 
-      expect(getResponse.body.status).toBe('completed');
+      expect(getResponse.body.status).toBe('invoice_paid');
     });
 
     it('should reject update with invalid status', async () => {
@@ -145,15 +145,15 @@ describe.skip('Backup Storage Integration Tests', () => {
     it('should return 404 for non-existent backup', async () => {
       await request(app)
         .put('/api/backups/non-existent-id')
-        .send({ status: 'completed' })
+        .send({ status: 'invoice_paid' })
         .expect(404);
     });
 
     it('should allow multiple status updates', async () => {
-      // Update to completed
+      // Update to invoice_paid
       await request(app)
         .put(`/api/backups/${backupId}`)
-        .send({ status: 'completed' })
+        .send({ status: 'invoice_paid' })
         .expect(200);
 
       // Update to failed
@@ -353,10 +353,10 @@ describe.skip('Backup Storage Integration Tests', () => {
       const backupId = createResponse.body.backupId;
       expect(backupId).toBeTruthy();
 
-      // Step 2: Update status to completed (public)
+      // Step 2: Update status to invoice_paid (public)
       await request(app)
         .put(`/api/backups/${backupId}`)
-        .send({ status: 'completed' })
+        .send({ status: 'invoice_paid' })
         .expect(200);
 
       // Step 3: List backups (authenticated - should include our new backup)
@@ -367,7 +367,7 @@ describe.skip('Backup Storage Integration Tests', () => {
 
       const foundBackup = listResponse.body.find((backup: any) => backup.backupId === backupId);
       expect(foundBackup).toBeTruthy();
-      expect(foundBackup.status).toBe('completed');
+      expect(foundBackup.status).toBe('invoice_paid');
       expect(foundBackup.paymentLinkId).toBe(linkId);
 
       // Step 4: Fetch full backup details (authenticated)
@@ -378,7 +378,7 @@ describe.skip('Backup Storage Integration Tests', () => {
 
       expect(fetchResponse.body.backupId).toBe(backupId);
       expect(fetchResponse.body.encryptedBackup).toBe(backupData.encryptedBackup);
-      expect(fetchResponse.body.status).toBe('completed');
+      expect(fetchResponse.body.status).toBe('invoice_paid');
       expect(fetchResponse.body.paymentLinkId).toBe(linkId);
     });
 
@@ -403,17 +403,17 @@ describe.skip('Backup Storage Integration Tests', () => {
         .expect(200);
       expect(fetchResponse.body.status).toBe('pending');
 
-      // Transition to completed
+      // Transition to invoice_paid
       await request(app)
         .put(`/api/backups/${backupId}`)
-        .send({ status: 'completed' })
+        .send({ status: 'invoice_paid' })
         .expect(200);
 
       fetchResponse = await request(app)
         .get(`/api/backups/${backupId}`)
         .set('Authorization', `Bearer ${token}`)
         .expect(200);
-      expect(fetchResponse.body.status).toBe('completed');
+      expect(fetchResponse.body.status).toBe('invoice_paid');
 
       // Transition to failed (simulating error recovery)
       await request(app)
@@ -304,7 +304,7 @@ describe.skip('Rate Limiting Integration Tests', () => {
       for (const backupId of backupIds) {
         await request(app)
           .put(`/api/backups/${backupId}`)
-          .send({ status: 'completed' })
+          .send({ status: 'invoice_paid' })
           .expect(200);
       }
 
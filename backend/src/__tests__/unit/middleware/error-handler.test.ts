@@ -0,0 +1,45 @@
+/**
+ * Unit tests for the service error handler
+ */
+
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { z } from 'zod';
+import { serviceErrorHandler } from '../../../middleware/error-handler';
+import { ForbiddenError, NotFoundError } from '../../../services/errors';
+
+function createApp(error: Error) {
+  const app = express();
+  app.get('/', () => {
+    throw error;
+  });
+  app.use(serviceErrorHandler);
+  app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    res.status(500).json({ error: 'Internal server error' });
+  });
+  return app;
+}
+
+describe('Service Error Handler', () => {
+  it('should answer validation errors with 400 and details', async () => {
+    const result = z.object({ name: z.string() }).safeParse({});
+
+    const response = await request(createApp(result.success ? new Error() : result.error)).get('/').expect(400);
+
+    expect(response.body.error).toBe('Validation error');
+    expect(response.body.details[0].path).toEqual(['name']);
+  });
+
+  it('should use the status of service errors', async () => {
+    const notFound = await request(createApp(new NotFoundError('Payment link not found'))).get('/').expect(404);
+    expect(notFound.body).toEqual({ error: 'Payment link not found' });
+
+    await request(createApp(new ForbiddenError('Not yours'))).get('/').expect(403);
+  });
+
+  it('should pass other errors on', async () => {
+    const response = await request(createApp(new Error('database is locked'))).get('/').expect(500);
+    expect(response.body).toEqual({ error: 'Internal server error' });
+  });
+});
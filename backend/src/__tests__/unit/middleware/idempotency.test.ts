@@ -0,0 +1,126 @@
+/**
+ * Unit tests for Idempotency-Key handling
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { nanoid } from 'nanoid';
+import { idempotency } from '../../../middleware/idempotency';
+import { serviceErrorHandler } from '../../../middleware/error-handler';
+import { db, initializeDatabase } from '../../../db/schema';
+import { requestFingerprint } from '../../../services/idempotency.service';
+
+describe('Idempotency Middleware', () => {
+  let created: number;
+  let failNext: boolean;
+  let rateLimitNext: boolean;
+
+  function createApp() {
+    const app = express();
+    app.use(express.json());
+    app.post('/things', idempotency, (req, res) => {
+      if (rateLimitNext) {
+        rateLimitNext = false;
+        res.status(429).json({ error: 'Too many requests' });
+        return;
+      }
+      if (failNext) {
+        failNext = false;
+        throw new Error('Database is locked');
+      }
+      created++;
+      res.status(201).json({ id: `thing-${created}`, name: req.body.name });
+    });
+    app.use(serviceErrorHandler);
+    app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).json({ error: 'Internal server error' });
+    });
+    return app;
+  }
+
+  beforeAll(() => {
+    initializeDatabase();
+  });
+
+  beforeEach(() => {
+    created = 0;
+    failNext = false;
+    rateLimitNext = false;
+  });
+
+  it('should handle requests without a key normally', async () => {
+    const app = createApp();
+
+    await request(app).post('/things').send({ name: 'a' }).expect(201);
+    await request(app).post('/things').send({ name: 'a' }).expect(201);
+
+    expect(created).toBe(2);
+  });
+
+  it('should replay the stored response for a retry with the same key', async () => {
+    const app = createApp();
+    const key = nanoid();
+
+    const first = await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'a' }).expect(201);
+    const retry = await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'a' }).expect(201);
+
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(created).toBe(1);
+  });
+
+  it('should answer 409 when the key is reused with a different body', async () => {
+    const app = createApp();
+    const key = nanoid();
+
+    await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'a' }).expect(201);
+    const response = await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'b' }).expect(409);
+
+    expect(response.body.code).toBe('idempotency_key_reused');
+    expect(created).toBe(1);
+  });
+
+  it('should release the key when the request fails with a server error', async () => {
+    const app = createApp();
+    const key = nanoid();
+    failNext = true;
+
+    await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'a' }).expect(500);
+    await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'a' }).expect(201);
+
+    expect(created).toBe(1);
+  });
+
+  it('should release the key when the request is rate limited', async () => {
+    const app = createApp();
+    const key = nanoid();
+    rateLimitNext = true;
+
+    await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'a' }).expect(429);
+    await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'a' }).expect(201);
+
+    expect(created).toBe(1);
+  });
+
+  it('should reject malformed keys', async () => {
+    await request(createApp()).post('/things').set('Idempotency-Key', 'x'.repeat(256)).send({ name: 'a' }).expect(400);
+  });
+
+  it('should forget keys after 24 hours', async () => {
+    const app = createApp();
+    const key = nanoid();
+
+    await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'a' }).expect(201);
+    db.prepare('UPDATE idempotency_keys SET expires_at = ? WHERE key = ?').run(Date.now() - 1, key);
+    await request(app).post('/things').set('Idempotency-Key', key).send({ name: 'b' }).expect(201);
+
+    expect(created).toBe(2);
+  });
+
+  it('should fingerprint bodies regardless of key order', () => {
+    expect(requestFingerprint('POST', '/things', { a: 1, b: [1, { c: 2, d: 3 }] }))
+      .toBe(requestFingerprint('post', '/things', { b: [1, { d: 3, c: 2 }], a: 1 }));
+    expect(requestFingerprint('POST', '/things', { a: 1 })).not.toBe(requestFingerprint('POST', '/other', { a: 1 }));
+  });
+});
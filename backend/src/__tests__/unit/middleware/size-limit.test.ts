@@ -8,6 +8,7 @@ import express from 'express';
 import {
   validateBackupSize,
   validateLinkPayloadSize,
+  validateLinkEventSize,
   validateGeneralPayloadSize,
   SIZE_LIMITS
 } from '../../../middleware/size-limit';
@@ -161,6 +162,39 @@ describe('Size Limit Middleware', () => {
     });
   });
 
+  describe('validateLinkEventSize', () => {
+    it('should allow events within size limit', async () => {
+      const app = express();
+      app.use(express.json());
+      app.use(validateLinkEventSize);
+      app.post('/events', (req, res) => {
+        res.json({ success: true });
+      });
+
+      await request(app)
+        .post('/events')
+        .send({ type: 'claim-broadcast', swapId: 'abc123', txid: 'a'.repeat(64) })
+        .expect(200);
+    });
+
+    it('should reject events exceeding size limit', async () => {
+      const app = express();
+      app.use(express.json());
+      app.use(validateLinkEventSize);
+      app.post('/events', (req, res) => {
+        res.json({ success: true });
+      });
+
+      const response = await request(app)
+        .post('/events')
+        .send({ type: 'swap-created', swapId: 'abc123', padding: 'A'.repeat(2 * 1024) })
+        .expect(413);
+
+      expect(response.body).toHaveProperty('maxSize', SIZE_LIMITS.LINK_EVENT_MAX_SIZE);
+      expect(response.body.actualSize).toBeGreaterThan(SIZE_LIMITS.LINK_EVENT_MAX_SIZE);
+    });
+  });
+
   describe('validateGeneralPayloadSize', () => {
     it('should check Content-Length header', async () => {
       const app = express();
@@ -195,6 +229,7 @@ describe('Size Limit Middleware', () => {
       expect(SIZE_LIMITS).toBeDefined();
       expect(SIZE_LIMITS.BACKUP_MAX_SIZE).toBe(500 * 1024); // 500 KB
       expect(SIZE_LIMITS.LINK_PAYLOAD_MAX_SIZE).toBe(100 * 1024); // 100 KB
+      expect(SIZE_LIMITS.LINK_EVENT_MAX_SIZE).toBe(1024); // 1 KB
       expect(SIZE_LIMITS.GENERAL_PAYLOAD_MAX_SIZE).toBe(10 * 1024 * 1024); // 10 MB
     });
   });
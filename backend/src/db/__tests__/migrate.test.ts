@@ -0,0 +1,337 @@
+/**
+ * Migration Runner Tests
+ * Tests versioned migrations, rollback and upgrades of pre-migration databases
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import {
+  getAppliedMigrations,
+  Migration,
+  MigrationError,
+  rollbackMigrations,
+  runMigrations,
+} from '../migrate';
+import { migrations } from '../migrations';
+
+function tableNames(db: Database.Database): string[] {
+  return (db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+    ORDER BY name
+  `).all() as { name: string }[]).map(row => row.name);
+}
+
+const latestVersion = migrations[migrations.length - 1].version;
+
+const addNotesColumn: Migration = {
+  version: latestVersion + 1,
+  name: 'add_notes',
+  up(db) {
+    db.exec('ALTER TABLE merchants ADD COLUMN notes TEXT');
+  },
+  down(db) {
+    db.exec('ALTER TABLE merchants DROP COLUMN notes');
+  },
+};
+
+describe('Migration Runner', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.pragma('foreign_keys = ON');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('runMigrations', () => {
+    it('should create the schema on an empty database', () => {
+      const applied = runMigrations(db);
+
+      expect(applied.map(migration => migration.version)).toEqual(migrations.map(migration => migration.version));
+      expect(tableNames(db)).toEqual([
+        'api_keys', 'backups', 'encrypted_links', 'idempotency_keys', 'link_events', 'link_status_events',
+        'merchant_invitations', 'merchant_pgp_keys', 'merchant_users', 'merchants', 'recovery_codes', 'refresh_tokens', 'schema_migrations', 'sessions',
+        'stores', 'swap_backup_versions', 'webhook_deliveries', 'webhook_delivery_attempts', 'webhook_endpoints',
+      ]);
+    });
+
+    it('should record applied versions in schema_migrations', () => {
+      runMigrations(db);
+
+      const applied = getAppliedMigrations(db);
+      expect(applied[0].version).toBe(1);
+      expect(applied[0].name).toBe('initial_schema');
+      expect(applied[0].appliedAt).toBeGreaterThan(0);
+    });
+
+    it('should be a no-op when the database is up to date', () => {
+      runMigrations(db);
+
+      expect(runMigrations(db)).toEqual([]);
+      expect(getAppliedMigrations(db)).toHaveLength(migrations.length);
+    });
+
+    it('should apply only pending migrations', () => {
+      runMigrations(db);
+
+      const applied = runMigrations(db, [...migrations, addNotesColumn]);
+
+      expect(applied).toEqual([addNotesColumn]);
+      const columns = (db.pragma('table_info(merchants)') as { name: string }[]).map(column => column.name);
+      expect(columns).toContain('notes');
+    });
+
+    it('should reject databases with unknown versions', () => {
+      runMigrations(db, [...migrations, addNotesColumn]);
+
+      expect(() => runMigrations(db)).toThrow(MigrationError);
+    });
+
+    it('should reject duplicate versions', () => {
+      expect(() => runMigrations(db, [...migrations, { ...addNotesColumn, version: 1 }])).toThrow(MigrationError);
+    });
+
+    it('should roll back a failing migration', () => {
+      runMigrations(db);
+
+      const failing: Migration = {
+        version: latestVersion + 1,
+        name: 'failing',
+        up(db) {
+          db.exec('CREATE TABLE partial (id TEXT)');
+          throw new Error('boom');
+        },
+        down() {},
+      };
+
+      expect(() => runMigrations(db, [...migrations, failing])).toThrow('boom');
+      expect(tableNames(db)).not.toContain('partial');
+      expect(getAppliedMigrations(db)).toHaveLength(migrations.length);
+    });
+
+    it('should restore foreign key enforcement afterwards', () => {
+      runMigrations(db);
+
+      expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    });
+  });
+
+  describe('rollbackMigrations', () => {
+    it('should run down migrations newest first', () => {
+      const all = [...migrations, addNotesColumn];
+      runMigrations(db, all);
+
+      const rolledBack = rollbackMigrations(db, latestVersion, all);
+
+      expect(rolledBack).toEqual([addNotesColumn]);
+      const columns = (db.pragma('table_info(merchants)') as { name: string }[]).map(column => column.name);
+      expect(columns).not.toContain('notes');
+      expect(getAppliedMigrations(db).map(migration => migration.version)).toEqual(
+        migrations.map(migration => migration.version)
+      );
+    });
+
+    it('should drop the schema when rolling back to version 0', () => {
+      runMigrations(db);
+
+      rollbackMigrations(db, 0);
+
+      expect(tableNames(db)).toEqual(['schema_migrations']);
+      expect(getAppliedMigrations(db)).toEqual([]);
+    });
+
+    it('should allow migrating up again after a rollback', () => {
+      runMigrations(db);
+      rollbackMigrations(db, 0);
+
+      expect(runMigrations(db)).toHaveLength(migrations.length);
+    });
+  });
+
+  describe('Initial schema', () => {
+    beforeEach(() => {
+      runMigrations(db);
+    });
+
+    it('should store timestamps in milliseconds by default', () => {
+      db.prepare("INSERT INTO merchants (id, email, password_hash) VALUES ('m1', 'a@example.com', 'hash')").run();
+
+      const merchant = db.prepare('SELECT created_at, updated_at FROM merchants').get() as any;
+      expect(Math.abs(merchant.created_at - Date.now())).toBeLessThan(5000);
+      expect(merchant.updated_at).toBe(merchant.created_at);
+    });
+
+    it('should cascade merchant deletion to links and backups', () => {
+      db.prepare("INSERT INTO merchants (id, email, password_hash) VALUES ('m1', 'a@example.com', 'hash')").run();
+      db.prepare("INSERT INTO encrypted_links (id, merchant_id, ciphertext) VALUES ('l1', 'm1', 'ct')").run();
+      db.prepare("INSERT INTO backups (id, merchant_id, encrypted_link_id, encrypted_backup) VALUES ('b1', 'm1', 'l1', 'pgp')").run();
+
+      db.prepare("DELETE FROM merchants WHERE id = 'm1'").run();
+
+      expect(db.prepare('SELECT COUNT(*) AS count FROM encrypted_links').get()).toEqual({ count: 0 });
+      expect(db.prepare('SELECT COUNT(*) AS count FROM backups').get()).toEqual({ count: 0 });
+    });
+  });
+
+  describe('Backup states', () => {
+    it('should map old statuses and keep the existing ciphertext as revision 1', () => {
+      runMigrations(db, migrations.filter(migration => migration.version < 10));
+      db.exec(`
+        INSERT INTO merchants (id, email, password_hash) VALUES ('m1', 'a@example.com', 'hash');
+        INSERT INTO backups (id, merchant_id, encrypted_backup, status, created_at, updated_at)
+        VALUES ('b1', 'm1', 'pgp-1', 'completed', 1000, 2000), ('b2', 'm1', 'pgp-2', 'processing', 3000, 4000);
+      `);
+
+      runMigrations(db);
+
+      expect(db.prepare('SELECT id, status, version, paid_at FROM backups ORDER BY id').all()).toEqual([
+        { id: 'b1', status: 'claimed', version: 1, paid_at: 2000 },
+        { id: 'b2', status: 'pending', version: 1, paid_at: null },
+      ]);
+      expect(db.prepare("SELECT version, encrypted_backup, created_at FROM swap_backup_versions WHERE backup_id = 'b1'").all())
+        .toEqual([{ version: 1, encrypted_backup: 'pgp-1', created_at: 1000 }]);
+    });
+
+    it('should reject unknown statuses and changes to stored revisions', () => {
+      runMigrations(db);
+      db.exec(`
+        INSERT INTO merchants (id, email, password_hash) VALUES ('m1', 'a@example.com', 'hash');
+        INSERT INTO backups (id, merchant_id, encrypted_backup) VALUES ('b1', 'm1', 'pgp');
+        INSERT INTO swap_backup_versions (backup_id, version, encrypted_backup, created_at) VALUES ('b1', 1, 'pgp', 1000);
+      `);
+
+      expect(() => db.prepare("UPDATE backups SET status = 'completed'").run()).toThrow();
+      expect(() => db.prepare("UPDATE swap_backup_versions SET encrypted_backup = 'tampered'").run()).toThrow('append-only');
+      expect(() => db.prepare('DELETE FROM swap_backup_versions').run()).toThrow('append-only');
+
+      db.prepare("DELETE FROM merchants WHERE id = 'm1'").run();
+      expect(db.prepare('SELECT COUNT(*) AS count FROM swap_backup_versions').get()).toEqual({ count: 0 });
+    });
+  });
+
+  describe('Legacy upgrades', () => {
+    it('should upgrade a database created by the original db.ts schema', () => {
+      db.exec(`
+        CREATE TABLE merchants (
+          id TEXT PRIMARY KEY,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          pgp_public_key TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE TABLE payment_links (
+          id TEXT PRIMARY KEY,
+          merchant_id TEXT NOT NULL,
+          ciphertext TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+        );
+        CREATE TABLE swap_backups (
+          id TEXT PRIMARY KEY,
+          merchant_id TEXT NOT NULL,
+          payment_link_id TEXT NOT NULL,
+          encrypted_backup TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE,
+          FOREIGN KEY (payment_link_id) REFERENCES payment_links(id) ON DELETE CASCADE
+        );
+
+        INSERT INTO merchants VALUES ('m1', 'a@example.com', 'hash', 'pgp-key', 1000, 2000);
+        INSERT INTO payment_links VALUES ('l1', 'm1', 'link-ciphertext', 3000);
+        INSERT INTO swap_backups VALUES ('b1', 'm1', 'l1', 'backup-ciphertext', 4000, 5000);
+      `);
+
+      runMigrations(db);
+
+      expect(tableNames(db)).toEqual(expect.arrayContaining(['backups', 'encrypted_links', 'merchants']));
+      expect(tableNames(db)).not.toContain('payment_links');
+      expect(tableNames(db)).not.toContain('swap_backups');
+      expect(db.prepare('SELECT * FROM merchants').get()).toMatchObject({
+        id: 'm1',
+        email: 'a@example.com',
+        pgp_public_key: 'pgp-key',
+        language: 'en',
+        currency: 'BTC',
+        created_at: 1000,
+        updated_at: 2000,
+      });
+      expect(db.prepare('SELECT * FROM encrypted_links').get()).toMatchObject({
+        id: 'l1',
+        merchant_id: 'm1',
+        ciphertext: 'link-ciphertext',
+        created_at: 3000,
+      });
+      expect(db.prepare('SELECT * FROM backups').get()).toMatchObject({
+        id: 'b1',
+        encrypted_link_id: 'l1',
+        encrypted_backup: 'backup-ciphertext',
+        status: 'pending',
+        created_at: 4000,
+        updated_at: 5000,
+      });
+    });
+
+    it('should upgrade a database created by the original schema.ts', () => {
+      db.exec(`
+        CREATE TABLE merchants (
+          id TEXT PRIMARY KEY,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          store_name TEXT,
+          website_url TEXT,
+          description TEXT,
+          language TEXT DEFAULT 'en',
+          currency TEXT DEFAULT 'BTC',
+          pgp_public_key TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE INDEX idx_merchants_email ON merchants(email);
+
+        INSERT INTO merchants VALUES ('m1', 'a@example.com', 'hash', 'Shop', 'https://shop.example', NULL, 'de', NULL, 'pgp-key', 1000, 2000);
+      `);
+
+      runMigrations(db);
+
+      expect(db.prepare('SELECT * FROM merchants').get()).toMatchObject({
+        store_name: 'Shop',
+        website_url: 'https://shop.example',
+        language: 'de',
+        currency: 'BTC',
+        pgp_public_key: 'pgp-key',
+      });
+      expect(tableNames(db)).toContain('encrypted_links');
+    });
+
+    it('should leave a legacy database untouched when the upgrade fails', () => {
+      db.pragma('foreign_keys = OFF');
+      db.exec(`
+        CREATE TABLE merchants (
+          id TEXT PRIMARY KEY,
+          email TEXT UNIQUE NOT NULL,
+          password_hash TEXT NOT NULL,
+          pgp_public_key TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+        CREATE TABLE payment_links (
+          id TEXT PRIMARY KEY,
+          merchant_id TEXT NOT NULL,
+          ciphertext TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        INSERT INTO payment_links VALUES ('l1', 'missing-merchant', 'ct', 3000);
+      `);
+
+      expect(() => runMigrations(db)).toThrow(MigrationError);
+      expect(tableNames(db)).toEqual(['merchants', 'payment_links', 'schema_migrations']);
+    });
+  });
+});
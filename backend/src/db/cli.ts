@@ -0,0 +1,62 @@
+/**
+ * Migration command line
+ *
+ *   npm run migrate                    Apply all pending migrations
+ *   npm run migrate:down -- <version>  Roll back to <version> (default: previous)
+ *   npm run migrate:status             List applied migrations
+ */
+
+import { db } from './schema';
+import { getAppliedMigrations, rollbackMigrations, runMigrations } from './migrate';
+
+function main(args: string[]): void {
+  const [command = 'up', target] = args;
+
+  switch (command) {
+    case 'up': {
+      const applied = runMigrations(db);
+      if (applied.length === 0) {
+        console.log('Database is up to date');
+      }
+      for (const migration of applied) {
+        console.log(`Applied migration ${migration.version} (${migration.name})`);
+      }
+      break;
+    }
+
+    case 'down': {
+      const versions = getAppliedMigrations(db).map(migration => migration.version);
+      const targetVersion = target !== undefined ? Number(target) : (versions[versions.length - 2] ?? 0);
+      if (!Number.isInteger(targetVersion) || targetVersion < 0) {
+        throw new Error(`Invalid target version: ${target}`);
+      }
+      for (const migration of rollbackMigrations(db, targetVersion)) {
+        console.log(`Rolled back migration ${migration.version} (${migration.name})`);
+      }
+      break;
+    }
+
+    case 'status': {
+      const applied = getAppliedMigrations(db);
+      if (applied.length === 0) {
+        console.log('No migrations applied');
+      }
+      for (const migration of applied) {
+        console.log(`${migration.version} ${migration.name} (applied ${new Date(migration.appliedAt).toISOString()})`);
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command} (expected up, down or status)`);
+  }
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
@@ -0,0 +1,151 @@
+/**
+ * Versioned schema migrations
+ *
+ * Migrations live in src/db/migrations as numbered modules. Applied versions
+ * are recorded in the schema_migrations table, so running the migrations on
+ * an up-to-date database is a no-op.
+ */
+
+import Database from 'better-sqlite3';
+import { migrations as defaultMigrations } from './migrations';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  down: (db: Database.Database) => void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: number;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+}
+
+function sortMigrations(migrations: Migration[]): Migration[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new MigrationError(`Duplicate migration version ${sorted[i].version}`);
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Run a migration step with foreign key enforcement disabled, as required by
+ * SQLite for table rebuilds. Violations are checked before committing.
+ */
+function runStep(db: Database.Database, label: string, step: () => void): void {
+  const foreignKeys = db.pragma('foreign_keys', { simple: true }) as number;
+  db.pragma('foreign_keys = OFF');
+
+  try {
+    db.transaction(() => {
+      step();
+
+      const violations = db.pragma('foreign_key_check') as unknown[];
+      if (violations.length > 0) {
+        throw new MigrationError(`${label} left ${violations.length} foreign key violation(s)`);
+      }
+    })();
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+  }
+}
+
+/**
+ * List the migrations recorded in schema_migrations, oldest first
+ */
+export function getAppliedMigrations(db: Database.Database): AppliedMigration[] {
+  ensureMigrationsTable(db);
+
+  const rows = db.prepare(`
+    SELECT version, name, applied_at
+    FROM schema_migrations
+    ORDER BY version
+  `).all() as { version: number; name: string; applied_at: number }[];
+
+  return rows.map(row => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+}
+
+/**
+ * Apply all pending migrations in version order, each in its own transaction
+ * @returns The migrations that were applied
+ * @throws MigrationError if the database has versions this code does not know about
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[] = defaultMigrations): Migration[] {
+  const sorted = sortMigrations(migrations);
+  const known = new Set(sorted.map(migration => migration.version));
+  const applied = new Set(getAppliedMigrations(db).map(migration => migration.version));
+
+  const unknown = [...applied].filter(version => !known.has(version));
+  if (unknown.length > 0) {
+    throw new MigrationError(
+      `Database has unknown migration version(s) ${unknown.join(', ')}; it was created by a newer release`
+    );
+  }
+
+  const pending = sorted.filter(migration => !applied.has(migration.version));
+  const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+  for (const migration of pending) {
+    runStep(db, `Migration ${migration.version} (${migration.name})`, () => {
+      migration.up(db);
+      record.run(migration.version, migration.name, Date.now());
+    });
+  }
+
+  return pending;
+}
+
+/**
+ * Roll back applied migrations, newest first, until targetVersion is the latest
+ * @param targetVersion - Version to keep (0 rolls back everything)
+ * @returns The migrations that were rolled back
+ */
+export function rollbackMigrations(
+  db: Database.Database,
+  targetVersion: number,
+  migrations: Migration[] = defaultMigrations
+): Migration[] {
+  const byVersion = new Map(sortMigrations(migrations).map(migration => [migration.version, migration]));
+  const toRollBack = getAppliedMigrations(db)
+    .filter(applied => applied.version > targetVersion)
+    .reverse()
+    .map(applied => {
+      const migration = byVersion.get(applied.version);
+      if (!migration) {
+        throw new MigrationError(`Cannot roll back unknown migration version ${applied.version}`);
+      }
+      return migration;
+    });
+
+  const forget = db.prepare('DELETE FROM schema_migrations WHERE version = ?');
+
+  for (const migration of toRollBack) {
+    runStep(db, `Rollback of migration ${migration.version} (${migration.name})`, () => {
+      migration.down(db);
+      forget.run(migration.version);
+    });
+  }
+
+  return toRollBack;
+}
@@ -0,0 +1,143 @@
+/**
+ * 001 - Initial schema
+ *
+ * Creates merchants, encrypted_links and backups. Databases created before
+ * migrations existed are upgraded in place: the merchants table is rebuilt
+ * with the current columns, and the legacy payment_links and swap_backups
+ * tables are copied into encrypted_links and backups.
+ */
+
+import Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+// Milliseconds since the epoch, matching the Date.now() values written by the services
+const NOW_MS = "(CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER))";
+
+// Fallbacks for columns that were nullable before this migration
+const LEGACY_DEFAULTS: Record<string, string> = {
+  language: "'en'",
+  currency: "'BTC'",
+  created_at: NOW_MS,
+  updated_at: NOW_MS,
+};
+
+function tableExists(db: Database.Database, table: string): boolean {
+  const row = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+  return row !== undefined;
+}
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.pragma(`table_info(${table})`) as { name: string }[]).map(column => column.name);
+}
+
+function createMerchantsTable(db: Database.Database, table: string): void {
+  db.exec(`
+    CREATE TABLE ${table} (
+      id TEXT PRIMARY KEY,
+      email TEXT UNIQUE NOT NULL,
+      password_hash TEXT NOT NULL,
+      pgp_public_key TEXT,
+      store_name TEXT,
+      website_url TEXT,
+      description TEXT,
+      language TEXT NOT NULL DEFAULT 'en',
+      currency TEXT NOT NULL DEFAULT 'BTC',
+      created_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+      updated_at INTEGER NOT NULL DEFAULT ${NOW_MS}
+    )
+  `);
+}
+
+/**
+ * Rebuild a merchants table created by one of the pre-migration schemas,
+ * keeping every column the new table also has
+ */
+function upgradeLegacyMerchants(db: Database.Database): void {
+  createMerchantsTable(db, 'merchants_new');
+
+  const shared = columnNames(db, 'merchants').filter(column => columnNames(db, 'merchants_new').includes(column));
+  // Legacy rows may carry NULL for fields the new schema requires
+  const selected = shared.map(column => LEGACY_DEFAULTS[column] ? `COALESCE(${column}, ${LEGACY_DEFAULTS[column]})` : column);
+
+  db.exec(`
+    INSERT INTO merchants_new (${shared.join(', ')})
+    SELECT ${selected.join(', ')} FROM merchants;
+
+    DROP TABLE merchants;
+    ALTER TABLE merchants_new RENAME TO merchants;
+  `);
+}
+
+function migrateLegacyLinksAndBackups(db: Database.Database): void {
+  if (tableExists(db, 'payment_links')) {
+    db.exec(`
+      INSERT INTO encrypted_links (id, merchant_id, ciphertext, created_at)
+      SELECT id, merchant_id, ciphertext, created_at FROM payment_links;
+    `);
+  }
+
+  if (tableExists(db, 'swap_backups')) {
+    db.exec(`
+      INSERT INTO backups (id, merchant_id, encrypted_link_id, encrypted_backup, status, created_at, updated_at)
+      SELECT id, merchant_id, payment_link_id, encrypted_backup, 'pending', created_at, updated_at FROM swap_backups;
+    `);
+  }
+
+  db.exec(`
+    DROP TABLE IF EXISTS swap_backups;
+    DROP TABLE IF EXISTS payment_links;
+  `);
+}
+
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  up(db) {
+    if (tableExists(db, 'merchants')) {
+      upgradeLegacyMerchants(db);
+    } else {
+      createMerchantsTable(db, 'merchants');
+    }
+
+    db.exec(`
+      CREATE TABLE encrypted_links (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        ciphertext TEXT NOT NULL,
+        nonce TEXT,
+        tag TEXT,
+        created_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE backups (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        encrypted_link_id TEXT,
+        encrypted_backup TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        updated_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE,
+        FOREIGN KEY (encrypted_link_id) REFERENCES encrypted_links(id) ON DELETE SET NULL
+      );
+    `);
+
+    migrateLegacyLinksAndBackups(db);
+
+    db.exec(`
+      CREATE INDEX idx_encrypted_links_merchant ON encrypted_links(merchant_id);
+      CREATE INDEX idx_backups_merchant ON backups(merchant_id);
+      CREATE INDEX idx_backups_link ON backups(encrypted_link_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS backups;
+      DROP TABLE IF EXISTS encrypted_links;
+      DROP TABLE IF EXISTS merchants;
+    `);
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * 002 - Sessions and refresh tokens
+ *
+ * Every login starts a session (a refresh token family). Refresh tokens are
+ * single use and stored as SHA-256 hashes; used tokens are kept until they
+ * expire so that replaying one can be detected.
+ */
+
+import type { Migration } from '../migrate';
+
+export const sessions: Migration = {
+  version: 2,
+  name: 'sessions',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        user_agent TEXT,
+        ip TEXT,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER NOT NULL,
+        revoked_at INTEGER,
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE refresh_tokens (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        used_at INTEGER,
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_sessions_merchant ON sessions(merchant_id);
+      CREATE INDEX idx_refresh_tokens_session ON refresh_tokens(session_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS refresh_tokens;
+      DROP TABLE IF EXISTS sessions;
+    `);
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * 003 - TOTP two-factor authentication
+ *
+ * Adds the merchant's TOTP secret (pending until enrollment is confirmed),
+ * hashed single-use recovery codes, and the time each session last passed a
+ * step-up check.
+ */
+
+import type { Migration } from '../migrate';
+
+export const totp: Migration = {
+  version: 3,
+  name: 'totp',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE merchants ADD COLUMN totp_secret TEXT;
+      ALTER TABLE merchants ADD COLUMN totp_enabled_at INTEGER;
+      ALTER TABLE merchants ADD COLUMN totp_last_used_step INTEGER;
+
+      ALTER TABLE sessions ADD COLUMN step_up_at INTEGER;
+
+      CREATE TABLE recovery_codes (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        used_at INTEGER,
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_recovery_codes_merchant ON recovery_codes(merchant_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS recovery_codes;
+
+      ALTER TABLE sessions DROP COLUMN step_up_at;
+
+      ALTER TABLE merchants DROP COLUMN totp_last_used_step;
+      ALTER TABLE merchants DROP COLUMN totp_enabled_at;
+      ALTER TABLE merchants DROP COLUMN totp_secret;
+    `);
+  },
+};
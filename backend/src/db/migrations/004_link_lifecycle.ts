@@ -0,0 +1,37 @@
+/**
+ * 004 - Payment link lifecycle
+ *
+ * Links get an optional expiry and use limit, a use counter and a status:
+ * active -> paid -> archived, with expired and cancelled as the other ends.
+ * Existing links stay active with no limits.
+ */
+
+import type { Migration } from '../migrate';
+
+export const linkLifecycle: Migration = {
+  version: 4,
+  name: 'link_lifecycle',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE encrypted_links ADD COLUMN status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'paid', 'expired', 'cancelled', 'archived'));
+      ALTER TABLE encrypted_links ADD COLUMN expires_at INTEGER;
+      ALTER TABLE encrypted_links ADD COLUMN max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0);
+      ALTER TABLE encrypted_links ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0;
+
+      CREATE INDEX idx_encrypted_links_status ON encrypted_links(status, expires_at);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_encrypted_links_status;
+
+      ALTER TABLE encrypted_links DROP COLUMN use_count;
+      ALTER TABLE encrypted_links DROP COLUMN max_uses;
+      ALTER TABLE encrypted_links DROP COLUMN expires_at;
+      ALTER TABLE encrypted_links DROP COLUMN status;
+    `);
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * 005 - Payment link events
+ *
+ * Swap progress reported by the paying browser for a link, so the merchant
+ * can see which links were actually paid. Each step is stored once per swap.
+ */
+
+import type { Migration } from '../migrate';
+
+export const linkEvents: Migration = {
+  version: 5,
+  name: 'link_events',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE link_events (
+        id TEXT PRIMARY KEY,
+        link_id TEXT NOT NULL,
+        type TEXT NOT NULL
+          CHECK (type IN ('swap-created', 'invoice-paid', 'claim-broadcast', 'claim-confirmed')),
+        swap_id TEXT NOT NULL,
+        txid TEXT,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (link_id) REFERENCES encrypted_links(id) ON DELETE CASCADE,
+        UNIQUE (link_id, swap_id, type)
+      );
+
+      CREATE INDEX idx_link_events_link ON link_events(link_id, created_at);
+    `);
+  },
+
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS link_events');
+  },
+};
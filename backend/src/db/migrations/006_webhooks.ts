@@ -0,0 +1,66 @@
+/**
+ * 006 - Webhooks
+ *
+ * Merchant webhook endpoints, an outbox of deliveries that the worker sends
+ * with exponential retries, and a record of every delivery attempt.
+ */
+
+import type { Migration } from '../migrate';
+
+export const webhooks: Migration = {
+  version: 6,
+  name: 'webhooks',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE webhook_endpoints (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT, -- JSON array of subscribed event types; NULL means all
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_webhook_endpoints_merchant ON webhook_endpoints(merchant_id);
+
+      CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        endpoint_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+        attempt_count INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER,
+        delivered_at INTEGER,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (endpoint_id) REFERENCES webhook_endpoints(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+      CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at);
+
+      CREATE TABLE webhook_delivery_attempts (
+        id TEXT PRIMARY KEY,
+        delivery_id TEXT NOT NULL,
+        attempted_at INTEGER NOT NULL,
+        response_status INTEGER,
+        error TEXT,
+        duration_ms INTEGER NOT NULL,
+        FOREIGN KEY (delivery_id) REFERENCES webhook_deliveries(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id, attempted_at);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS webhook_delivery_attempts;
+      DROP TABLE IF EXISTS webhook_deliveries;
+      DROP TABLE IF EXISTS webhook_endpoints;
+    `);
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * 007 - Link status event log
+ *
+ * Every status change of a link, numbered in order, so the merchant's live
+ * stream can resume from the last event a client saw (Last-Event-ID).
+ */
+
+import type { Migration } from '../migrate';
+
+export const linkStatusEvents: Migration = {
+  version: 7,
+  name: 'link_status_events',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE link_status_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        merchant_id TEXT NOT NULL,
+        link_id TEXT NOT NULL, -- Kept after the link is deleted
+        status TEXT NOT NULL,
+        use_count INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_link_status_events_merchant ON link_status_events(merchant_id, id);
+    `);
+  },
+
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS link_status_events');
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * 008 - Idempotency keys
+ *
+ * Responses to POST requests sent with an Idempotency-Key header, kept for
+ * 24 hours so a retried request gets the original response instead of
+ * creating a duplicate.
+ */
+
+import type { Migration } from '../migrate';
+
+export const idempotencyKeys: Migration = {
+  version: 8,
+  name: 'idempotency_keys',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE idempotency_keys (
+        scope TEXT NOT NULL, -- Endpoint and caller the key belongs to
+        key TEXT NOT NULL,
+        fingerprint TEXT NOT NULL, -- SHA-256 of the request
+        status_code INTEGER, -- NULL while the first request is being handled
+        response_body TEXT,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        PRIMARY KEY (scope, key)
+      );
+
+      CREATE INDEX idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+    `);
+  },
+
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS idempotency_keys');
+  },
+};
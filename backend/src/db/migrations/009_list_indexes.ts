@@ -0,0 +1,40 @@
+/**
+ * 009 - Indexes for paginated link and backup lists
+ *
+ * Lists are read per merchant in (sort column, id) order, optionally filtered
+ * by status, so the single-column merchant indexes are replaced by composite ones.
+ */
+
+import type { Migration } from '../migrate';
+
+export const listIndexes: Migration = {
+  version: 9,
+  name: 'list_indexes',
+
+  up(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_encrypted_links_merchant;
+      DROP INDEX IF EXISTS idx_backups_merchant;
+
+      CREATE INDEX idx_encrypted_links_merchant_created ON encrypted_links(merchant_id, created_at, id);
+      CREATE INDEX idx_encrypted_links_merchant_status ON encrypted_links(merchant_id, status, created_at, id);
+
+      CREATE INDEX idx_backups_merchant_created ON backups(merchant_id, created_at, id);
+      CREATE INDEX idx_backups_merchant_updated ON backups(merchant_id, updated_at, id);
+      CREATE INDEX idx_backups_merchant_status ON backups(merchant_id, status, created_at, id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_backups_merchant_status;
+      DROP INDEX IF EXISTS idx_backups_merchant_updated;
+      DROP INDEX IF EXISTS idx_backups_merchant_created;
+      DROP INDEX IF EXISTS idx_encrypted_links_merchant_status;
+      DROP INDEX IF EXISTS idx_encrypted_links_merchant_created;
+
+      CREATE INDEX idx_encrypted_links_merchant ON encrypted_links(merchant_id);
+      CREATE INDEX idx_backups_merchant ON backups(merchant_id);
+    `);
+  },
+};
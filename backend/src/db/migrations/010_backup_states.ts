@@ -0,0 +1,130 @@
+/**
+ * 010 - Backup states and revisions
+ *
+ * Backups get an explicit swap state (pending, invoice_paid, claimed, refunded,
+ * failed, recovered) enforced by a CHECK constraint, a revision counter and
+ * paid_at, set the first time the swap is known to be paid. Every revision of
+ * the ciphertext is kept in the append-only swap_backup_versions table;
+ * backups.encrypted_backup holds the latest one.
+ *
+ * Existing backups become revision 1; 'completed' becomes 'claimed' and any
+ * other unknown status becomes 'pending'.
+ */
+
+import Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+// Milliseconds since the epoch, as in 001
+const NOW_MS = "(CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER))";
+
+function createBackupIndexes(db: Database.Database): void {
+  db.exec(`
+    CREATE INDEX idx_backups_link ON backups(encrypted_link_id);
+    CREATE INDEX idx_backups_merchant_created ON backups(merchant_id, created_at, id);
+    CREATE INDEX idx_backups_merchant_updated ON backups(merchant_id, updated_at, id);
+    CREATE INDEX idx_backups_merchant_status ON backups(merchant_id, status, created_at, id);
+  `);
+}
+
+export const backupStates: Migration = {
+  version: 10,
+  name: 'backup_states',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE backups_new (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        encrypted_link_id TEXT,
+        encrypted_backup TEXT NOT NULL, -- Latest revision
+        status TEXT NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'invoice_paid', 'claimed', 'refunded', 'failed', 'recovered')),
+        version INTEGER NOT NULL DEFAULT 1,
+        paid_at INTEGER,
+        created_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        updated_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE,
+        FOREIGN KEY (encrypted_link_id) REFERENCES encrypted_links(id) ON DELETE SET NULL
+      );
+
+      INSERT INTO backups_new (id, merchant_id, encrypted_link_id, encrypted_backup, status, paid_at, created_at, updated_at)
+      SELECT
+        id, merchant_id, encrypted_link_id, encrypted_backup,
+        CASE
+          WHEN status = 'completed' THEN 'claimed'
+          WHEN status IN ('pending', 'invoice_paid', 'claimed', 'refunded', 'failed', 'recovered') THEN status
+          ELSE 'pending'
+        END,
+        CASE WHEN status = 'completed' THEN updated_at END,
+        created_at, updated_at
+      FROM backups;
+
+      DROP TABLE backups;
+      ALTER TABLE backups_new RENAME TO backups;
+    `);
+    createBackupIndexes(db);
+
+    db.exec(`
+      CREATE TABLE swap_backup_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        backup_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        encrypted_backup TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        UNIQUE (backup_id, version),
+        FOREIGN KEY (backup_id) REFERENCES backups(id) ON DELETE CASCADE
+      );
+
+      -- Revisions are never changed, and only go away together with their backup
+      CREATE TRIGGER swap_backup_versions_no_update
+      BEFORE UPDATE ON swap_backup_versions
+      BEGIN
+        SELECT RAISE(ABORT, 'swap_backup_versions is append-only');
+      END;
+
+      CREATE TRIGGER swap_backup_versions_no_delete
+      BEFORE DELETE ON swap_backup_versions
+      WHEN EXISTS (SELECT 1 FROM backups WHERE id = OLD.backup_id)
+      BEGIN
+        SELECT RAISE(ABORT, 'swap_backup_versions is append-only');
+      END;
+
+      INSERT INTO swap_backup_versions (backup_id, version, encrypted_backup, created_at)
+      SELECT id, 1, encrypted_backup, created_at FROM backups;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS swap_backup_versions;
+
+      CREATE TABLE backups_old (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        encrypted_link_id TEXT,
+        encrypted_backup TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        updated_at INTEGER NOT NULL DEFAULT ${NOW_MS},
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE,
+        FOREIGN KEY (encrypted_link_id) REFERENCES encrypted_links(id) ON DELETE SET NULL
+      );
+
+      INSERT INTO backups_old (id, merchant_id, encrypted_link_id, encrypted_backup, status, created_at, updated_at)
+      SELECT
+        id, merchant_id, encrypted_link_id, encrypted_backup,
+        CASE
+          WHEN status IN ('claimed', 'recovered') THEN 'completed'
+          WHEN status = 'refunded' THEN 'failed'
+          WHEN status = 'invoice_paid' THEN 'pending'
+          ELSE status
+        END,
+        created_at, updated_at
+      FROM backups;
+
+      DROP TABLE backups;
+      ALTER TABLE backups_old RENAME TO backups;
+    `);
+    createBackupIndexes(db);
+  },
+};
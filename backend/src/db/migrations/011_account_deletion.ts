@@ -0,0 +1,30 @@
+/**
+ * 011 - Account deletion
+ *
+ * When a merchant asks to delete their account, deletion_scheduled_at records
+ * when the grace period ends. The merchant row is then hard-deleted and the
+ * ON DELETE CASCADE foreign keys remove everything it owns.
+ */
+
+import type { Migration } from '../migrate';
+
+export const accountDeletion: Migration = {
+  version: 11,
+  name: 'account_deletion',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE merchants ADD COLUMN deletion_scheduled_at INTEGER;
+
+      CREATE INDEX idx_merchants_deletion ON merchants(deletion_scheduled_at)
+        WHERE deletion_scheduled_at IS NOT NULL;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_merchants_deletion;
+      ALTER TABLE merchants DROP COLUMN deletion_scheduled_at;
+    `);
+  },
+};
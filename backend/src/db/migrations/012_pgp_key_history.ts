@@ -0,0 +1,51 @@
+/**
+ * 012 - PGP key history
+ *
+ * Every PGP public key a merchant has used, by fingerprint, with the window in
+ * which new backups were encrypted to it (valid_from until valid_until, open
+ * for the current key) and when the merchant retired it. Backups and their
+ * revisions record the fingerprint of the key they are encrypted to.
+ *
+ * Fingerprints need the key parsed, so keys stored before this migration are
+ * added by backfillPgpKeyHistory() when the server starts; their backups keep
+ * a NULL fingerprint until then.
+ */
+
+import type { Migration } from '../migrate';
+
+export const pgpKeyHistory: Migration = {
+  version: 12,
+  name: 'pgp_key_history',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE merchant_pgp_keys (
+        merchant_id TEXT NOT NULL,
+        fingerprint TEXT NOT NULL, -- Lowercase hex
+        public_key TEXT NOT NULL,
+        valid_from INTEGER NOT NULL,
+        valid_until INTEGER, -- When the next key replaced it; NULL for the current key
+        retired_at INTEGER, -- No backup may be encrypted to it any more
+        PRIMARY KEY (merchant_id, fingerprint),
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      CREATE UNIQUE INDEX idx_merchant_pgp_keys_current ON merchant_pgp_keys(merchant_id)
+        WHERE valid_until IS NULL;
+
+      ALTER TABLE backups ADD COLUMN key_fingerprint TEXT;
+      ALTER TABLE swap_backup_versions ADD COLUMN key_fingerprint TEXT;
+
+      CREATE INDEX idx_backups_merchant_key ON backups(merchant_id, key_fingerprint, status);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_backups_merchant_key;
+      ALTER TABLE swap_backup_versions DROP COLUMN key_fingerprint;
+      ALTER TABLE backups DROP COLUMN key_fingerprint;
+      DROP TABLE IF EXISTS merchant_pgp_keys;
+    `);
+  },
+};
@@ -0,0 +1,60 @@
+/**
+ * 013 - Staff accounts
+ *
+ * Staff members log in with their own email and password and act for the
+ * merchant with a role (manager, cashier or accountant). The owner stays the
+ * merchant account itself. Invitations are single use and stored as SHA-256
+ * hashes of the token sent to the invitee. Sessions record the staff member
+ * they belong to. The column has no foreign key, so that it can be dropped
+ * again; removing a member revokes their sessions (see removeStaffMember).
+ */
+
+import type { Migration } from '../migrate';
+
+export const merchantUsers: Migration = {
+  version: 13,
+  name: 'merchant_users',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE merchant_users (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('manager', 'cashier', 'accountant')),
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE merchant_invitations (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        email TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('manager', 'cashier', 'accountant')),
+        token_hash TEXT UNIQUE NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        accepted_at INTEGER,
+        revoked_at INTEGER,
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      ALTER TABLE sessions ADD COLUMN user_id TEXT; -- Staff member; NULL for the owner
+
+      CREATE INDEX idx_merchant_users_merchant ON merchant_users(merchant_id);
+      CREATE INDEX idx_merchant_invitations_merchant ON merchant_invitations(merchant_id);
+      CREATE INDEX idx_sessions_user ON sessions(user_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_sessions_user;
+      ALTER TABLE sessions DROP COLUMN user_id;
+      DROP TABLE IF EXISTS merchant_invitations;
+      DROP TABLE IF EXISTS merchant_users;
+    `);
+  },
+};
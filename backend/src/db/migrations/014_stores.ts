@@ -0,0 +1,56 @@
+/**
+ * 014 - Stores
+ *
+ * A merchant can run several stores (points of sale), each with its own
+ * wallet, currency, language and branding. The server never sees a wallet
+ * descriptor, only its fingerprint, so a terminal can tell which store it is
+ * set up for. Stores are archived rather than deleted, so links and backups
+ * stay attributed to them. Like sessions.user_id, the store_id columns have
+ * no foreign key, so that they can be dropped again; NULL means the link or
+ * backup was not made for a particular store.
+ */
+
+import type { Migration } from '../migrate';
+
+export const stores: Migration = {
+  version: 14,
+  name: 'stores',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE stores (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        descriptor_fingerprint TEXT, -- Lowercase hex; identifies the store's wallet without revealing it
+        currency TEXT NOT NULL,
+        language TEXT NOT NULL,
+        description TEXT,
+        website_url TEXT,
+        logo_url TEXT,
+        brand_color TEXT, -- #rrggbb
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        archived_at INTEGER, -- No new links can be made for it
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      ALTER TABLE encrypted_links ADD COLUMN store_id TEXT;
+      ALTER TABLE backups ADD COLUMN store_id TEXT;
+
+      CREATE INDEX idx_stores_merchant ON stores(merchant_id, created_at);
+      CREATE INDEX idx_encrypted_links_merchant_store ON encrypted_links(merchant_id, store_id, created_at, id);
+      CREATE INDEX idx_backups_merchant_store ON backups(merchant_id, store_id, created_at, id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_backups_merchant_store;
+      DROP INDEX IF EXISTS idx_encrypted_links_merchant_store;
+      ALTER TABLE backups DROP COLUMN store_id;
+      ALTER TABLE encrypted_links DROP COLUMN store_id;
+      DROP TABLE IF EXISTS stores;
+    `);
+  },
+};
@@ -0,0 +1,40 @@
+/**
+ * 015 - API keys
+ *
+ * Keys a merchant issues to their own servers, each limited to a set of
+ * scopes. A key is a public prefix, used to look it up, and a secret stored
+ * only as a SHA-256 hash. Revoked keys are kept so the merchant can see when
+ * they were last used.
+ */
+
+import type { Migration } from '../migrate';
+
+export const apiKeys: Migration = {
+  version: 15,
+  name: 'api_keys',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        merchant_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        prefix TEXT UNIQUE NOT NULL,
+        secret_hash TEXT NOT NULL, -- SHA-256 of the secret, hex
+        scopes TEXT NOT NULL, -- Comma-separated permissions, e.g. links:read,links:write
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        revoked_at INTEGER,
+        FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_api_keys_merchant ON api_keys(merchant_id, created_at);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS api_keys;
+    `);
+  },
+};
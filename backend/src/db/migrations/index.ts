@@ -0,0 +1,41 @@
+/**
+ * Registered schema migrations, in version order
+ *
+ * Add new migrations as NNN_description.ts and append them here. Never edit a
+ * migration that has been released; write a new one instead.
+ */
+
+import type { Migration } from '../migrate';
+import { initialSchema } from './001_initial_schema';
+import { sessions } from './002_sessions';
+import { totp } from './003_totp';
+import { linkLifecycle } from './004_link_lifecycle';
+import { linkEvents } from './005_link_events';
+import { webhooks } from './006_webhooks';
+import { linkStatusEvents } from './007_link_status_events';
+import { idempotencyKeys } from './008_idempotency_keys';
+import { listIndexes } from './009_list_indexes';
+import { backupStates } from './010_backup_states';
+import { accountDeletion } from './011_account_deletion';
+import { pgpKeyHistory } from './012_pgp_key_history';
+import { merchantUsers } from './013_merchant_users';
+import { stores } from './014_stores';
+import { apiKeys } from './015_api_keys';
+
+export const migrations: Migration[] = [
+  initialSchema,
+  sessions,
+  totp,
+  linkLifecycle,
+  linkEvents,
+  webhooks,
+  linkStatusEvents,
+  idempotencyKeys,
+  listIndexes,
+  backupStates,
+  accountDeletion,
+  pgpKeyHistory,
+  merchantUsers,
+  stores,
+  apiKeys,
+];
@@ -0,0 +1,95 @@
+/**
+ * Keyset (cursor) pagination over a sortable integer column with the row ID
+ * as tie-breaker. Cursors are opaque to clients and only valid for the sort
+ * they were issued for.
+ */
+
+import { db } from './schema';
+import { ServiceError } from '../services/errors';
+import type { SortOrder } from '../validators/pagination.validators';
+
+export interface Page<T> {
+  data: T[];
+  nextCursor: string | null; // null on the last page
+}
+
+export interface PaginateOptions {
+  from: string; // e.g. "SELECT ... FROM encrypted_links"
+  where: string[]; // Conditions joined with AND
+  params: unknown[];
+  sort: string; // Public sort name, recorded in the cursor
+  sortColumn: string; // Integer column the sort uses; must be NOT NULL
+  order: SortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+interface CursorPayload {
+  s: string; // Sort
+  o: SortOrder;
+  v: number; // Sort column value of the last row
+  i: string; // ID of the last row
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * @throws ServiceError (400) if the cursor is malformed or was issued for another sort
+ */
+function decodeCursor(cursor: string, sort: string, order: SortOrder): CursorPayload {
+  let payload: Partial<CursorPayload> | null = null;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    // Reported below
+  }
+
+  if (
+    !payload
+    || payload.s !== sort
+    || payload.o !== order
+    || !Number.isSafeInteger(payload.v)
+    || typeof payload.i !== 'string'
+  ) {
+    throw new ServiceError('Invalid cursor for this sort order', 400, 'invalid_cursor');
+  }
+  return payload as CursorPayload;
+}
+
+/**
+ * Fetch one page of rows. Each row must have `id` and the sort column.
+ */
+export function paginate<Row extends { id: string }>(options: PaginateOptions): Page<Row> {
+  const { sortColumn, order } = options;
+  const where = [...options.where];
+  const params = [...options.params];
+
+  if (options.cursor) {
+    const position = decodeCursor(options.cursor, options.sort, order);
+    const after = order === 'desc' ? '<' : '>';
+    where.push(`(${sortColumn} ${after} ? OR (${sortColumn} = ? AND id ${after} ?))`);
+    params.push(position.v, position.v, position.i);
+  }
+
+  const direction = order === 'desc' ? 'DESC' : 'ASC';
+  const rows = db.prepare(`
+    ${options.from}
+    ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY ${sortColumn} ${direction}, id ${direction}
+    LIMIT ?
+  `).all(...params, options.limit + 1) as Row[];
+
+  // One extra row tells whether there is another page
+  const hasMore = rows.length > options.limit;
+  const data = hasMore ? rows.slice(0, options.limit) : rows;
+  const last = data[data.length - 1] as (Row & Record<string, unknown>) | undefined;
+
+  return {
+    data,
+    nextCursor: hasMore && last
+      ? encodeCursor({ s: options.sort, o: order, v: last[sortColumn] as number, i: last.id })
+      : null,
+  };
+}
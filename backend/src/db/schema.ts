@@ -1,30 +1,37 @@
+/**
+ * Database connection
+ *
+ * The schema itself is defined by the numbered migrations in ./migrations;
+ * initializeDatabase() brings the database file up to the latest version.
+ */
+
 import Database from 'better-sqlite3';
+import fs from 'fs';
 import path from 'path';
+import { runMigrations } from './migrate';
 
-// Initialize database
+// Initialize database (DB_PATH=':memory:' is used by the test suite)
 const dbPath = process.env.DB_PATH || path.join(__dirname, '../../data/bullpos.db');
+
+if (dbPath !== ':memory:') {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+}
+
 export const db: Database.Database = new Database(dbPath);
 
 // Enable WAL mode for better concurrency
 db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
 
-// Create merchants table
+/**
+ * Apply any pending migrations
+ */
 export function initializeDatabase() {
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS merchants (
-      id TEXT PRIMARY KEY,
-      email TEXT UNIQUE NOT NULL,
-      password_hash TEXT NOT NULL,
-      store_name TEXT,
-      website_url TEXT,
-      description TEXT,
-      language TEXT DEFAULT 'en',
-      currency TEXT DEFAULT 'BTC',
-      pgp_public_key TEXT NOT NULL,
-      created_at INTEGER NOT NULL,
-      updated_at INTEGER NOT NULL
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_merchants_email ON merchants(email);
-  `);
+  const applied = runMigrations(db);
+
+  for (const migration of applied) {
+    console.log(`Applied migration ${migration.version} (${migration.name})`);
+  }
 }
+
+export default db;
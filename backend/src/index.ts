@@ -11,9 +11,18 @@ import { merchantsRouter } from './routes/merchants.routes';
 import { authRouter } from './routes/auth.routes';
 import { linksRouter } from './routes/links.routes';
 import { backupsRouter } from './routes/backups.routes';
+import { webhooksRouter } from './routes/webhooks.routes';
+import { staffRouter } from './routes/staff.routes';
+import { storesRouter } from './routes/stores.routes';
+import { apiKeysRouter } from './routes/api-keys.routes';
+import { startWebhookWorker } from './services/webhook.service';
+import { startLinkExpiryWorker } from './services/link.service';
+import { startAccountDeletionWorker } from './services/merchant.service';
+import { backfillPgpKeyHistory } from './services/pgp-key.service';
 import { publicRateLimiter } from './middleware/rate-limit';
 import { validateGeneralPayloadSize } from './middleware/size-limit';
 import { requestLogger, securityEventLogger, errorLogger } from './middleware/logging';
+import { serviceErrorHandler } from './middleware/error-handler';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -57,12 +66,19 @@ app.use('/api/merchants', merchantsRouter);
 app.use('/api', authRouter); // Includes /api/merchants/register and /api/auth/login
 app.use('/api/links', linksRouter);
 app.use('/api/backups', backupsRouter);
+app.use('/api/webhooks', webhooksRouter);
+app.use('/api/staff', staffRouter);
+app.use('/api/stores', storesRouter);
+app.use('/api/api-keys', apiKeysRouter);
 
 // 404 handler
 app.use((req, res) => {
   res.status(404).json({ error: 'Not found' });
 });
 
+// Validation and service errors (400/403/404/409) are expected outcomes, not failures
+app.use(serviceErrorHandler);
+
 // Global error handler (must be after all routes)
 app.use(errorLogger);
 app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -70,8 +86,20 @@ app.use((err: Error, req: express.Request, res: express.Response, _next: express
   res.status(500).json({ error: 'Internal server error' });
 });
 
-app.listen(PORT, () => {
-  console.log(`BullPOS Backend running on port ${PORT}`);
-});
+// Tests import the app and drive it with supertest instead of listening
+if (process.env.NODE_ENV !== 'test') {
+  app.listen(PORT, () => {
+    console.log(`BullPOS Backend running on port ${PORT}`);
+  });
+
+  // Sends queued webhook deliveries, retrying failures with exponential backoff
+  startWebhookWorker();
+  // Expires links on time so live streams and webhooks report it
+  startLinkExpiryWorker();
+  // Erases accounts whose deletion grace period has ended
+  startAccountDeletionWorker();
+  // Records the fingerprints of PGP keys stored before the key history existed
+  backfillPgpKeyHistory().catch(error => console.error('PGP key history backfill failed:', error));
+}
 
 export default app;
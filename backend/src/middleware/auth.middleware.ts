@@ -1,5 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import { verifyToken } from '../services/token.service';
+import { getActiveSession } from '../services/session.service';
+import { isApiKey, verifyApiKey } from '../services/api-key.service';
+import { canReadLinkStream, redeemStreamTicket } from '../services/link-stream.service';
+import { PermissionDeniedError, ServiceError } from '../services/errors';
+import { hasPermission, MerchantRole, Permission } from '../services/permissions';
+import { apiKeyRateLimiter } from './rate-limit';
 
 // Extend Express Request type to include merchant info
 declare global {
@@ -7,22 +13,19 @@ declare global {
   namespace Express {
     interface Request {
       merchantId?: string;
+      sessionId?: string;
+      userId?: string | null; // Staff member; null for the owner
+      role?: MerchantRole;
+      apiKeyId?: string; // Set instead of sessionId and role for requests made with an API key
+      apiKeyScopes?: readonly Permission[];
     }
   }
 }
 
-// Validate JWT_SECRET at module load
-if (!process.env.JWT_SECRET && process.env.NODE_ENV === 'production') {
-  throw new Error('JWT_SECRET environment variable must be set in production');
-}
-
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
-
-export interface JWTPayload {
-  merchantId: string;
-  email: string;
-}
-
+/**
+ * Accept an access token, or an API key (`Bearer bpk_...`) for server-to-server
+ * integrations. Requests made with a key are rate limited per key.
+ */
 export function authenticateMerchant(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
 
@@ -31,25 +34,95 @@ export function authenticateMerchant(req: Request, res: Response, next: NextFunc
     return;
   }
 
-  const token = authHeader.substring(7);
+  const credential = authHeader.substring(7);
+  if (isApiKey(credential)) {
+    const principal = verifyApiKey(credential);
+    if (!principal) {
+      res.status(401).json({ error: 'Invalid or revoked API key' });
+      return;
+    }
 
-  try {
-    const payload = jwt.verify(token, JWT_SECRET, {
-      algorithms: ['HS256'] // Prevent algorithm confusion attacks
-    }) as JWTPayload;
-    req.merchantId = payload.merchantId;
-    next();
-  } catch (error) {
-    // Log error for debugging but return generic message
-    console.error('JWT verification failed:', error);
+    req.merchantId = principal.merchantId;
+    req.userId = null;
+    req.apiKeyId = principal.keyId;
+    req.apiKeyScopes = principal.scopes;
+    apiKeyRateLimiter(req, res, next);
+    return;
+  }
+
+  const payload = verifyToken(credential);
+
+  // Logging out, revoking a session or removing a staff member invalidates access tokens immediately
+  const session = payload ? getActiveSession(payload.sid, payload.merchantId) : null;
+  if (!payload || !session) {
     res.status(401).json({ error: 'Invalid or expired token' });
+    return;
   }
+
+  req.merchantId = payload.merchantId;
+  req.sessionId = payload.sid;
+  req.userId = session.userId;
+  req.role = session.role;
+  next();
 }
 
-export function generateToken(merchantId: string, email: string): string {
-  return jwt.sign(
-    { merchantId, email } as JWTPayload,
-    JWT_SECRET,
-    { expiresIn: '7d' }
-  );
+/**
+ * For GET /api/links/stream: accept a single-use `?ticket=` from
+ * POST /api/links/stream/tickets in place of the Authorization header, which
+ * EventSource cannot send. Requests without a ticket go through authenticateMerchant.
+ */
+export function authenticateStream(req: Request, res: Response, next: NextFunction) {
+  const { ticket } = req.query;
+  if (ticket === undefined) {
+    authenticateMerchant(req, res, next);
+    return;
+  }
+
+  const principal = typeof ticket === 'string' ? redeemStreamTicket(ticket) : null;
+  // The session or key may have ended, or lost links:read, since the ticket was issued
+  if (!principal || !canReadLinkStream(principal)) {
+    res.status(401).json({ error: 'Invalid or expired stream ticket' });
+    return;
+  }
+
+  req.merchantId = principal.merchantId;
+  req.sessionId = principal.sessionId;
+  req.userId = principal.userId;
+  req.role = principal.role;
+  req.apiKeyId = principal.apiKeyId;
+  req.apiKeyScopes = principal.apiKeyScopes;
+  next();
+}
+
+/**
+ * Allow the request only if the role set by authenticateMerchant, or the API
+ * key's scopes, grant the permission
+ * Must come after authenticateMerchant; refusals are answered by serviceErrorHandler (403)
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKeyId) {
+      if (!req.apiKeyScopes?.includes(permission)) {
+        next(new PermissionDeniedError(permission, 'This API key'));
+        return;
+      }
+    } else if (!req.role || !hasPermission(req.role, permission)) {
+      next(new PermissionDeniedError(permission));
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Refuse API keys on routes that act on the caller's own login session, such
+ * as logout and step-up
+ * Must come after authenticateMerchant; refusals are answered by serviceErrorHandler (403)
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.sessionId) {
+    next(new ServiceError('This endpoint needs a login session, not an API key', 403, 'session_required'));
+    return;
+  }
+  next();
 }
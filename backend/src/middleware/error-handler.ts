@@ -0,0 +1,25 @@
+/**
+ * Maps validation and service errors thrown by route handlers to JSON responses
+ * Anything else falls through to the logging and 500 handlers in index.ts
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { ServiceError } from '../services/errors';
+
+export function serviceErrorHandler(err: Error, req: Request, res: Response, next: NextFunction) {
+  if (err instanceof ZodError) {
+    res.status(400).json({
+      error: 'Validation error',
+      details: err.errors
+    });
+    return;
+  }
+
+  if (err instanceof ServiceError) {
+    res.status(err.status).json(err.code ? { error: err.message, code: err.code } : { error: err.message });
+    return;
+  }
+
+  next(err);
+}
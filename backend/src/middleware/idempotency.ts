@@ -0,0 +1,66 @@
+/**
+ * Idempotency-Key support for POST endpoints that create resources
+ * A retried request with the same key gets the stored response instead of creating a duplicate
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+  abandonIdempotentRequest,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  requestFingerprint,
+} from '../services/idempotency.service';
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/; // Printable ASCII, e.g. a UUID
+
+/**
+ * Replays the stored response when the Idempotency-Key header was seen before
+ * with the same request, and answers 409 when it was seen with a different one.
+ * Place after authentication so keys are scoped to the merchant, and before
+ * rate limiters so replays do not count against them.
+ */
+export function idempotency(req: Request, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    res.status(400).json({
+      error: 'Invalid Idempotency-Key header',
+      message: 'Idempotency-Key must be 1-255 printable ASCII characters',
+    });
+    return;
+  }
+
+  const path = `${req.baseUrl}${req.path}`;
+  const scope = `${req.method} ${path} ${req.merchantId ?? 'public'}`;
+  const start = beginIdempotentRequest(scope, key, requestFingerprint(req.method, path, req.body));
+
+  if (start.replay) {
+    res.set('Idempotent-Replayed', 'true');
+    res.status(start.statusCode).json(start.body);
+    return;
+  }
+
+  // Capture the JSON body so it can be stored once the response is sent
+  let responseBody: unknown;
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  res.once('close', () => {
+    // Server errors, rate limiting and aborted responses release the key so the client can retry
+    if (!res.writableFinished || res.statusCode >= 500 || res.statusCode === 429) {
+      abandonIdempotentRequest(scope, key);
+    } else {
+      completeIdempotentRequest(scope, key, res.statusCode, responseBody);
+    }
+  });
+
+  next();
+}
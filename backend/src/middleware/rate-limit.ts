@@ -4,7 +4,7 @@
  */
 
 import rateLimit from 'express-rate-limit';
-import { Request } from 'express';
+import { NextFunction, Request, Response } from 'express';
 
 // IP-based rate limiting for public endpoints
 export const publicRateLimiter = rateLimit({
@@ -78,6 +78,77 @@ export const merchantRateLimiter = rateLimit({
   }
 });
 
+// Per-key rate limiting for requests made with an API key, on top of the route's own limits
+// Applied by authenticateMerchant, so a busy integration cannot starve the merchant's other keys
+export const apiKeyRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 1000, // Limit each API key to 1000 requests per hour
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    // apiKeyId is added by authenticateMerchant middleware
+    return req.apiKeyId || req.ip || 'unknown';
+  },
+  message: 'API key rate limit exceeded',
+  handler: (req, res) => {
+    res.status(429).json({
+      error: 'API key rate limit exceeded',
+      message: 'This API key has exceeded its hourly request limit. Please try again later.',
+      retryAfter: res.getHeader('Retry-After')
+    });
+  }
+});
+
+const MAX_STREAMS_PER_MERCHANT = 5;
+const openStreams = new Map<string, number>();
+
+// Concurrent connection limit for long-lived streams (GET /api/links/stream)
+// Counts open connections per merchant and releases the slot when the client disconnects
+export function merchantStreamLimiter(req: Request, res: Response, next: NextFunction) {
+  const key = req.merchantId || req.ip || 'unknown';
+  const open = openStreams.get(key) ?? 0;
+
+  if (open >= MAX_STREAMS_PER_MERCHANT) {
+    res.status(429).json({
+      error: 'Stream limit exceeded',
+      message: `At most ${MAX_STREAMS_PER_MERCHANT} streams may be open at once. Close one and try again.`,
+    });
+    return;
+  }
+
+  openStreams.set(key, open + 1);
+  res.once('close', () => {
+    const remaining = (openStreams.get(key) ?? 1) - 1;
+    if (remaining > 0) {
+      openStreams.set(key, remaining);
+    } else {
+      openStreams.delete(key);
+    }
+  });
+
+  next();
+}
+
+// Rate limiting for opening link status streams and issuing their tickets
+// Kept apart from merchantRateLimiter, so a stream reconnecting after drops cannot use up the merchant's other operations
+export const linkStreamRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 720, // A reconnect takes a ticket and a connection; this allows one every 10 seconds
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    return req.merchantId || req.ip || 'unknown';
+  },
+  message: 'Stream rate limit exceeded',
+  handler: (req, res) => {
+    res.status(429).json({
+      error: 'Stream rate limit exceeded',
+      message: 'Too many stream connections. Please try again later.',
+      retryAfter: res.getHeader('Retry-After')
+    });
+  }
+});
+
 // Aggressive rate limiting for backup operations (resource intensive)
 export const backupRateLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
@@ -98,6 +169,25 @@ export const backupRateLimiter = rateLimit({
   }
 });
 
+// Rate limiting for swap progress events reported by paying browsers (public, per IP)
+export const linkEventRateLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 200, // A payment reports up to 4 events, so this allows 50 payments per hour like backups
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => {
+    return req.ip || 'unknown';
+  },
+  message: 'Link event rate limit exceeded',
+  handler: (req, res) => {
+    res.status(429).json({
+      error: 'Link event rate limit exceeded',
+      message: 'Too many payment events reported. Please try again in an hour.',
+      retryAfter: res.getHeader('Retry-After')
+    });
+  }
+});
+
 // Link creation rate limiting (prevents link spam)
 export const linkCreationRateLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
@@ -9,6 +9,7 @@ import { Request, Response, NextFunction } from 'express';
 const SIZE_LIMITS = {
   BACKUP_MAX_SIZE: 500 * 1024, // 500 KB for encrypted backups
   LINK_PAYLOAD_MAX_SIZE: 100 * 1024, // 100 KB for payment link encrypted data
+  LINK_EVENT_MAX_SIZE: 1024, // 1 KB for swap progress events
   GENERAL_PAYLOAD_MAX_SIZE: 10 * 1024 * 1024, // 10 MB general limit (set in express.json)
 };
 
@@ -78,6 +79,26 @@ export function validateLinkPayloadSize(req: Request, res: Response, next: NextF
   next();
 }
 
+/**
+ * Validates that a payment link event is within acceptable limits
+ * Events only carry a type, swap ID and txid, so anything larger is abuse
+ */
+export function validateLinkEventSize(req: Request, res: Response, next: NextFunction) {
+  const eventSize = Buffer.byteLength(JSON.stringify(req.body ?? {}), 'utf8');
+
+  if (eventSize > SIZE_LIMITS.LINK_EVENT_MAX_SIZE) {
+    res.status(413).json({
+      error: 'Payload too large',
+      message: `Event size (${eventSize} bytes) exceeds maximum allowed size (${SIZE_LIMITS.LINK_EVENT_MAX_SIZE} bytes)`,
+      maxSize: SIZE_LIMITS.LINK_EVENT_MAX_SIZE,
+      actualSize: eventSize
+    });
+    return;
+  }
+
+  next();
+}
+
 /**
  * Validates general request payload size
  * Additional safety check beyond express.json limit
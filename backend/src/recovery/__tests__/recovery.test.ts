@@ -0,0 +1,140 @@
+/**
+ * Offline Swap Recovery Tests
+ * Runs against the bundle and key in fixtures/: four backups encrypted to the
+ * fixture key, except backupOther004, which is encrypted to another key
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as openpgp from 'openpgp';
+import {
+  buildRescueFiles,
+  decryptSwapBackup,
+  formatRecoveryReport,
+  parseBackupBundle,
+  readRecoveryKey,
+  recoverBundle,
+  RecoveryError,
+  RecoveryResult,
+} from '../recovery';
+
+const PASSPHRASE = 'correct horse battery staple';
+const WALLET_A = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+}
+
+describe('Offline Swap Recovery', () => {
+  describe('parseBackupBundle', () => {
+    it('should read the backups of an exported bundle', () => {
+      const backups = parseBackupBundle(fixture('bundle.json'));
+
+      expect(backups.map(backup => backup.backupId))
+        .toEqual(['backupFailed01', 'backupPaid0002', 'backupClaimed3', 'backupOther004']);
+    });
+
+    it('should accept a bare array of backups', () => {
+      const { backups } = JSON.parse(fixture('bundle.json'));
+
+      expect(parseBackupBundle(JSON.stringify(backups))).toHaveLength(4);
+    });
+
+    it('should read the backups of a merchant export archive', () => {
+      const { backups } = JSON.parse(fixture('bundle.json'));
+      const archive = [
+        { type: 'header', data: { format: 'bullpos-export', version: 1 } },
+        ...backups.map((data: unknown) => ({ type: 'backup', data })),
+        { type: 'signature', data: { algorithm: 'Ed25519' } },
+      ].map(record => `${JSON.stringify(record)}\n`).join('');
+
+      expect(parseBackupBundle(archive)).toEqual(backups);
+    });
+
+    it('should reject files that are not backup bundles', () => {
+      expect(() => parseBackupBundle('not json')).toThrow(RecoveryError);
+      expect(() => parseBackupBundle('{"links":[]}')).toThrow('Bundle has no backups array');
+      expect(() => parseBackupBundle('[{"backupId":"b1","status":"completed","encryptedBackup":"x"}]'))
+        .toThrow('Bundle entry 0 is not a backup');
+    });
+  });
+
+  describe('readRecoveryKey', () => {
+    it('should unlock a protected key with its passphrase', async () => {
+      const key = await readRecoveryKey(fixture('private-key.asc'), PASSPHRASE);
+
+      expect(key.isDecrypted()).toBe(true);
+    });
+
+    it('should require the right passphrase', async () => {
+      await expect(readRecoveryKey(fixture('private-key.asc'))).rejects.toThrow('a passphrase is required');
+      await expect(readRecoveryKey(fixture('private-key.asc'), 'wrong')).rejects.toThrow('Incorrect passphrase');
+    });
+
+    it('should reject text that is not a private key', async () => {
+      await expect(readRecoveryKey('not a key')).rejects.toThrow(RecoveryError);
+    });
+  });
+
+  describe('with the fixture key', () => {
+    let key: openpgp.PrivateKey;
+    let results: RecoveryResult[];
+
+    beforeAll(async () => {
+      key = await readRecoveryKey(fixture('private-key.asc'), PASSPHRASE);
+      results = await recoverBundle(parseBackupBundle(fixture('bundle.json')), key);
+    });
+
+    it('should decrypt a swap backup', async () => {
+      const [backup] = parseBackupBundle(fixture('bundle.json'));
+
+      const swap = await decryptSwapBackup(backup.encryptedBackup, key);
+
+      expect(swap).toMatchObject({
+        version: 1,
+        swapId: 'swapFailed1',
+        mnemonic: WALLET_A,
+        satoshis: 25000,
+        paymentLinkId: 'link0000001',
+      });
+    });
+
+    it('should report backups it cannot decrypt without stopping', () => {
+      expect(results.map(result => result.swap?.swapId))
+        .toEqual(['swapFailed1', 'swapPaid2', 'swapClaimed3', undefined]);
+      expect(results[3].error).toMatch(/^Could not decrypt/);
+    });
+
+    it('should write one rescue file per wallet with swaps to recover', () => {
+      const files = buildRescueFiles(results);
+
+      // The claimed swap is settled and the other wallet's backup is unreadable
+      expect(files).toHaveLength(1);
+      expect(JSON.parse(files[0].content)).toEqual({ mnemonic: WALLET_A });
+      expect(files[0].swapIds).toEqual(['swapFailed1', 'swapPaid2']);
+      expect(files[0].fileName).toMatch(/^bullpos-recovery-[0-9a-f]{12}\.json$/);
+    });
+
+    it('should print a status report without the mnemonics', () => {
+      const files = buildRescueFiles(results);
+
+      const report = formatRecoveryReport(results, files);
+
+      expect(report).toContain('backupFailed01  failed        NEEDS RECOVERY  swap swapFailed1, 25000 sats');
+      expect(report).toContain(`rescue file: ${files[0].fileName}`);
+      expect(report).toContain('backupClaimed3  claimed       settled');
+      expect(report).toContain('backupOther004  pending       ERROR Could not decrypt');
+      expect(report).toContain('4 backups: 2 to recover (37000 sats), 1 settled, 1 could not be read');
+      expect(report).not.toContain('abandon');
+    });
+
+    it('should point swaps without a mnemonic to the recovery page', () => {
+      const [result] = results;
+      const withoutMnemonic = { ...result, swap: { ...result.swap!, mnemonic: null } };
+
+      expect(buildRescueFiles([withoutMnemonic])).toEqual([]);
+      expect(formatRecoveryReport([withoutMnemonic])).toContain('restore the swap from the recovery page');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Swap recovery command line
+ *
+ *   npm run recover -- <bundle> <private-key.asc> [--out <dir>]
+ *
+ * Decrypts every backup of a merchant export archive (GET /api/merchants/export)
+ * or a JSON backup bundle, prints a status report and writes one
+ * boltz.exchange rescue file per wallet with swaps to recover into <dir>
+ * (default: the current directory). A passphrase-protected key is unlocked
+ * with the PGP_PASSPHRASE environment variable.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  buildRescueFiles,
+  formatRecoveryReport,
+  parseBackupBundle,
+  readRecoveryKey,
+  recoverBundle,
+} from './recovery';
+
+async function main(args: string[]): Promise<void> {
+  const outIndex = args.indexOf('--out');
+  const outDir = outIndex === -1 ? '.' : args[outIndex + 1];
+  const [bundlePath, keyPath] = outIndex === -1 ? args : args.filter((_, i) => i !== outIndex && i !== outIndex + 1);
+
+  if (!bundlePath || !keyPath || !outDir) {
+    throw new Error('Usage: npm run recover -- <bundle> <private-key.asc> [--out <dir>]');
+  }
+
+  const backups = parseBackupBundle(readFileSync(bundlePath, 'utf8'));
+  const key = await readRecoveryKey(readFileSync(keyPath, 'utf8'), process.env.PGP_PASSPHRASE);
+  const results = await recoverBundle(backups, key);
+  const rescueFiles = buildRescueFiles(results);
+
+  if (rescueFiles.length > 0) {
+    mkdirSync(outDir, { recursive: true });
+  }
+  for (const file of rescueFiles) {
+    writeFileSync(join(outDir, file.fileName), file.content, { mode: 0o600 });
+  }
+
+  console.log(formatRecoveryReport(results, rescueFiles));
+  if (results.some(result => result.error)) {
+    process.exitCode = 1;
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
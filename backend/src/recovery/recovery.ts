@@ -0,0 +1,283 @@
+/**
+ * Offline swap recovery
+ *
+ * Decrypts the swap backups of an exported backup bundle with the merchant's
+ * PGP private key, reports which swaps still hold funds, and turns their Boltz
+ * session mnemonics into files for the boltz.exchange rescue tool, in the same
+ * `{ mnemonic }` format the payment page downloads. Nothing here touches the
+ * database or the network: the bundle, the key and the decrypted data stay on
+ * the merchant's machine.
+ */
+
+import { createHash } from 'crypto';
+import * as openpgp from 'openpgp';
+import { BackupStatus, backupStatusSchema } from '../validators/backup.validators';
+
+/**
+ * Backups whose swap may still hold unclaimed funds
+ */
+export const RECOVERABLE_STATUSES: BackupStatus[] = ['pending', 'invoice_paid', 'failed'];
+
+/**
+ * Thrown when the bundle, the private key or a backup cannot be used
+ */
+export class RecoveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecoveryError';
+  }
+}
+
+/**
+ * A backup as returned by GET /api/backups/:id
+ */
+export interface BundledBackup {
+  backupId: string;
+  paymentLinkId: string | null;
+  status: BackupStatus;
+  encryptedBackup: string;
+  createdAt: number;
+}
+
+/**
+ * Plaintext content of a swap backup, as written by the payment page
+ * (frontend/src/backup/swap-backup.ts)
+ */
+export interface SwapBackup {
+  version: 1;
+  swapId: string;
+  invoice: string;
+  swap: string;
+  mnemonic: string | null;
+  satoshis: number;
+  paymentLinkId?: string;
+  createdAt: string;
+}
+
+export interface RecoveryResult {
+  backup: BundledBackup;
+  swap?: SwapBackup; // Set when the backup decrypted
+  error?: string; // Why it did not
+}
+
+/**
+ * A rescue file for the boltz.exchange rescue tool
+ */
+export interface RescueFile {
+  fileName: string;
+  content: string;
+  swapIds: string[];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isBundledBackup(value: unknown): value is BundledBackup {
+  const backup = value as BundledBackup;
+  return !!backup && typeof backup === 'object'
+    && typeof backup.backupId === 'string'
+    && typeof backup.encryptedBackup === 'string'
+    && backupStatusSchema.safeParse(backup.status).success;
+}
+
+/**
+ * Read the `backup` records of an export archive (GET /api/merchants/export),
+ * one JSON record per line
+ */
+function parseExportArchive(archive: string): unknown[] | undefined {
+  try {
+    return archive.split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as { type?: string; data?: unknown })
+      .filter(record => record.type === 'backup')
+      .map(record => record.data);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the backups of an export archive from GET /api/merchants/export, or of
+ * a JSON object with a `backups` array, or a bare array, of backups shaped
+ * like GET /api/backups/:id
+ * @throws RecoveryError if the file is none of these
+ */
+export function parseBackupBundle(content: string): BundledBackup[] {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(content);
+  } catch {
+    bundle = parseExportArchive(content);
+    if (!bundle) {
+      throw new RecoveryError('Bundle is not valid JSON');
+    }
+  }
+
+  const backups = Array.isArray(bundle) ? bundle : (bundle as { backups?: unknown } | null)?.backups;
+  if (!Array.isArray(backups)) {
+    throw new RecoveryError('Bundle has no backups array');
+  }
+
+  backups.forEach((backup, index) => {
+    if (!isBundledBackup(backup)) {
+      throw new RecoveryError(`Bundle entry ${index} is not a backup`);
+    }
+  });
+  return backups;
+}
+
+/**
+ * Read an armored private key, unlocking it with the passphrase if it is protected
+ * @throws RecoveryError if the key cannot be parsed or unlocked
+ */
+export async function readRecoveryKey(armoredKey: string, passphrase?: string): Promise<openpgp.PrivateKey> {
+  let privateKey: openpgp.PrivateKey;
+  try {
+    privateKey = await openpgp.readPrivateKey({ armoredKey });
+  } catch (error) {
+    throw new RecoveryError(`Could not parse private key: ${errorMessage(error)}`);
+  }
+
+  if (privateKey.isDecrypted()) {
+    return privateKey;
+  }
+  if (!passphrase) {
+    throw new RecoveryError('Private key is passphrase-protected; a passphrase is required');
+  }
+
+  try {
+    return await openpgp.decryptKey({ privateKey, passphrase });
+  } catch {
+    throw new RecoveryError('Incorrect passphrase for private key');
+  }
+}
+
+/**
+ * Check that decrypted backup content is a swap backup
+ * @throws RecoveryError if it is not
+ */
+export function parseSwapBackup(plaintext: string): SwapBackup {
+  let swap: Partial<SwapBackup>;
+  try {
+    swap = JSON.parse(plaintext);
+  } catch {
+    throw new RecoveryError('Backup does not contain valid JSON');
+  }
+
+  if (!swap || typeof swap !== 'object' || swap.version !== 1) {
+    throw new RecoveryError('Unsupported backup version');
+  }
+  if (typeof swap.swapId !== 'string' || typeof swap.swap !== 'string' || !swap.swap) {
+    throw new RecoveryError('Backup is missing the swap data');
+  }
+  if (typeof swap.satoshis !== 'number') {
+    throw new RecoveryError('Backup is missing the swap amount');
+  }
+  return swap as SwapBackup;
+}
+
+/**
+ * Decrypt one swap backup
+ * @throws RecoveryError if the message is malformed, not encrypted to the key, or not a swap backup
+ */
+export async function decryptSwapBackup(encryptedBackup: string, key: openpgp.PrivateKey): Promise<SwapBackup> {
+  let plaintext: string;
+  try {
+    const message = await openpgp.readMessage({ armoredMessage: encryptedBackup });
+    ({ data: plaintext } = await openpgp.decrypt({ message, decryptionKeys: key }));
+  } catch (error) {
+    throw new RecoveryError(`Could not decrypt: ${errorMessage(error)}`);
+  }
+  return parseSwapBackup(plaintext);
+}
+
+/**
+ * Decrypt every backup of a bundle; a backup that fails does not stop the others
+ * @returns One result per backup, in bundle order
+ */
+export async function recoverBundle(backups: BundledBackup[], key: openpgp.PrivateKey): Promise<RecoveryResult[]> {
+  const results: RecoveryResult[] = [];
+  for (const backup of backups) {
+    try {
+      results.push({ backup, swap: await decryptSwapBackup(backup.encryptedBackup, key) });
+    } catch (error) {
+      results.push({ backup, error: errorMessage(error) });
+    }
+  }
+  return results;
+}
+
+function needsRecovery(result: RecoveryResult): boolean {
+  return RECOVERABLE_STATUSES.includes(result.backup.status);
+}
+
+/**
+ * Build the rescue files for swaps that still need recovery. Swaps created by
+ * the same wallet share one Boltz mnemonic, so there is one file per mnemonic.
+ */
+export function buildRescueFiles(results: RecoveryResult[]): RescueFile[] {
+  const files = new Map<string, RescueFile>();
+
+  for (const { swap } of results.filter(needsRecovery)) {
+    if (!swap?.mnemonic) {
+      continue;
+    }
+    const file = files.get(swap.mnemonic);
+    if (file) {
+      file.swapIds.push(swap.swapId);
+      continue;
+    }
+    const id = createHash('sha256').update(swap.mnemonic).digest('hex').slice(0, 12);
+    files.set(swap.mnemonic, {
+      fileName: `bullpos-recovery-${id}.json`,
+      content: JSON.stringify({ mnemonic: swap.mnemonic }),
+      swapIds: [swap.swapId],
+    });
+  }
+  return [...files.values()];
+}
+
+/**
+ * Human-readable report: one line per backup, then a summary
+ */
+export function formatRecoveryReport(results: RecoveryResult[], rescueFiles: RescueFile[] = []): string {
+  const lines: string[] = [];
+  const rescueFileBySwap = new Map(rescueFiles.flatMap(file => file.swapIds.map(swapId => [swapId, file.fileName])));
+  let toRecover = 0;
+  let toRecoverSats = 0;
+  let settled = 0;
+  let unreadable = 0;
+
+  for (const result of results) {
+    const { backup, swap } = result;
+    const head = `${backup.backupId}  ${backup.status.padEnd(12)}`;
+
+    if (!swap) {
+      unreadable++;
+      lines.push(`${head}  ERROR ${result.error}`);
+      continue;
+    }
+
+    const details = `swap ${swap.swapId}, ${swap.satoshis} sats, created ${swap.createdAt}`
+      + (backup.paymentLinkId ? `, link ${backup.paymentLinkId}` : '');
+    if (!needsRecovery(result)) {
+      settled++;
+      lines.push(`${head}  settled         ${details}`);
+      continue;
+    }
+
+    toRecover++;
+    toRecoverSats += swap.satoshis;
+    const rescueFile = rescueFileBySwap.get(swap.swapId);
+    lines.push(`${head}  NEEDS RECOVERY  ${details}`);
+    lines.push(rescueFile
+      ? `    rescue file: ${rescueFile}`
+      : '    no mnemonic in backup: restore the swap from the recovery page instead');
+  }
+
+  lines.push('');
+  lines.push(`${results.length} backups: ${toRecover} to recover (${toRecoverSats} sats), `
+    + `${settled} settled, ${unreadable} could not be read`);
+  return lines.join('\n');
+}
@@ -0,0 +1,49 @@
+/**
+ * API key routes
+ * Only the owner issues and revokes keys; issuing one needs a recent step-up,
+ * like other changes that hand out access to the account
+ */
+
+import { Router, Request, Response } from 'express';
+import { authenticateMerchant, requirePermission } from '../middleware/auth.middleware';
+import { merchantRateLimiter } from '../middleware/rate-limit';
+import { createApiKeySchema } from '../validators/api-key.validators';
+import * as apiKeyService from '../services/api-key.service';
+import { assertRecentStepUp } from '../services/session.service';
+
+export const apiKeysRouter = Router();
+
+// POST /api/api-keys - Issue a key with scopes (the key is only returned here)
+apiKeysRouter.post(
+  '/',
+  authenticateMerchant,
+  requirePermission('api-keys:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    const input = createApiKeySchema.parse(req.body);
+    assertRecentStepUp(req.sessionId!);
+    res.status(201).json(apiKeyService.createApiKey(req.merchantId!, input));
+  }
+);
+
+// GET /api/api-keys - List keys with their scopes and when they were last used
+apiKeysRouter.get(
+  '/',
+  authenticateMerchant,
+  requirePermission('api-keys:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(apiKeyService.listApiKeys(req.merchantId!));
+  }
+);
+
+// DELETE /api/api-keys/:id - Revoke a key
+apiKeysRouter.delete(
+  '/:id',
+  authenticateMerchant,
+  requirePermission('api-keys:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(apiKeyService.revokeApiKey(req.merchantId!, req.params.id));
+  }
+);
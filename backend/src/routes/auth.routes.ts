@@ -1,32 +1,192 @@
 /**
  * Authentication routes
- * Demonstrates integration of rate limiting for auth endpoints
- * TODO: Full implementation in issue #7
+ * Registration and login, each behind its own rate limiter, plus refresh token
+ * rotation, session management and TOTP two-factor authentication
  */
 
-import { Router, Request, Response } from 'express';
-import { registrationRateLimiter, loginRateLimiter } from '../middleware/rate-limit';
+import { Router, Request, Response, NextFunction } from 'express';
+import { ZodError } from 'zod';
+import { authenticateMerchant, requirePermission, requireSession } from '../middleware/auth.middleware';
+import { registrationRateLimiter, loginRateLimiter, merchantRateLimiter } from '../middleware/rate-limit';
+import {
+  registerSchema,
+  loginSchema,
+  refreshSchema,
+  stepUpSchema,
+  confirmTotpSchema,
+} from '../validators/auth.validators';
+import * as authService from '../services/auth.service';
+import * as sessionService from '../services/session.service';
+import * as totpService from '../services/totp.service';
 
 export const authRouter = Router();
 
+function getSessionContext(req: Request): sessionService.SessionContext {
+  return { userAgent: req.get('user-agent'), ip: req.ip };
+}
+
 // POST /api/merchants/register - Register new merchant
 // Uses strict rate limiting (5 per hour per IP) to prevent account spam
 authRouter.post(
   '/merchants/register',
   registrationRateLimiter,
-  (req: Request, res: Response) => {
-    // TODO: Implement registration logic (issue #7)
-    res.status(501).json({ error: 'Not implemented yet' });
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = registerSchema.parse(req.body);
+      const result = await authService.registerMerchant(input, getSessionContext(req));
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          details: error.errors
+        });
+        return;
+      }
+      if (error instanceof authService.EmailAlreadyRegisteredError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
   }
 );
 
-// POST /api/auth/login - Login existing merchant
+// POST /api/auth/login - Login existing merchant or staff member
 // Uses rate limiting (10 per minute per IP) to prevent brute force attacks
 authRouter.post(
   '/auth/login',
   loginRateLimiter,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = loginSchema.parse(req.body);
+      const result = await authService.login(input, getSessionContext(req));
+
+      if (!result) {
+        res.status(401).json({ error: 'Invalid email or password' });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          details: error.errors
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/auth/refresh - Exchange a refresh token for a new token pair
+// Refresh tokens are single use; replaying one revokes its whole session
+authRouter.post('/auth/refresh', loginRateLimiter, (req: Request, res: Response) => {
+  const { refreshToken } = refreshSchema.parse(req.body);
+  res.json(sessionService.refreshSession(refreshToken, getSessionContext(req)));
+});
+
+// POST /api/auth/logout - Revoke the current session
+authRouter.post('/auth/logout', authenticateMerchant, requireSession, (req: Request, res: Response) => {
+  sessionService.revokeSession(req.merchantId!, req.sessionId!, req.userId);
+  res.json({ success: true });
+});
+
+// GET /api/auth/sessions - List your active sessions (the owner's, or a staff member's own)
+authRouter.get(
+  '/auth/sessions',
+  authenticateMerchant,
+  requireSession,
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(sessionService.listSessions(req.merchantId!, req.sessionId, req.userId));
+  }
+);
+
+// DELETE /api/auth/sessions/:id - Revoke a session (e.g. a lost device)
+authRouter.delete(
+  '/auth/sessions/:id',
+  authenticateMerchant,
+  requireSession,
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    sessionService.revokeSession(req.merchantId!, req.params.id, req.userId);
+    res.json({ success: true });
+  }
+);
+
+// POST /api/auth/step-up - Re-authenticate before a sensitive change (e.g. the PGP key)
+// Same limit as login, since it checks the password and second factor
+authRouter.post(
+  '/auth/step-up',
+  authenticateMerchant,
+  requireSession,
+  loginRateLimiter,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = stepUpSchema.parse(req.body);
+      const expiresAt = await authService.stepUp(req.merchantId!, req.sessionId!, input, req.userId);
+
+      res.json({ stepUpExpiresAt: expiresAt });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/auth/totp/enroll - Start TOTP enrollment
+// Returns the otpauth:// URI for the authenticator app QR code
+authRouter.post(
+  '/auth/totp/enroll',
+  authenticateMerchant,
+  requirePermission('account:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(totpService.startTotpEnrollment(req.merchantId!));
+  }
+);
+
+// POST /api/auth/totp/confirm - Enable TOTP once the app produces a valid code
+// Returns the recovery codes; they are never shown again
+authRouter.post(
+  '/auth/totp/confirm',
+  authenticateMerchant,
+  requirePermission('account:manage'),
+  loginRateLimiter,
+  (req: Request, res: Response) => {
+    const { code } = confirmTotpSchema.parse(req.body);
+    res.json({ recoveryCodes: totpService.confirmTotp(req.merchantId!, code) });
+  }
+);
+
+// POST /api/auth/totp/recovery-codes - Replace the recovery codes (requires step-up)
+authRouter.post(
+  '/auth/totp/recovery-codes',
+  authenticateMerchant,
+  requirePermission('account:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    sessionService.assertRecentStepUp(req.sessionId!);
+    if (!totpService.isTotpEnabled(req.merchantId!)) {
+      res.status(409).json({ error: 'Two-factor authentication is not enabled' });
+      return;
+    }
+    res.json({ recoveryCodes: totpService.regenerateRecoveryCodes(req.merchantId!) });
+  }
+);
+
+// DELETE /api/auth/totp - Disable TOTP (requires step-up)
+authRouter.delete(
+  '/auth/totp',
+  authenticateMerchant,
+  requirePermission('account:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
   (req: Request, res: Response) => {
-    // TODO: Implement login logic (issue #7)
-    res.status(501).json({ error: 'Not implemented yet' });
+    sessionService.assertRecentStepUp(req.sessionId!);
+    totpService.disableTotp(req.merchantId!);
+    res.json({ success: true });
   }
 );
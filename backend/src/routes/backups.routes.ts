@@ -1,44 +1,66 @@
 /**
  * Backup routes
- * Demonstrates integration of aggressive rate limiting and size limits for backup operations
- * TODO: Full implementation in issue #7
+ * The paying browser creates backups and reports their status without authentication;
+ * reading them back is restricted to the owning merchant
  */
 
 import { Router, Request, Response } from 'express';
-import { authenticateMerchant } from '../middleware/auth.middleware';
+import { authenticateMerchant, requirePermission } from '../middleware/auth.middleware';
+import { idempotency } from '../middleware/idempotency';
 import { backupRateLimiter, merchantRateLimiter } from '../middleware/rate-limit';
 import { validateBackupSize } from '../middleware/size-limit';
+import {
+  createBackupSchema,
+  listBackupsQuerySchema,
+  reencryptBackupSchema,
+  updateBackupSchema,
+} from '../validators/backup.validators';
+import * as backupService from '../services/backup.service';
 
 export const backupsRouter = Router();
 
 // POST /api/backups - Create backup
 // Public endpoint with aggressive rate limiting (50 per hour) and size validation (max 500 KB)
+// Supports the Idempotency-Key header
 backupsRouter.post(
   '/',
   backupRateLimiter, // 50 backups per hour (more restrictive than general limit)
   validateBackupSize, // Max 500 KB backup size
+  idempotency, // Retries with the same Idempotency-Key return the original backup
   (req: Request, res: Response) => {
-    // TODO: Implement backup creation logic (issue #7)
-    res.status(501).json({ error: 'Not implemented yet' });
+    const input = createBackupSchema.parse(req.body);
+    const backup = backupService.createBackup(input);
+
+    res.status(201).json({
+      backupId: backup.backupId,
+      status: backup.status,
+      createdAt: backup.createdAt,
+    });
   }
 );
 
-// PUT /api/backups/:id - Update backup status
-// Public endpoint with rate limiting
-backupsRouter.put('/:id', backupRateLimiter, (req: Request, res: Response) => {
-  // TODO: Implement backup update logic (issue #7)
-  res.status(501).json({ error: 'Not implemented yet' });
-});
+// PUT /api/backups/:id - Report swap progress and/or upload a new revision of the backup
+// Public endpoint with rate limiting; earlier revisions are kept
+backupsRouter.put(
+  '/:id',
+  backupRateLimiter,
+  validateBackupSize, // Max 500 KB backup size
+  (req: Request, res: Response) => {
+    const input = updateBackupSchema.parse(req.body);
+    res.json(backupService.updateBackup(req.params.id, input));
+  }
+);
 
-// GET /api/backups - List merchant's backups (authenticated)
+// GET /api/backups - List merchant's backups (authenticated), paginated: ?limit&cursor&order&sort&status&createdAfter&createdBefore&paymentLinkId&keyFingerprint
 // Protected: requires authentication and per-merchant rate limiting
 backupsRouter.get(
   '/',
   authenticateMerchant,
+  requirePermission('backups:read'),
   merchantRateLimiter, // 100 operations per hour per merchant
   (req: Request, res: Response) => {
-    // TODO: Implement backups list logic (issue #7)
-    res.status(501).json({ error: 'Not implemented yet' });
+    const query = listBackupsQuerySchema.parse(req.query);
+    res.json(backupService.listBackups(req.merchantId!, query));
   }
 );
 
@@ -47,9 +69,47 @@ backupsRouter.get(
 backupsRouter.get(
   '/:id',
   authenticateMerchant,
+  requirePermission('backups:read'),
   merchantRateLimiter, // 100 operations per hour per merchant
   (req: Request, res: Response) => {
-    // TODO: Implement backup fetch logic (issue #7)
-    res.status(501).json({ error: 'Not implemented yet' });
+    res.json(backupService.getBackup(req.merchantId!, req.params.id));
+  }
+);
+
+// GET /api/backups/:id/versions - List every revision of a backup (authenticated)
+// Protected: requires authentication and per-merchant rate limiting
+backupsRouter.get(
+  '/:id/versions',
+  authenticateMerchant,
+  requirePermission('backups:read'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(backupService.listBackupVersions(req.merchantId!, req.params.id));
+  }
+);
+
+// POST /api/backups/:id/confirm-payment - Count the paid swap against its payment link (authenticated)
+// Protected: requires authentication and per-merchant rate limiting; status reports from the payer never count
+backupsRouter.post(
+  '/:id/confirm-payment',
+  authenticateMerchant,
+  requirePermission('links:write'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(backupService.confirmBackupPayment(req.merchantId!, req.params.id));
+  }
+);
+
+// POST /api/backups/:id/reencrypt - Replace the backup with a copy encrypted to the current PGP key (authenticated)
+// Protected: requires authentication and per-merchant rate limiting; earlier revisions are kept
+backupsRouter.post(
+  '/:id/reencrypt',
+  authenticateMerchant,
+  requirePermission('pgp:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  validateBackupSize, // Max 500 KB backup size
+  (req: Request, res: Response) => {
+    const input = reencryptBackupSchema.parse(req.body);
+    res.json(backupService.reencryptBackup(req.merchantId!, req.params.id, input));
   }
 );
@@ -1,45 +1,201 @@
 /**
  * Payment links routes
- * Demonstrates integration of rate limiting and size limits for link operations
- * TODO: Full implementation in issue #7
+ * Link creation and management are per-merchant rate limited; fetching a link and
+ * reporting swap progress for it are public
  */
 
 import { Router, Request, Response } from 'express';
-import { authenticateMerchant } from '../middleware/auth.middleware';
-import { linkCreationRateLimiter, merchantRateLimiter } from '../middleware/rate-limit';
-import { validateLinkPayloadSize } from '../middleware/size-limit';
+import { authenticateMerchant, authenticateStream, requirePermission } from '../middleware/auth.middleware';
+import { idempotency } from '../middleware/idempotency';
+import {
+  linkCreationRateLimiter,
+  linkEventRateLimiter,
+  linkStreamRateLimiter,
+  merchantRateLimiter,
+  merchantStreamLimiter,
+} from '../middleware/rate-limit';
+import { validateLinkEventSize, validateLinkPayloadSize } from '../middleware/size-limit';
+import {
+  createLinkEventSchema,
+  createLinkSchema,
+  listLinksQuerySchema,
+  updateLinkStatusSchema,
+} from '../validators/link.validators';
+import * as linkService from '../services/link.service';
+import * as linkStreamService from '../services/link-stream.service';
+
+const STREAM_HEARTBEAT_MS = 25 * 1000; // Below common proxy idle timeouts
+const STREAM_RETRY_MS = 10 * 1000; // Matches what linkStreamRateLimiter allows for
 
 export const linksRouter = Router();
 
 // POST /api/links - Create payment link
 // Protected: requires authentication, per-merchant rate limit, and payload size validation
+// Supports the Idempotency-Key header; replays do not count against the rate limit
 linksRouter.post(
   '/',
   authenticateMerchant,
-  linkCreationRateLimiter, // 100 links per hour per merchant
+  requirePermission('links:write'),
   validateLinkPayloadSize, // Max 100 KB payload
+  idempotency, // Retries with the same Idempotency-Key return the original link
+  linkCreationRateLimiter, // 100 links per hour per merchant
+  (req: Request, res: Response) => {
+    const input = createLinkSchema.parse(req.body);
+    const link = linkService.createLink(req.merchantId!, input);
+
+    // The AES key is only known to the merchant, who appends it as `&k=<key>`
+    res.status(201).json({
+      linkId: link.linkId,
+      url: `/#l=${link.linkId}`,
+      createdAt: link.createdAt,
+    });
+  }
+);
+
+// POST /api/links/stream/tickets - Issue a single-use ticket for opening the stream with ?ticket=
+// Protected: requires authentication and the stream rate limit; the ticket expires after 30 seconds
+linksRouter.post(
+  '/stream/tickets',
+  authenticateMerchant,
+  requirePermission('links:read'),
+  linkStreamRateLimiter, // 720 stream requests per hour per merchant
   (req: Request, res: Response) => {
-    // TODO: Implement link creation logic (issue #7)
-    res.status(501).json({ error: 'Not implemented yet' });
+    const ticket = linkStreamService.issueStreamTicket({
+      merchantId: req.merchantId!,
+      sessionId: req.sessionId,
+      userId: req.userId,
+      role: req.role,
+      apiKeyId: req.apiKeyId,
+      apiKeyScopes: req.apiKeyScopes,
+    });
+    res.status(201).json(ticket);
+  }
+);
+
+// GET /api/links/stream - Live status changes of the merchant's links (Server-Sent Events), ?ticket&lastEventId
+// Protected: requires authentication (Authorization header or ?ticket= for EventSource), the stream
+// rate limit and at most 5 open streams per merchant
+// Registered before /:id so "stream" is not taken for a link ID
+linksRouter.get(
+  '/stream',
+  authenticateStream,
+  requirePermission('links:read'),
+  linkStreamRateLimiter, // 720 stream requests per hour per merchant
+  merchantStreamLimiter, // 5 concurrent streams per merchant
+  (req: Request, res: Response) => {
+    const merchantId = req.merchantId!;
+
+    // Resume after the last event the client saw, otherwise start with new events only.
+    // A new EventSource cannot set Last-Event-ID, so it may pass ?lastEventId= instead.
+    const resumeFrom = req.get('Last-Event-ID') ?? req.query.lastEventId;
+    let lastEventId = typeof resumeFrom === 'string' && /^\d{1,15}$/.test(resumeFrom)
+      ? Number(resumeFrom)
+      : linkStreamService.latestLinkStatusEventId(merchantId);
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+    });
+    res.flushHeaders();
+    res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+    const sendNewEvents = () => {
+      let events: linkStreamService.LinkStatusEvent[];
+      do {
+        events = linkStreamService.listLinkStatusEventsSince(merchantId, lastEventId);
+        for (const event of events) {
+          res.write(`id: ${event.eventId}\nevent: link-status\ndata: ${JSON.stringify(event)}\n\n`);
+          lastEventId = event.eventId;
+        }
+      } while (events.length > 0 && !res.writableEnded);
+    };
+
+    const unsubscribe = linkStreamService.subscribeToLinkStatus(merchantId, sendNewEvents);
+    const heartbeat = setInterval(() => {
+      // Logging out, revoking the session or API key, or a role change that takes away links:read ends the stream too
+      const authorized = linkStreamService.canReadLinkStream({
+        merchantId,
+        sessionId: req.sessionId,
+        apiKeyId: req.apiKeyId,
+      });
+      if (!authorized) {
+        res.end();
+        return;
+      }
+      res.write(': heartbeat\n\n');
+    }, STREAM_HEARTBEAT_MS);
+
+    res.once('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    sendNewEvents();
   }
 );
 
 // GET /api/links/:id - Fetch payment link (public)
-// Public endpoint with global rate limiting only
+// Public endpoint with global rate limiting only; answers 410 once the link is expired, paid, cancelled or archived
 linksRouter.get('/:id', (req: Request, res: Response) => {
-  // TODO: Implement link fetch logic (issue #7)
-  res.status(501).json({ error: 'Not implemented yet' });
+  const link = linkService.getLink(req.params.id);
+
+  if (!link) {
+    res.status(404).json({ error: 'Payment link not found' });
+    return;
+  }
+
+  res.json(link);
 });
 
-// GET /api/links - List merchant's links (authenticated)
+// POST /api/links/:id/events - Report swap progress for a link
+// Public endpoint (the paying browser reports it) with rate limiting and size validation (max 1 KB)
+linksRouter.post(
+  '/:id/events',
+  linkEventRateLimiter, // 200 events per hour per IP
+  validateLinkEventSize, // Max 1 KB event
+  (req: Request, res: Response) => {
+    const input = createLinkEventSchema.parse(req.body);
+    res.status(201).json(linkService.recordLinkEvent(req.params.id, input));
+  }
+);
+
+// GET /api/links/:id/events - List swap progress for a link (authenticated)
+// Protected: requires authentication and per-merchant rate limiting
+linksRouter.get(
+  '/:id/events',
+  authenticateMerchant,
+  requirePermission('links:read'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(linkService.listLinkEvents(req.merchantId!, req.params.id));
+  }
+);
+
+// GET /api/links - List merchant's links (authenticated), paginated: ?limit&cursor&order&sort&status&createdAfter&createdBefore&hasBackup
 // Protected: requires authentication and per-merchant rate limiting
 linksRouter.get(
   '/',
   authenticateMerchant,
+  requirePermission('links:read'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    const query = listLinksQuerySchema.parse(req.query);
+    res.json(linkService.listLinks(req.merchantId!, query));
+  }
+);
+
+// PATCH /api/links/:id - Change payment link status (cancel, mark paid, archive)
+// Protected: requires authentication and per-merchant rate limiting
+linksRouter.patch(
+  '/:id',
+  authenticateMerchant,
+  requirePermission('links:write'),
   merchantRateLimiter, // 100 operations per hour per merchant
   (req: Request, res: Response) => {
-    // TODO: Implement links list logic (issue #7)
-    res.status(501).json({ error: 'Not implemented yet' });
+    const { status } = updateLinkStatusSchema.parse(req.body);
+    res.json(linkService.updateLinkStatus(req.merchantId!, req.params.id, status));
   }
 );
 
@@ -48,9 +204,10 @@ linksRouter.get(
 linksRouter.delete(
   '/:id',
   authenticateMerchant,
+  requirePermission('links:write'),
   merchantRateLimiter, // 100 operations per hour per merchant
   (req: Request, res: Response) => {
-    // TODO: Implement link deletion logic (issue #7)
-    res.status(501).json({ error: 'Not implemented yet' });
+    linkService.deleteLink(req.merchantId!, req.params.id);
+    res.json({ success: true });
   }
 );
@@ -1,13 +1,21 @@
-import { Router, Request, Response } from 'express';
-import { authenticateMerchant } from '../middleware/auth.middleware';
-import { updateProfileSchema } from '../validators/merchant.validators';
+import { Router, Request, Response, NextFunction } from 'express';
+import { pipeline } from 'stream';
+import { authenticateMerchant, requirePermission, requireSession } from '../middleware/auth.middleware';
+import { loginRateLimiter, merchantRateLimiter } from '../middleware/rate-limit';
+import { pgpFingerprintSchema, updateProfileSchema } from '../validators/merchant.validators';
+import { stepUpSchema } from '../validators/auth.validators';
 import * as merchantService from '../services/merchant.service';
+import * as exportService from '../services/export.service';
+import * as pgpKeyService from '../services/pgp-key.service';
+import { confirmCredentials } from '../services/auth.service';
+import { assertPermission } from '../services/permissions';
+import { assertRecentStepUp } from '../services/session.service';
 import { ZodError } from 'zod';
 
 export const merchantsRouter = Router();
 
 // GET /api/merchants/profile - Get authenticated merchant's profile
-merchantsRouter.get('/profile', authenticateMerchant, (req: Request, res: Response) => {
+merchantsRouter.get('/profile', authenticateMerchant, requireSession, (req: Request, res: Response) => {
   const merchantId = req.merchantId!;
 
   const profile = merchantService.getProfile(merchantId);
@@ -21,32 +29,128 @@ merchantsRouter.get('/profile', authenticateMerchant, (req: Request, res: Respon
 });
 
 // PUT /api/merchants/profile - Update authenticated merchant's profile
-merchantsRouter.put('/profile', authenticateMerchant, (req: Request, res: Response) => {
-  const merchantId = req.merchantId!;
+// A new pgpPublicKey becomes the current key; the previous one stays in the key history
+merchantsRouter.put(
+  '/profile',
+  authenticateMerchant,
+  requirePermission('profile:write'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    const merchantId = req.merchantId!;
 
-  try {
-    const updates = updateProfileSchema.parse(req.body);
-    const updatedProfile = merchantService.updateProfile(merchantId, updates);
+    try {
+      const { pgpPublicKey, ...updates } = updateProfileSchema.parse(req.body);
 
-    if (!updatedProfile) {
-      res.status(404).json({ error: 'Profile not found' });
-      return;
-    }
+      // Swap backups are encrypted to this key, so replacing it needs a fresh re-authentication
+      if (pgpPublicKey !== undefined) {
+        assertPermission(req.role!, 'pgp:manage');
+        assertRecentStepUp(req.sessionId!);
+        await pgpKeyService.rotatePgpKey(merchantId, pgpPublicKey);
+      }
 
-    res.json(updatedProfile);
-  } catch (error) {
-    if (error instanceof ZodError) {
-      res.status(400).json({
-        error: 'Validation error',
-        details: error.errors
-      });
-      return;
+      const updatedProfile = merchantService.updateProfile(merchantId, updates);
+
+      if (!updatedProfile) {
+        res.status(404).json({ error: 'Profile not found' });
+        return;
+      }
+
+      res.json(updatedProfile);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({
+          error: 'Validation error',
+          details: error.errors
+        });
+        return;
+      }
+      next(error);
     }
-    throw error;
   }
+);
+
+// GET /api/merchants/pgp-keys - Every PGP key the merchant has used, current key first
+merchantsRouter.get(
+  '/pgp-keys',
+  authenticateMerchant,
+  requirePermission('pgp:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(pgpKeyService.listPgpKeys(req.merchantId!));
+  }
+);
+
+// POST /api/merchants/pgp-keys/:fingerprint/retire - Stop accepting backups for a replaced key (requires step-up)
+// Refused while pending backups are still encrypted to it (see POST /api/backups/:id/reencrypt)
+merchantsRouter.post(
+  '/pgp-keys/:fingerprint/retire',
+  authenticateMerchant,
+  requirePermission('pgp:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    assertRecentStepUp(req.sessionId!);
+    const fingerprint = pgpFingerprintSchema.parse(req.params.fingerprint);
+    res.json(pgpKeyService.retirePgpKey(req.merchantId!, fingerprint));
+  }
+);
+
+// GET /api/merchants/export - Download everything stored for the merchant as a signed archive
+// Newline-delimited JSON; a failure mid-stream cuts the archive off before its signature line
+merchantsRouter.get(
+  '/export',
+  authenticateMerchant,
+  requirePermission('account:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    const archive = exportService.createExportArchive(req.merchantId!);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="bullpos-export-${req.merchantId}-${date}.ndjson"`);
+    pipeline(archive, res, error => {
+      if (error) {
+        console.error('Merchant export failed:', error);
+      }
+    });
+  }
+);
+
+// GET /api/merchants/export/public-key - Key that verifies export signatures (public endpoint)
+merchantsRouter.get('/export/public-key', (req: Request, res: Response) => {
+  res.json({ algorithm: 'Ed25519', publicKey: exportService.getExportPublicKey() });
 });
 
-// GET /api/merchants/:id/pgp - Get merchant's PGP public key (public endpoint)
+// DELETE /api/merchants/me - Schedule the account for deletion after the grace period
+// Requires the password (and second factor if enabled), checked like a step-up
+merchantsRouter.delete(
+  '/me',
+  authenticateMerchant,
+  requirePermission('account:manage'),
+  loginRateLimiter,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = stepUpSchema.parse(req.body);
+      await confirmCredentials(req.merchantId!, input);
+
+      res.status(202).json({ deletionScheduledAt: merchantService.scheduleAccountDeletion(req.merchantId!) });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/merchants/me/cancel-deletion - Keep the account during the grace period
+merchantsRouter.post(
+  '/me/cancel-deletion',
+  authenticateMerchant,
+  requirePermission('account:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(merchantService.cancelAccountDeletion(req.merchantId!));
+  }
+);
+
+// GET /api/merchants/:id/pgp - Get merchant's PGP public key and its fingerprint (public endpoint)
+// ?fingerprint= asks for the key a payment link was made for, as long as the merchant still accepts it
 merchantsRouter.get('/:id/pgp', (req: Request, res: Response) => {
   const { id } = req.params;
 
@@ -57,5 +161,16 @@ merchantsRouter.get('/:id/pgp', (req: Request, res: Response) => {
     return;
   }
 
-  res.json({ pgpPublicKey: pgpKey });
+  if (req.query.fingerprint !== undefined) {
+    const fingerprint = pgpFingerprintSchema.parse(req.query.fingerprint);
+    const pinnedKey = pgpKeyService.getAcceptedPgpKey(id, fingerprint);
+    if (!pinnedKey) {
+      res.status(404).json({ error: 'PGP key not found', code: 'pgp_key_not_found' });
+      return;
+    }
+    res.json({ pgpPublicKey: pinnedKey, fingerprint });
+    return;
+  }
+
+  res.json({ pgpPublicKey: pgpKey, fingerprint: pgpKeyService.getCurrentPgpKeyFingerprint(id) });
 });
@@ -0,0 +1,104 @@
+/**
+ * Staff routes
+ * The owner invites staff, changes their roles and removes them; inviting and
+ * changing roles hand out access, so they need a recent step-up. Invitees
+ * accept their invitation without authentication, behind the registration limiter
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticateMerchant, requirePermission } from '../middleware/auth.middleware';
+import { merchantRateLimiter, registrationRateLimiter } from '../middleware/rate-limit';
+import { acceptInvitationSchema, inviteStaffSchema, updateStaffSchema } from '../validators/staff.validators';
+import * as staffService from '../services/staff.service';
+import { assertRecentStepUp } from '../services/session.service';
+
+export const staffRouter = Router();
+
+// POST /api/staff/invitations/accept - Create the invited staff account and log in (public endpoint)
+// Uses strict rate limiting (5 per hour per IP), like registration
+staffRouter.post(
+  '/invitations/accept',
+  registrationRateLimiter,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const input = acceptInvitationSchema.parse(req.body);
+      const result = await staffService.acceptInvitation(input, { userAgent: req.get('user-agent'), ip: req.ip });
+
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/staff/invitations - Invite someone with a role (the token is only returned here; step-up required)
+staffRouter.post(
+  '/invitations',
+  authenticateMerchant,
+  requirePermission('staff:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    const input = inviteStaffSchema.parse(req.body);
+    assertRecentStepUp(req.sessionId!);
+    res.status(201).json(staffService.inviteStaff(req.merchantId!, input));
+  }
+);
+
+// GET /api/staff/invitations - List pending invitations
+staffRouter.get(
+  '/invitations',
+  authenticateMerchant,
+  requirePermission('staff:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(staffService.listInvitations(req.merchantId!));
+  }
+);
+
+// DELETE /api/staff/invitations/:id - Withdraw a pending invitation
+staffRouter.delete(
+  '/invitations/:id',
+  authenticateMerchant,
+  requirePermission('staff:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    staffService.revokeInvitation(req.merchantId!, req.params.id);
+    res.json({ success: true });
+  }
+);
+
+// GET /api/staff - List staff members
+staffRouter.get(
+  '/',
+  authenticateMerchant,
+  requirePermission('staff:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(staffService.listStaff(req.merchantId!));
+  }
+);
+
+// PATCH /api/staff/:id - Change a staff member's role (step-up required)
+staffRouter.patch(
+  '/:id',
+  authenticateMerchant,
+  requirePermission('staff:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    const { role } = updateStaffSchema.parse(req.body);
+    assertRecentStepUp(req.sessionId!);
+    res.json(staffService.updateStaffRole(req.merchantId!, req.params.id, role));
+  }
+);
+
+// DELETE /api/staff/:id - Remove a staff member and end their sessions
+staffRouter.delete(
+  '/:id',
+  authenticateMerchant,
+  requirePermission('staff:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    staffService.removeStaffMember(req.merchantId!, req.params.id);
+    res.json({ success: true });
+  }
+);
@@ -0,0 +1,70 @@
+/**
+ * Store routes
+ * Staff who make links can list the stores to make them for; changing stores
+ * is part of the profile
+ */
+
+import { Router, Request, Response } from 'express';
+import { authenticateMerchant, requirePermission } from '../middleware/auth.middleware';
+import { merchantRateLimiter } from '../middleware/rate-limit';
+import { createStoreSchema, updateStoreSchema } from '../validators/store.validators';
+import * as storeService from '../services/store.service';
+
+export const storesRouter = Router();
+
+// POST /api/stores - Open a store
+storesRouter.post(
+  '/',
+  authenticateMerchant,
+  requirePermission('profile:write'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    const input = createStoreSchema.parse(req.body);
+    res.status(201).json(storeService.createStore(req.merchantId!, input));
+  }
+);
+
+// GET /api/stores - List the merchant's stores, archived ones included
+storesRouter.get(
+  '/',
+  authenticateMerchant,
+  requirePermission('links:read'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(storeService.listStores(req.merchantId!));
+  }
+);
+
+// GET /api/stores/:id - Get a store
+storesRouter.get(
+  '/:id',
+  authenticateMerchant,
+  requirePermission('links:read'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(storeService.getStore(req.merchantId!, req.params.id));
+  }
+);
+
+// PATCH /api/stores/:id - Change a store's details
+storesRouter.patch(
+  '/:id',
+  authenticateMerchant,
+  requirePermission('profile:write'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    const input = updateStoreSchema.parse(req.body);
+    res.json(storeService.updateStore(req.merchantId!, req.params.id, input));
+  }
+);
+
+// DELETE /api/stores/:id - Archive a store; its links and backups keep their attribution
+storesRouter.delete(
+  '/:id',
+  authenticateMerchant,
+  requirePermission('profile:write'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(storeService.archiveStore(req.merchantId!, req.params.id));
+  }
+);
@@ -0,0 +1,71 @@
+/**
+ * Webhook routes
+ * Merchants register endpoints that are notified of link lifecycle and swap events,
+ * inspect delivery attempts, and trigger redelivery; all per-merchant rate limited
+ */
+
+import { Router, Request, Response } from 'express';
+import { authenticateMerchant, requirePermission } from '../middleware/auth.middleware';
+import { merchantRateLimiter } from '../middleware/rate-limit';
+import { createWebhookSchema } from '../validators/webhook.validators';
+import * as webhookService from '../services/webhook.service';
+
+export const webhooksRouter = Router();
+
+// POST /api/webhooks - Register webhook endpoint (the signing secret is only returned here)
+// Protected: requires authentication and per-merchant rate limiting
+webhooksRouter.post(
+  '/',
+  authenticateMerchant,
+  requirePermission('webhooks:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    const input = createWebhookSchema.parse(req.body);
+    res.status(201).json(webhookService.createWebhookEndpoint(req.merchantId!, input));
+  }
+);
+
+// GET /api/webhooks - List webhook endpoints
+webhooksRouter.get(
+  '/',
+  authenticateMerchant,
+  requirePermission('webhooks:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(webhookService.listWebhookEndpoints(req.merchantId!));
+  }
+);
+
+// DELETE /api/webhooks/:id - Remove webhook endpoint and its delivery history
+webhooksRouter.delete(
+  '/:id',
+  authenticateMerchant,
+  requirePermission('webhooks:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    webhookService.deleteWebhookEndpoint(req.merchantId!, req.params.id);
+    res.json({ success: true });
+  }
+);
+
+// GET /api/webhooks/:id/deliveries - List deliveries with every attempt
+webhooksRouter.get(
+  '/:id/deliveries',
+  authenticateMerchant,
+  requirePermission('webhooks:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.json(webhookService.listWebhookDeliveries(req.merchantId!, req.params.id));
+  }
+);
+
+// POST /api/webhooks/deliveries/:id/redeliver - Send a delivery again
+webhooksRouter.post(
+  '/deliveries/:id/redeliver',
+  authenticateMerchant,
+  requirePermission('webhooks:manage'),
+  merchantRateLimiter, // 100 operations per hour per merchant
+  (req: Request, res: Response) => {
+    res.status(202).json(webhookService.redeliverWebhook(req.merchantId!, req.params.id));
+  }
+);
@@ -0,0 +1,177 @@
+/**
+ * API Key Tests
+ * Tests issuing keys, authenticating with them, scopes, last-used tracking and revocation
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import { createTestMerchant } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import app from '../../index';
+import { NotFoundError, ServiceError } from '../errors';
+import { createApiKey, isApiKeyActive, listApiKeys, revokeApiKey, verifyApiKey } from '../api-key.service';
+import { recordStepUp, startSession } from '../session.service';
+import { verifyToken } from '../token.service';
+
+describe('API Keys', () => {
+  let merchantId: string;
+  let ownerToken: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    const merchant = await createTestMerchant(appDb);
+    merchantId = merchant.id;
+    ownerToken = startSession(merchantId, merchant.email).token;
+  });
+
+  describe('Issuing keys', () => {
+    it('should return the key once and store only a hash of its secret', () => {
+      const created = createApiKey(merchantId, { name: 'Shop', scopes: ['links:write'] }, 1_000);
+
+      expect(created.key).toMatch(new RegExp(`^bpk_${created.prefix}_[A-Za-z0-9_-]{43}$`));
+      expect(listApiKeys(merchantId)).toContainEqual({
+        keyId: created.keyId,
+        name: 'Shop',
+        prefix: created.prefix,
+        scopes: ['links:write'],
+        createdAt: 1_000,
+        lastUsedAt: null,
+        revokedAt: null,
+      });
+
+      const stored = appDb.prepare('SELECT * FROM api_keys WHERE id = ?').get(created.keyId) as Record<string, unknown>;
+      const secret = created.key.slice(`bpk_${created.prefix}_`.length);
+      expect(Object.values(stored)).not.toContain(secret);
+      expect(Object.values(stored)).not.toContain(created.key);
+    });
+
+    it('should limit the number of active keys', async () => {
+      const { id } = await createTestMerchant(appDb);
+      for (let i = 0; i < 20; i++) {
+        createApiKey(id, { name: `Key ${i}`, scopes: ['links:read'] });
+      }
+
+      expect(() => createApiKey(id, { name: 'One too many', scopes: ['links:read'] })).toThrow(ServiceError);
+
+      revokeApiKey(id, listApiKeys(id)[0].keyId);
+      expect(createApiKey(id, { name: 'Replacement', scopes: ['links:read'] }).revokedAt).toBeNull();
+    });
+  });
+
+  describe('Verifying keys', () => {
+    it('should accept a key and record when it was last used', () => {
+      const { key, keyId } = createApiKey(merchantId, { name: 'Verify', scopes: ['links:read', 'backups:read'] });
+
+      expect(verifyApiKey(key, 5_000)).toEqual({ keyId, merchantId, scopes: ['links:read', 'backups:read'] });
+      expect(listApiKeys(merchantId).find(listed => listed.keyId === keyId)?.lastUsedAt).toBe(5_000);
+    });
+
+    it('should refuse a wrong secret, a malformed key and a revoked key', () => {
+      const { key, keyId, prefix } = createApiKey(merchantId, { name: 'Refused', scopes: ['links:read'] });
+
+      expect(verifyApiKey(`bpk_${prefix}_${'A'.repeat(43)}`)).toBeNull();
+      expect(verifyApiKey('bpk_not-a-key')).toBeNull();
+
+      revokeApiKey(merchantId, keyId);
+      expect(verifyApiKey(key)).toBeNull();
+      expect(isApiKeyActive(keyId)).toBe(false);
+    });
+
+    it('should keep the first revocation date', () => {
+      const { keyId } = createApiKey(merchantId, { name: 'Twice', scopes: ['links:read'] });
+
+      revokeApiKey(merchantId, keyId, 1_000);
+
+      expect(revokeApiKey(merchantId, keyId, 2_000).revokedAt).toBe(1_000);
+    });
+
+    it('should not let merchants revoke each other\'s keys', async () => {
+      const other = await createTestMerchant(appDb);
+      const { keyId } = createApiKey(other.id, { name: 'Theirs', scopes: ['links:read'] });
+
+      expect(() => revokeApiKey(merchantId, keyId)).toThrow(NotFoundError);
+    });
+  });
+
+  describe('Authenticating requests', () => {
+    it('should create links with a links:write key', async () => {
+      const { key } = createApiKey(merchantId, { name: 'E-commerce', scopes: ['links:write', 'links:read'] });
+
+      const created = await request(app).post('/api/links').set('Authorization', `Bearer ${key}`).send({ ciphertext: 'from-server' });
+      const listed = await request(app).get('/api/links').set('Authorization', `Bearer ${key}`);
+
+      expect(created.status).toBe(201);
+      expect(listed.body.data.map((link: { linkId: string }) => link.linkId)).toContain(created.body.linkId);
+    });
+
+    it('should refuse what the key\'s scopes do not cover', async () => {
+      const { key } = createApiKey(merchantId, { name: 'Read only', scopes: ['links:read'] });
+      const auth = `Bearer ${key}`;
+
+      const link = await request(app).post('/api/links').set('Authorization', auth).send({ ciphertext: 'x' });
+      const staff = await request(app).get('/api/staff').set('Authorization', auth);
+      const keys = await request(app).get('/api/api-keys').set('Authorization', auth);
+
+      expect(link.status).toBe(403);
+      expect(link.body).toEqual({ error: 'This API key does not allow this (links:write)', code: 'permission_denied' });
+      expect(staff.status).toBe(403);
+      expect(keys.status).toBe(403);
+    });
+
+    it('should refuse keys on routes that need a login session', async () => {
+      const { key } = createApiKey(merchantId, { name: 'No session', scopes: ['links:read'] });
+      const auth = `Bearer ${key}`;
+
+      const logout = await request(app).post('/api/auth/logout').set('Authorization', auth);
+      const profile = await request(app).get('/api/merchants/profile').set('Authorization', auth);
+
+      expect(logout.status).toBe(403);
+      expect(logout.body.code).toBe('session_required');
+      expect(profile.status).toBe(403);
+    });
+
+    it('should refuse a revoked key', async () => {
+      const { key, keyId } = createApiKey(merchantId, { name: 'Revoked', scopes: ['links:read'] });
+      revokeApiKey(merchantId, keyId);
+
+      const response = await request(app).get('/api/links').set('Authorization', `Bearer ${key}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Routes', () => {
+    it('should issue keys after a step-up, list them and revoke them', async () => {
+      const auth = `Bearer ${ownerToken}`;
+
+      const refused = await request(app).post('/api/api-keys').set('Authorization', auth)
+        .send({ name: 'Integration', scopes: ['links:write'] });
+      expect(refused.status).toBe(403);
+      expect(refused.body.code).toBe('step_up_required');
+
+      recordStepUp(verifyToken(ownerToken)!.sid);
+      const created = await request(app).post('/api/api-keys').set('Authorization', auth)
+        .send({ name: 'Integration', scopes: ['links:write', 'links:write'] });
+      expect(created.status).toBe(201);
+      expect(created.body.scopes).toEqual(['links:write']);
+
+      const listed = await request(app).get('/api/api-keys').set('Authorization', auth);
+      const entry = listed.body.find((key: { keyId: string }) => key.keyId === created.body.keyId);
+      expect(entry).not.toHaveProperty('key');
+      expect(entry).not.toHaveProperty('secretHash');
+
+      const revoked = await request(app).delete(`/api/api-keys/${created.body.keyId}`).set('Authorization', auth);
+      expect(revoked.status).toBe(200);
+      expect(revoked.body.revokedAt).toEqual(expect.any(Number));
+    });
+
+    it('should not issue keys with account-wide scopes', async () => {
+      recordStepUp(verifyToken(ownerToken)!.sid);
+
+      const response = await request(app).post('/api/api-keys').set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'Too much', scopes: ['account:manage'] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -3,9 +3,14 @@
  * Tests for PGP-encrypted swap backup CRUD operations and status updates
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
 import Database from 'better-sqlite3';
 import { createTestDb, cleanupTestDb, createTestMerchant, createTestLink, createTestBackup } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import { confirmBackupPayment, createBackup, getBackup, listBackups, listBackupVersions, updateBackup } from '../backup.service';
+import { ForbiddenError, GoneError, NotFoundError, ServiceError } from '../errors';
+import { createLink, updateLinkStatus } from '../link.service';
+import { createBackupSchema, listBackupsQuerySchema, updateBackupSchema } from '../../validators/backup.validators';
 
 describe('Backup Service', () => {
   let db: Database.Database;
@@ -223,18 +228,18 @@ describe('Backup Service', () => {
       const { id: merchantId } = await createTestMerchant(db);
       const backupId = createTestBackup(db, merchantId);
 
-      db.prepare('UPDATE backups SET status = ? WHERE id = ?').run('completed', backupId);
+      db.prepare('UPDATE backups SET status = ? WHERE id = ?').run('claimed', backupId);
 
       const backup = db.prepare('SELECT status FROM backups WHERE id = ?').get(backupId);
 
-      expect((backup as any).status).toBe('completed');
+      expect((backup as any).status).toBe('claimed');
     });
 
     it('should support various status values', async () => {
       const { id: merchantId } = await createTestMerchant(db);
       const backupId = createTestBackup(db, merchantId);
 
-      const statuses = ['pending', 'processing', 'completed', 'failed'];
+      const statuses = ['pending', 'invoice_paid', 'claimed', 'refunded', 'failed', 'recovered'];
 
       for (const status of statuses) {
         db.prepare('UPDATE backups SET status = ? WHERE id = ?').run(status, backupId);
@@ -257,7 +262,7 @@ describe('Backup Service', () => {
         UPDATE backups
         SET status = ?, updated_at = CURRENT_TIMESTAMP
         WHERE id = ?
-      `).run('completed', backupId);
+      `).run('claimed', backupId);
 
       const updated = db.prepare('SELECT updated_at FROM backups WHERE id = ?').get(backupId);
       const updatedTimestamp = (updated as any).updated_at;
@@ -322,7 +327,7 @@ describe('Backup Service', () => {
 
       const backupId = createTestBackup(db, merchant1);
 
-      const result = db.prepare('UPDATE backups SET status = ? WHERE id = ? AND merchant_id = ?').run('completed', backupId, merchant2);
+      const result = db.prepare('UPDATE backups SET status = ? WHERE id = ? AND merchant_id = ?').run('claimed', backupId, merchant2);
 
       expect(result.changes).toBe(0); // No rows updated
     });
@@ -421,3 +426,206 @@ describe('Backup Service', () => {
     });
   });
 });
+
+describe('Backup Service Functions', () => {
+  let merchantId: string;
+  let otherMerchantId: string;
+  let linkId: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    ({ id: merchantId } = await createTestMerchant(appDb));
+    ({ id: otherMerchantId } = await createTestMerchant(appDb));
+    linkId = createTestLink(appDb, merchantId);
+  });
+
+  it('should take the owner from the payment link', () => {
+    const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', paymentLinkId: linkId }));
+
+    expect(backup).toMatchObject({ paymentLinkId: linkId, status: 'pending', encryptedBackup: 'pgp' });
+    expect(getBackup(merchantId, backup.backupId)).toEqual(backup);
+  });
+
+  it('should accept a merchant ID for backups without a payment link', () => {
+    const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId }));
+
+    expect(backup).toMatchObject({ paymentLinkId: null, status: 'pending' });
+    expect(listBackups(merchantId).data.map(summary => summary.backupId)).toContain(backup.backupId);
+  });
+
+  it('should reject unknown links, unknown merchants and mismatched owners', () => {
+    expect(() => createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', paymentLinkId: 'missing' })))
+      .toThrow(NotFoundError);
+    expect(() => createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId: 'missing' })))
+      .toThrow(NotFoundError);
+    expect(() => createBackup(createBackupSchema.parse({
+      encryptedBackup: 'pgp',
+      paymentLinkId: linkId,
+      merchantId: otherMerchantId,
+    }))).toThrow(NotFoundError);
+  });
+
+  it('should require a merchant ID or payment link ID', () => {
+    expect(createBackupSchema.safeParse({ encryptedBackup: 'pgp' }).success).toBe(false);
+    expect(createBackupSchema.safeParse({ encryptedBackup: 'pgp', merchantId, status: 'processing' }).success).toBe(false);
+  });
+
+  it('should only create pending backups', () => {
+    expect(createBackupSchema.safeParse({ encryptedBackup: 'pgp', merchantId, status: 'pending' }).success).toBe(true);
+    expect(createBackupSchema.safeParse({ encryptedBackup: 'pgp', merchantId, status: 'claimed' }).success).toBe(false);
+    expect(createBackupSchema.safeParse({ encryptedBackup: 'pgp', merchantId, status: 'invoice_paid' }).success).toBe(false);
+  });
+
+  it('should update the status and timestamp', async () => {
+    const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId }));
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const updated = updateBackup(backup.backupId, { status: 'failed' });
+
+    expect(updated.status).toBe('failed');
+    expect(updated.updatedAt).toBeGreaterThan(backup.updatedAt);
+    expect(() => updateBackup('missing', { status: 'failed' })).toThrow(NotFoundError);
+  });
+
+  it('should not list or return backups to other merchants', () => {
+    const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId }));
+
+    expect(listBackups(otherMerchantId).data.map(summary => summary.backupId)).not.toContain(backup.backupId);
+    expect(() => getBackup(otherMerchantId, backup.backupId)).toThrow(ForbiddenError);
+    expect(() => getBackup(merchantId, 'missing')).toThrow(NotFoundError);
+  });
+
+  it('should leave the payload out of listings', () => {
+    createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId }));
+
+    for (const summary of listBackups(merchantId).data) {
+      expect(summary).not.toHaveProperty('encryptedBackup');
+    }
+  });
+
+  it('should refuse backups for links that can no longer be paid', () => {
+    const { linkId: cancelledLinkId } = createLink(merchantId, { ciphertext: 'cancelled' });
+    updateLinkStatus(merchantId, cancelledLinkId, 'cancelled');
+
+    expect(() => createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', paymentLinkId: cancelledLinkId })))
+      .toThrow(GoneError);
+  });
+
+  it('should only count a paid swap against the link once the merchant confirms it', () => {
+    const { linkId: singleUseLinkId } = createLink(merchantId, { ciphertext: 'single-use', maxUses: 1 });
+    const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', paymentLinkId: singleUseLinkId }));
+    const linkState = () => appDb.prepare('SELECT status, use_count FROM encrypted_links WHERE id = ?').get(singleUseLinkId);
+
+    expect(() => confirmBackupPayment(merchantId, backup.backupId)).toThrow(ServiceError);
+
+    updateBackup(backup.backupId, { status: 'invoice_paid' });
+    updateBackup(backup.backupId, { status: 'claimed' });
+    expect(linkState()).toEqual({ status: 'active', use_count: 0 });
+
+    expect(() => confirmBackupPayment(otherMerchantId, backup.backupId)).toThrow(ForbiddenError);
+    confirmBackupPayment(merchantId, backup.backupId);
+    confirmBackupPayment(merchantId, backup.backupId);
+    expect(linkState()).toEqual({ status: 'paid', use_count: 1 });
+  });
+
+  it('should only allow valid status transitions', () => {
+    const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId }));
+
+    expect(() => updateBackup(backup.backupId, { status: 'claimed' })).toThrow(ServiceError);
+    updateBackup(backup.backupId, { status: 'invoice_paid' });
+    updateBackup(backup.backupId, { status: 'failed' });
+    expect(updateBackup(backup.backupId, { status: 'recovered' }).status).toBe('recovered');
+
+    // Recovered by the merchant before the payer's browser reported the payment
+    const unreported = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId }));
+    expect(updateBackup(unreported.backupId, { status: 'recovered' }).status).toBe('recovered');
+
+    try {
+      updateBackup(backup.backupId, { status: 'pending' });
+      throw new Error('Expected the transition to be refused');
+    } catch (error) {
+      expect(error).toMatchObject({ status: 409, code: 'invalid_transition' });
+    }
+  });
+
+  it('should keep every revision of the ciphertext', () => {
+    const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp-1', merchantId }));
+
+    const revised = updateBackup(backup.backupId, { encryptedBackup: 'pgp-2', status: 'invoice_paid' });
+    updateBackup(backup.backupId, { encryptedBackup: 'pgp-2' }); // Same ciphertext again is not a new revision
+
+    expect(revised).toMatchObject({ version: 2, status: 'invoice_paid' });
+    expect(getBackup(merchantId, backup.backupId)).toMatchObject({ version: 2, encryptedBackup: 'pgp-2' });
+    expect(listBackupVersions(merchantId, backup.backupId).map(version => [version.version, version.encryptedBackup]))
+      .toEqual([[1, 'pgp-1'], [2, 'pgp-2']]);
+    expect(() => listBackupVersions(otherMerchantId, backup.backupId)).toThrow(ForbiddenError);
+  });
+
+  it('should refuse new revisions once the swap has finished', () => {
+    const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId }));
+    updateBackup(backup.backupId, { status: 'invoice_paid' });
+    updateBackup(backup.backupId, { status: 'claimed' });
+
+    expect(() => updateBackup(backup.backupId, { encryptedBackup: 'replaced' })).toThrow(ServiceError);
+    expect(listBackupVersions(merchantId, backup.backupId)).toHaveLength(1);
+  });
+
+  it('should require a status or a new ciphertext', () => {
+    expect(updateBackupSchema.safeParse({}).success).toBe(false);
+    expect(updateBackupSchema.safeParse({ status: 'completed' }).success).toBe(false);
+    expect(updateBackupSchema.safeParse({ encryptedBackup: 'pgp' }).success).toBe(true);
+  });
+});
+
+describe('Backup Listing', () => {
+  let merchantId: string;
+  let linkId: string;
+  let backupIds: string[];
+
+  beforeAll(async () => {
+    initializeDatabase();
+    ({ id: merchantId } = await createTestMerchant(appDb));
+    linkId = createTestLink(appDb, merchantId);
+
+    backupIds = [];
+    for (let i = 0; i < 4; i++) {
+      const { backupId } = createBackup(createBackupSchema.parse({
+        encryptedBackup: 'pgp',
+        ...(i < 2 ? { paymentLinkId: linkId } : { merchantId }),
+      }));
+      // Created in order, last touched in reverse order
+      appDb.prepare('UPDATE backups SET created_at = ?, updated_at = ? WHERE id = ?')
+        .run(1_000 + i * 1_000, 10_000 - i * 1_000, backupId);
+      backupIds.push(backupId);
+    }
+    updateBackup(backupIds[3], { status: 'failed' });
+    appDb.prepare('UPDATE backups SET updated_at = ? WHERE id = ?').run(7_000, backupIds[3]);
+  });
+
+  function list(query: Record<string, string> = {}) {
+    return listBackups(merchantId, listBackupsQuerySchema.parse(query));
+  }
+
+  it('should page through backups by creation or update time', () => {
+    const first = list({ limit: '3' });
+    const second = list({ limit: '3', cursor: first.nextCursor! });
+    expect([...first.data, ...second.data].map(backup => backup.backupId)).toEqual([...backupIds].reverse());
+    expect(second.nextCursor).toBeNull();
+
+    expect(list({ sort: 'updatedAt', order: 'asc' }).data.map(backup => backup.backupId))
+      .toEqual([...backupIds].reverse());
+  });
+
+  it('should filter by payment link, status and creation time', () => {
+    expect(list({ paymentLinkId: linkId, order: 'asc' }).data.map(backup => backup.backupId))
+      .toEqual(backupIds.slice(0, 2));
+    expect(list({ status: 'failed' }).data.map(backup => backup.backupId)).toEqual([backupIds[3]]);
+    expect(list({ createdBefore: '2000' }).data.map(backup => backup.backupId)).toEqual([backupIds[0]]);
+  });
+
+  it('should not accept a cursor issued for another sort', () => {
+    const { nextCursor } = list({ limit: '1' });
+
+    expect(() => list({ sort: 'updatedAt', cursor: nextCursor! })).toThrow(ServiceError);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Merchant Export Tests
+ * Tests the signed export archive and GET /api/merchants/export
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import request from 'supertest';
+import { createTestMerchant } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import app from '../../index';
+import { createBackupSchema, updateBackupSchema } from '../../validators/backup.validators';
+import { createLinkSchema } from '../../validators/link.validators';
+import { createBackup, updateBackup } from '../backup.service';
+import { NotFoundError } from '../errors';
+import {
+  createExportArchive,
+  EXPORT_FORMAT,
+  ExportRecord,
+  getExportPublicKey,
+  verifyExportArchive,
+} from '../export.service';
+import { createLink, recordLinkEvent, updateLinkStatus } from '../link.service';
+import { startSession } from '../session.service';
+
+async function readArchive(merchantId: string): Promise<string> {
+  let archive = '';
+  for await (const chunk of createExportArchive(merchantId, 1_000)) {
+    archive += chunk;
+  }
+  return archive;
+}
+
+function parseRecords(archive: string): ExportRecord[] {
+  return archive.trimEnd().split('\n').map(line => JSON.parse(line));
+}
+
+describe('Merchant Export', () => {
+  let merchantId: string;
+  let linkId: string;
+  let backupId: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    ({ id: merchantId } = await createTestMerchant(appDb));
+    const otherMerchant = await createTestMerchant(appDb);
+    createLink(otherMerchant.id, createLinkSchema.parse({ ciphertext: 'not-ours' }));
+
+    linkId = createLink(merchantId, createLinkSchema.parse({ ciphertext: 'link-ciphertext' })).linkId;
+    recordLinkEvent(linkId, { type: 'swap-created', swapId: 'swap1' });
+    backupId = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp-v1', paymentLinkId: linkId })).backupId;
+    updateBackup(backupId, updateBackupSchema.parse({ encryptedBackup: 'pgp-v2' }));
+    updateLinkStatus(merchantId, linkId, 'cancelled');
+  });
+
+  describe('Archive', () => {
+    it('should contain the profile, links, event history and every backup revision', async () => {
+      const records = parseRecords(await readArchive(merchantId));
+
+      expect(records.map(record => record.type)).toEqual([
+        'header',
+        'profile',
+        'link',
+        'link-event',
+        'link-status-event',
+        'backup',
+        'backup-version',
+        'backup-version',
+        'signature',
+      ]);
+      expect(records[0].data).toEqual({ format: EXPORT_FORMAT, version: 1, merchantId, exportedAt: 1_000 });
+      expect(records[1].data).toMatchObject({ id: merchantId, deletionScheduledAt: null });
+      expect(records[2].data).toMatchObject({ linkId, ciphertext: 'link-ciphertext', status: 'cancelled' });
+      expect(records[3].data).toMatchObject({ linkId, type: 'swap-created', swapId: 'swap1' });
+      expect(records[4].data).toMatchObject({ linkId, status: 'cancelled' });
+      expect(records[5].data).toMatchObject({ backupId, encryptedBackup: 'pgp-v2', version: 2 });
+      expect(records.slice(6, 8).map(record => record.data)).toMatchObject([
+        { backupId, version: 1, encryptedBackup: 'pgp-v1' },
+        { backupId, version: 2, encryptedBackup: 'pgp-v2' },
+      ]);
+    });
+
+    it('should be signed with the export key', async () => {
+      const archive = await readArchive(merchantId);
+
+      expect(verifyExportArchive(archive)).toBe(true);
+      expect(verifyExportArchive(archive, getExportPublicKey())).toBe(true);
+    });
+
+    it('should not verify once changed, cut short or checked with another key', async () => {
+      const archive = await readArchive(merchantId);
+      const otherKey = generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+      expect(verifyExportArchive(archive.replace('link-ciphertext', 'link-ciphertexT'))).toBe(false);
+      expect(verifyExportArchive(archive.slice(0, archive.lastIndexOf('\n', archive.length - 2) + 1))).toBe(false);
+      expect(verifyExportArchive(archive, otherKey)).toBe(false);
+    });
+
+    it('should reject unknown merchants', () => {
+      expect(() => createExportArchive('unknown-merchant')).toThrow(NotFoundError);
+    });
+  });
+
+  describe('GET /api/merchants/export', () => {
+    it('should download the signed archive as an attachment', async () => {
+      const { token } = startSession(merchantId, 'export@example.com');
+
+      const response = await request(app)
+        .get('/api/merchants/export')
+        .set('Authorization', `Bearer ${token}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          let body = '';
+          res.on('data', chunk => body += chunk);
+          res.on('end', () => callback(null, body));
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="bullpos-export-/);
+      expect(verifyExportArchive(response.body)).toBe(true);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/merchants/export');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should publish the verification key', async () => {
+      const response = await request(app).get('/api/merchants/export/public-key');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ algorithm: 'Ed25519', publicKey: getExportPublicKey() });
+    });
+  });
+});
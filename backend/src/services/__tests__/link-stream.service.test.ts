@@ -0,0 +1,275 @@
+/**
+ * Link Stream Tests
+ * Tests the link status event log, stream tickets and the GET /api/links/stream SSE endpoint
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { createTestMerchant } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import app from '../../index';
+import {
+  canReadLinkStream,
+  issueStreamTicket,
+  latestLinkStatusEventId,
+  listLinkStatusEventsSince,
+  recordLinkStatusChange,
+  redeemStreamTicket,
+  subscribeToLinkStatus,
+} from '../link-stream.service';
+import { createLink, expireDueLinks, recordLinkUse, updateLinkStatus } from '../link.service';
+import { getActiveSession, revokeSession, startSession } from '../session.service';
+import { createApiKey, revokeApiKey } from '../api-key.service';
+import { acceptInvitation, inviteStaff, removeStaffMember } from '../staff.service';
+import { verifyToken } from '../token.service';
+
+interface OpenStream {
+  status: number;
+  received: () => string;
+  waitFor: (text: string) => Promise<void>;
+  close: () => void;
+}
+
+describe('Link Stream', () => {
+  let merchantId: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    ({ id: merchantId } = await createTestMerchant(appDb));
+  });
+
+  describe('Event log', () => {
+    it('should number events and read them after a given ID', () => {
+      const before = latestLinkStatusEventId(merchantId);
+
+      recordLinkStatusChange(merchantId, 'link1', 'paid', 1);
+      recordLinkStatusChange(merchantId, 'link1', 'archived', 1);
+
+      const events = listLinkStatusEventsSince(merchantId, before);
+      expect(events).toMatchObject([
+        { linkId: 'link1', status: 'paid', useCount: 1 },
+        { linkId: 'link1', status: 'archived', useCount: 1 },
+      ]);
+      expect(events[1].eventId).toBeGreaterThan(events[0].eventId);
+      expect(latestLinkStatusEventId(merchantId)).toBe(events[1].eventId);
+      expect(listLinkStatusEventsSince(merchantId, events[1].eventId)).toEqual([]);
+    });
+
+    it('should notify subscribers after the change is recorded', async () => {
+      await new Promise(resolve => process.nextTick(resolve)); // Let earlier notifications go out
+      let notified = 0;
+      const unsubscribe = subscribeToLinkStatus(merchantId, () => notified++);
+
+      recordLinkStatusChange(merchantId, 'link2', 'cancelled', 0);
+      expect(notified).toBe(0);
+      await new Promise(resolve => process.nextTick(resolve));
+      expect(notified).toBe(1);
+
+      unsubscribe();
+      recordLinkStatusChange(merchantId, 'link2', 'archived', 0);
+      await new Promise(resolve => process.nextTick(resolve));
+      expect(notified).toBe(1);
+    });
+
+    it('should log every link lifecycle change', () => {
+      const before = latestLinkStatusEventId(merchantId);
+      const { linkId: paidLinkId } = createLink(merchantId, { ciphertext: 'paid', maxUses: 1 });
+      const { linkId: cancelledLinkId } = createLink(merchantId, { ciphertext: 'cancelled' });
+      const { linkId: expiringLinkId } = createLink(merchantId, { ciphertext: 'expiring', expiresAt: Date.now() + 60_000 });
+
+      recordLinkUse(paidLinkId);
+      updateLinkStatus(merchantId, cancelledLinkId, 'cancelled');
+      expect(expireDueLinks(Date.now() + 120_000)).toBeGreaterThanOrEqual(1);
+
+      expect(listLinkStatusEventsSince(merchantId, before).map(event => [event.linkId, event.status])).toEqual([
+        [paidLinkId, 'paid'],
+        [cancelledLinkId, 'cancelled'],
+        [expiringLinkId, 'expired'],
+      ]);
+    });
+  });
+
+  describe('Stream tickets', () => {
+    it('should be redeemable once', () => {
+      const { ticket } = issueStreamTicket({ merchantId, sessionId: 'session1' });
+
+      expect(redeemStreamTicket(ticket)).toEqual({ merchantId, sessionId: 'session1' });
+      expect(redeemStreamTicket(ticket)).toBeNull();
+      expect(redeemStreamTicket('unknown')).toBeNull();
+    });
+
+    it('should expire', () => {
+      const { ticket, expiresAt } = issueStreamTicket({ merchantId }, 1_000);
+
+      expect(redeemStreamTicket(ticket, expiresAt)).toBeNull();
+    });
+  });
+
+  describe('Stream authorization', () => {
+    it('should follow the API key\'s current scopes and revocation', () => {
+      const reader = createApiKey(merchantId, { name: 'Dashboard', scopes: ['links:read'] });
+      const writer = createApiKey(merchantId, { name: 'Till', scopes: ['links:write'] });
+
+      expect(canReadLinkStream({ merchantId, apiKeyId: reader.keyId })).toBe(true);
+      expect(canReadLinkStream({ merchantId, apiKeyId: writer.keyId })).toBe(false);
+
+      revokeApiKey(merchantId, reader.keyId);
+      expect(canReadLinkStream({ merchantId, apiKeyId: reader.keyId })).toBe(false);
+    });
+
+    it('should read the staff member\'s current role on every check', async () => {
+      const { token: invitationToken } = inviteStaff(merchantId, { email: `stream-${Date.now()}@example.com`, role: 'cashier' });
+      const { token } = await acceptInvitation({ token: invitationToken, password: 'StaffPassword123!' });
+      const sessionId = verifyToken(token)!.sid;
+      // The role the ticket was issued with is not trusted
+      const principal = { merchantId, sessionId, role: 'owner' as const };
+
+      expect(canReadLinkStream(principal)).toBe(true);
+      removeStaffMember(merchantId, getActiveSession(sessionId, merchantId)!.userId!);
+      expect(canReadLinkStream(principal)).toBe(false);
+    });
+  });
+
+  describe('GET /api/links/stream', () => {
+    let server: http.Server;
+    let port: number;
+    let token: string;
+    let sessionId: string;
+
+    beforeAll(async () => {
+      const merchant = await createTestMerchant(appDb);
+      merchantId = merchant.id;
+      ({ token } = startSession(merchantId, merchant.email));
+      sessionId = (appDb.prepare('SELECT id FROM sessions WHERE merchant_id = ?').get(merchantId) as { id: string }).id;
+
+      server = app.listen(0, '127.0.0.1');
+      await new Promise(resolve => server.once('listening', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    // Opens with the access token, or with a ?ticket= query and no Authorization header like EventSource
+    function openStream(headers: Record<string, string> = {}, query?: string): Promise<OpenStream> {
+      return new Promise((resolve, reject) => {
+        const req = http.get({
+          host: '127.0.0.1',
+          port,
+          path: query === undefined ? '/api/links/stream' : `/api/links/stream?${query}`,
+          headers: query === undefined ? { Authorization: `Bearer ${token}`, ...headers } : headers,
+        }, res => {
+          let data = '';
+          const waiters: { text: string; resolve: () => void }[] = [];
+          res.setEncoding('utf8');
+          res.on('data', chunk => {
+            data += chunk;
+            for (const waiter of waiters.filter(w => data.includes(w.text))) {
+              waiters.splice(waiters.indexOf(waiter), 1);
+              waiter.resolve();
+            }
+          });
+          resolve({
+            status: res.statusCode!,
+            received: () => data,
+            waitFor: text => data.includes(text)
+              ? Promise.resolve()
+              : new Promise(resolveWait => waiters.push({ text, resolve: resolveWait })),
+            close: () => req.destroy(),
+          });
+        });
+        req.on('error', error => {
+          if ((error as NodeJS.ErrnoException).code !== 'ECONNRESET') {
+            reject(error);
+          }
+        });
+      });
+    }
+
+    it('should push status changes as they happen', async () => {
+      const stream = await openStream();
+      expect(stream.status).toBe(200);
+      await stream.waitFor('retry:');
+
+      const { linkId } = createLink(merchantId, { ciphertext: 'live' });
+      updateLinkStatus(merchantId, linkId, 'cancelled');
+
+      await stream.waitFor(linkId);
+      expect(stream.received()).toMatch(new RegExp(`id: \\d+\\nevent: link-status\\ndata: \\{[^\\n]*"linkId":"${linkId}"[^\\n]*"status":"cancelled"`));
+      stream.close();
+    });
+
+    it('should resume after Last-Event-ID', async () => {
+      const before = latestLinkStatusEventId(merchantId);
+      const { linkId } = createLink(merchantId, { ciphertext: 'missed' });
+      updateLinkStatus(merchantId, linkId, 'paid');
+
+      const stream = await openStream({ 'Last-Event-ID': String(before) });
+      await stream.waitFor(linkId);
+
+      expect(stream.received()).toContain('"status":"paid"');
+      stream.close();
+    });
+
+    it('should limit concurrent streams per merchant', async () => {
+      const streams = await Promise.all(Array.from({ length: 5 }, () => openStream()));
+      expect(streams.map(stream => stream.status)).toEqual([200, 200, 200, 200, 200]);
+
+      const rejected = await openStream();
+      expect(rejected.status).toBe(429);
+
+      streams[0].close();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const replacement = await openStream();
+      expect(replacement.status).toBe(200);
+
+      for (const stream of [...streams.slice(1), replacement]) {
+        stream.close();
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    });
+
+    it('should open with a ticket instead of an Authorization header, once', async () => {
+      const issued = await request(app).post('/api/links/stream/tickets').set('Authorization', `Bearer ${token}`);
+      expect(issued.status).toBe(201);
+      expect(issued.body).toEqual({ ticket: expect.any(String), expiresAt: expect.any(Number) });
+
+      const stream = await openStream({}, `ticket=${issued.body.ticket}`);
+      expect(stream.status).toBe(200);
+      const { linkId } = createLink(merchantId, { ciphertext: 'ticketed' });
+      updateLinkStatus(merchantId, linkId, 'cancelled');
+      await stream.waitFor(linkId);
+      stream.close();
+
+      const reused = await openStream({}, `ticket=${issued.body.ticket}`);
+      expect(reused.status).toBe(401);
+    });
+
+    it('should resume after ?lastEventId, which a new EventSource can send', async () => {
+      const before = latestLinkStatusEventId(merchantId);
+      const { linkId } = createLink(merchantId, { ciphertext: 'missed-while-reconnecting' });
+      updateLinkStatus(merchantId, linkId, 'paid');
+      const { body: { ticket } } = await request(app).post('/api/links/stream/tickets').set('Authorization', `Bearer ${token}`);
+
+      const stream = await openStream({}, `ticket=${ticket}&lastEventId=${before}`);
+      await stream.waitFor(linkId);
+
+      expect(stream.received()).toContain('"status":"paid"');
+      stream.close();
+    });
+
+    it('should refuse revoked sessions', async () => {
+      const { body: { ticket } } = await request(app).post('/api/links/stream/tickets').set('Authorization', `Bearer ${token}`);
+      revokeSession(merchantId, sessionId);
+
+      const stream = await openStream();
+      expect(stream.status).toBe(401);
+      const ticketed = await openStream({}, `ticket=${ticket}`);
+      expect(ticketed.status).toBe(401);
+    });
+  });
+});
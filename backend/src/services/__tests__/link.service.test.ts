@@ -3,9 +3,26 @@
  * Tests for encrypted payment link CRUD operations and ownership checks
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
 import Database from 'better-sqlite3';
-import { createTestDb, cleanupTestDb, createTestMerchant, createTestLink } from '../../test/helpers';
+import request from 'supertest';
+import { createTestDb, cleanupTestDb, createTestMerchant, createTestLink, createTestBackup } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import app from '../../index';
+import {
+  createLink,
+  deleteLink,
+  getLink,
+  listLinkEvents,
+  listLinks,
+  recordLinkEvent,
+  recordLinkUse,
+  updateLinkStatus,
+} from '../link.service';
+import { ForbiddenError, GoneError, NotFoundError, ServiceError } from '../errors';
+import { startSession } from '../session.service';
+import { linkCreationRateLimiter } from '../../middleware/rate-limit';
+import { createLinkEventSchema, createLinkSchema, listLinksQuerySchema } from '../../validators/link.validators';
 
 describe('Link Service', () => {
   let db: Database.Database;
@@ -285,3 +302,317 @@ describe('Link Service', () => {
     });
   });
 });
+
+describe('Link Service Functions', () => {
+  let merchantId: string;
+  let otherMerchantId: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    ({ id: merchantId } = await createTestMerchant(appDb));
+    ({ id: otherMerchantId } = await createTestMerchant(appDb));
+  });
+
+  it('should create and fetch a link without exposing the merchant', () => {
+    const created = createLink(merchantId, { ciphertext: 'ciphertext', nonce: 'bm9uY2U', tag: 'dGFn' });
+
+    const link = getLink(created.linkId);
+
+    expect(created).toMatchObject(link!);
+    expect(link).toMatchObject({ ciphertext: 'ciphertext', nonce: 'bm9uY2U', tag: 'dGFn' });
+    expect(link).not.toHaveProperty('merchantId');
+  });
+
+  it('should store null nonce and tag for combined ciphertexts', () => {
+    const created = createLink(merchantId, { ciphertext: 'combined' });
+
+    expect(getLink(created.linkId)).toMatchObject({ nonce: null, tag: null });
+  });
+
+  it('should return null for a non-existent link', () => {
+    expect(getLink('does-not-exist')).toBeNull();
+  });
+
+  it('should list only the merchant\'s own links', () => {
+    const own = createLink(merchantId, { ciphertext: 'own' });
+    const other = createLink(otherMerchantId, { ciphertext: 'other' });
+
+    const linkIds = listLinks(merchantId).data.map(link => link.linkId);
+
+    expect(linkIds).toContain(own.linkId);
+    expect(linkIds).not.toContain(other.linkId);
+  });
+
+  it('should delete a link and keep its backups', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'to-delete' });
+    const backupId = createTestBackup(appDb, merchantId, linkId);
+
+    deleteLink(merchantId, linkId);
+
+    expect(getLink(linkId)).toBeNull();
+    const backup = appDb.prepare('SELECT encrypted_link_id FROM backups WHERE id = ?').get(backupId);
+    expect(backup).toEqual({ encrypted_link_id: null });
+  });
+
+  it('should refuse to delete another merchant\'s link', () => {
+    const { linkId } = createLink(otherMerchantId, { ciphertext: 'not-yours' });
+
+    expect(() => deleteLink(merchantId, linkId)).toThrow(ForbiddenError);
+    expect(getLink(linkId)).not.toBeNull();
+  });
+
+  it('should report deleting a non-existent link', () => {
+    expect(() => deleteLink(merchantId, 'does-not-exist')).toThrow(NotFoundError);
+  });
+
+  it('should not expose the lifecycle state publicly', () => {
+    const created = createLink(merchantId, { ciphertext: 'public', maxUses: 2 });
+
+    expect(created).toMatchObject({ status: 'active', maxUses: 2, useCount: 0, expiresAt: null });
+    expect(getLink(created.linkId)).not.toHaveProperty('status');
+    expect(getLink(created.linkId)).not.toHaveProperty('useCount');
+  });
+});
+
+describe('Link Lifecycle', () => {
+  let merchantId: string;
+  let token: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    const merchant = await createTestMerchant(appDb);
+    merchantId = merchant.id;
+    token = startSession(merchantId, merchant.email).token;
+  });
+
+  function expectGone(linkId: string, code: string): void {
+    try {
+      getLink(linkId);
+    } catch (error) {
+      expect(error).toBeInstanceOf(GoneError);
+      expect(error).toMatchObject({ status: 410, code });
+      return;
+    }
+    throw new Error(`Expected link ${linkId} to be gone`);
+  }
+
+  it('should expire links lazily once expires_at has passed', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'expiring', expiresAt: Date.now() + 60_000 });
+    expect(getLink(linkId)).not.toBeNull();
+
+    appDb.prepare('UPDATE encrypted_links SET expires_at = ? WHERE id = ?').run(Date.now() - 1, linkId);
+
+    expectGone(linkId, 'expired');
+    expect(listLinks(merchantId).data.find(link => link.linkId === linkId)?.status).toBe('expired');
+  });
+
+  it('should mark a link paid when it reaches max uses', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'two-uses', maxUses: 2 });
+
+    recordLinkUse(linkId);
+    expect(getLink(linkId)).not.toBeNull();
+
+    recordLinkUse(linkId);
+    expectGone(linkId, 'paid');
+    expect(listLinks(merchantId).data.find(link => link.linkId === linkId)).toMatchObject({ status: 'paid', useCount: 2 });
+  });
+
+  it('should keep links without max uses active', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'unlimited' });
+
+    recordLinkUse(linkId);
+    recordLinkUse(linkId);
+
+    expect(getLink(linkId)).not.toBeNull();
+  });
+
+  it('should only count a swap reported by the payment page once the merchant confirms it', async () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'single-use', maxUses: 1 });
+
+    const backup = await request(app).post('/api/backups').send({ encryptedBackup: 'pgp', paymentLinkId: linkId });
+    expect(backup.status).toBe(201);
+
+    for (const status of ['invoice_paid', 'claimed']) {
+      const reported = await request(app).put(`/api/backups/${backup.body.backupId}`).send({ status });
+      expect(reported.status).toBe(200);
+    }
+    expect((await request(app).get(`/api/links/${linkId}`)).status).toBe(200);
+
+    const confirmUrl = `/api/backups/${backup.body.backupId}/confirm-payment`;
+    expect((await request(app).post(confirmUrl)).status).toBe(401);
+    const confirmed = await request(app).post(confirmUrl).set('Authorization', `Bearer ${token}`);
+    expect(confirmed.status).toBe(200);
+
+    const link = await request(app).get(`/api/links/${linkId}`);
+    expect(link.status).toBe(410);
+    expect(link.body.code).toBe('paid');
+  });
+
+  it('should not count replayed link creations against the rate limit', async () => {
+    const create = () => request(app).post('/api/links')
+      .set('Authorization', `Bearer ${token}`)
+      .set('Idempotency-Key', 'replayed-key')
+      .send({ ciphertext: 'rate-limited' });
+    const hits = async () => (await linkCreationRateLimiter.getKey(merchantId))?.totalHits;
+
+    expect((await create()).status).toBe(201);
+    const counted = await hits();
+    expect(counted).toBeGreaterThan(0);
+
+    const replay = await create();
+    expect(replay.status).toBe(201);
+    expect(replay.headers['idempotent-replayed']).toBe('true');
+    expect(await hits()).toBe(counted);
+  });
+
+  it('should let the merchant cancel and then archive a link', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'cancel-me' });
+
+    expect(updateLinkStatus(merchantId, linkId, 'cancelled').status).toBe('cancelled');
+    expectGone(linkId, 'cancelled');
+
+    expect(updateLinkStatus(merchantId, linkId, 'archived').status).toBe('archived');
+    expectGone(linkId, 'archived');
+  });
+
+  it('should reject transitions outside the lifecycle', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'active' });
+
+    expect(() => updateLinkStatus(merchantId, linkId, 'archived')).toThrow(ServiceError);
+    expect(() => updateLinkStatus(merchantId, linkId, 'expired')).toThrow(ServiceError);
+
+    updateLinkStatus(merchantId, linkId, 'cancelled');
+    expect(() => updateLinkStatus(merchantId, linkId, 'active')).toThrow(ServiceError);
+  });
+
+  it('should only accept future expiry times and positive use limits', () => {
+    expect(createLinkSchema.safeParse({ ciphertext: 'c', expiresAt: Date.now() + 1000 }).success).toBe(true);
+    expect(createLinkSchema.safeParse({ ciphertext: 'c', expiresAt: Date.now() - 1000 }).success).toBe(false);
+    expect(createLinkSchema.safeParse({ ciphertext: 'c', maxUses: 0 }).success).toBe(false);
+  });
+});
+
+describe('Link Events', () => {
+  const txid = 'ab'.repeat(32);
+  let merchantId: string;
+  let otherMerchantId: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    ({ id: merchantId } = await createTestMerchant(appDb));
+    ({ id: otherMerchantId } = await createTestMerchant(appDb));
+  });
+
+  it('should record swap progress for the merchant to list', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'events' });
+
+    recordLinkEvent(linkId, { type: 'swap-created', swapId: 'swap1' });
+    recordLinkEvent(linkId, { type: 'claim-broadcast', swapId: 'swap1', txid });
+
+    expect(listLinkEvents(merchantId, linkId)).toMatchObject([
+      { type: 'swap-created', swapId: 'swap1', txid: null },
+      { type: 'claim-broadcast', swapId: 'swap1', txid },
+    ]);
+  });
+
+  it('should store each step of a swap once and fill in a late txid', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'repeated' });
+
+    const first = recordLinkEvent(linkId, { type: 'claim-confirmed', swapId: 'swap2' });
+    const second = recordLinkEvent(linkId, { type: 'claim-confirmed', swapId: 'swap2', txid });
+
+    expect(second).toEqual({ ...first, txid });
+    expect(listLinkEvents(merchantId, linkId)).toHaveLength(1);
+  });
+
+  it('should accept events for links that are no longer active', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'paid', maxUses: 1 });
+    recordLinkUse(linkId);
+
+    expect(recordLinkEvent(linkId, { type: 'claim-confirmed', swapId: 'swap3', txid }).type).toBe('claim-confirmed');
+  });
+
+  it('should reject events for unknown links', () => {
+    expect(() => recordLinkEvent('does-not-exist', { type: 'swap-created', swapId: 'swap4' })).toThrow(NotFoundError);
+  });
+
+  it('should only list events to the owning merchant', () => {
+    const { linkId } = createLink(merchantId, { ciphertext: 'private' });
+
+    expect(() => listLinkEvents(otherMerchantId, linkId)).toThrow(ForbiddenError);
+  });
+
+  it('should validate event types, swap IDs and txids', () => {
+    expect(createLinkEventSchema.safeParse({ type: 'invoice-paid', swapId: 'abc' }).success).toBe(true);
+    expect(createLinkEventSchema.safeParse({ type: 'refunded', swapId: 'abc' }).success).toBe(false);
+    expect(createLinkEventSchema.safeParse({ type: 'swap-created', swapId: '../etc' }).success).toBe(false);
+    expect(createLinkEventSchema.safeParse({ type: 'claim-broadcast', swapId: 'abc', txid: 'xyz' }).success).toBe(false);
+  });
+});
+
+describe('Link Listing', () => {
+  let merchantId: string;
+  let linkIds: string[];
+
+  beforeAll(async () => {
+    initializeDatabase();
+    ({ id: merchantId } = await createTestMerchant(appDb));
+
+    linkIds = [];
+    for (let i = 0; i < 5; i++) {
+      linkIds.push(createLink(merchantId, { ciphertext: `page-${i}` }).linkId);
+      appDb.prepare('UPDATE encrypted_links SET created_at = ? WHERE id = ?').run(1_000 + i * 1_000, linkIds[i]);
+    }
+    updateLinkStatus(merchantId, linkIds[1], 'cancelled');
+    createTestBackup(appDb, merchantId, linkIds[2]);
+  });
+
+  function list(query: Record<string, string> = {}) {
+    return listLinks(merchantId, listLinksQuerySchema.parse(query));
+  }
+
+  it('should walk every page with the cursor, newest first', () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = list({ limit: '2', ...(cursor ? { cursor } : {}) });
+      expect(page.data.length).toBeLessThanOrEqual(2);
+      seen.push(...page.data.map(link => link.linkId));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual([...linkIds].reverse());
+  });
+
+  it('should sort oldest first on request', () => {
+    const first = list({ limit: '3', order: 'asc' });
+    const second = list({ limit: '3', order: 'asc', cursor: first.nextCursor! });
+
+    expect([...first.data, ...second.data].map(link => link.linkId)).toEqual(linkIds);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should filter by status, creation time and backups', () => {
+    expect(list({ status: 'cancelled' }).data.map(link => link.linkId)).toEqual([linkIds[1]]);
+    expect(list({ status: 'active,cancelled' }).data).toHaveLength(5);
+    expect(list({ createdAfter: '2000', createdBefore: '4000', order: 'asc' }).data.map(link => link.linkId))
+      .toEqual(linkIds.slice(1, 3));
+    expect(list({ hasBackup: 'true' }).data.map(link => link.linkId)).toEqual([linkIds[2]]);
+    expect(list({ hasBackup: 'false' }).data).toHaveLength(4);
+  });
+
+  it('should reject cursors that are malformed or from another sort order', () => {
+    const { nextCursor } = list({ limit: '1' });
+
+    expect(() => list({ cursor: 'not-a-cursor' })).toThrow(ServiceError);
+    expect(() => list({ cursor: nextCursor!, order: 'asc' })).toThrow(ServiceError);
+  });
+
+  it('should validate list query parameters', () => {
+    expect(listLinksQuerySchema.safeParse({ limit: '0' }).success).toBe(false);
+    expect(listLinksQuerySchema.safeParse({ limit: '201' }).success).toBe(false);
+    expect(listLinksQuerySchema.safeParse({ status: 'refunded' }).success).toBe(false);
+    expect(listLinksQuerySchema.safeParse({ sort: 'updatedAt' }).success).toBe(false);
+    expect(listLinksQuerySchema.parse({})).toMatchObject({ limit: 50, order: 'desc', sort: 'createdAt' });
+  });
+});
@@ -3,9 +3,24 @@
  * Tests for merchant registration, profile retrieval, and profile updates
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
 import Database from 'better-sqlite3';
-import { createTestDb, cleanupTestDb, createTestMerchant } from '../../test/helpers';
+import request from 'supertest';
+import { createTestDb, cleanupTestDb, createTestMerchant, createTestLink } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import app from '../../index';
+import { createBackupSchema, updateBackupSchema } from '../../validators/backup.validators';
+import { createBackup, updateBackup } from '../backup.service';
+import { ServiceError } from '../errors';
+import {
+  ACCOUNT_DELETION_GRACE_MS,
+  cancelAccountDeletion,
+  getPgpPublicKey,
+  getProfile,
+  purgeDeletedAccounts,
+  scheduleAccountDeletion,
+} from '../merchant.service';
+import { startSession } from '../session.service';
 
 describe('Merchant Service', () => {
   let db: Database.Database;
@@ -275,3 +290,94 @@ describe('Merchant Service', () => {
     });
   });
 });
+
+describe('Account Deletion', () => {
+  const pgpPublicKey = '-----BEGIN PGP PUBLIC KEY BLOCK-----\ntest-key\n-----END PGP PUBLIC KEY BLOCK-----';
+
+  beforeAll(() => {
+    initializeDatabase();
+  });
+
+  it('should schedule deletion after the grace period and keep the first date', async () => {
+    const { id } = await createTestMerchant(appDb);
+
+    expect(scheduleAccountDeletion(id, 1_000)).toBe(1_000 + ACCOUNT_DELETION_GRACE_MS);
+    expect(scheduleAccountDeletion(id, 5_000)).toBe(1_000 + ACCOUNT_DELETION_GRACE_MS);
+    expect(getProfile(id)?.deletionScheduledAt).toBe(1_000 + ACCOUNT_DELETION_GRACE_MS);
+  });
+
+  it('should stop serving the PGP key so no new payments start', async () => {
+    const { id } = await createTestMerchant(appDb, { pgpPublicKey });
+
+    scheduleAccountDeletion(id);
+
+    expect(getPgpPublicKey(id)).toBeNull();
+  });
+
+  it('should restore the account when deletion is cancelled', async () => {
+    const { id } = await createTestMerchant(appDb, { pgpPublicKey });
+    scheduleAccountDeletion(id);
+
+    expect(cancelAccountDeletion(id).deletionScheduledAt).toBeNull();
+    expect(getPgpPublicKey(id)).toBe(pgpPublicKey);
+    expect(() => cancelAccountDeletion(id)).toThrow(ServiceError);
+  });
+
+  it('should erase the account and everything it owns once the grace period ends', async () => {
+    const { id, email } = await createTestMerchant(appDb);
+    const { id: keptId } = await createTestMerchant(appDb);
+    const linkId = createTestLink(appDb, id);
+    const { backupId } = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp-v1', paymentLinkId: linkId }));
+    updateBackup(backupId, updateBackupSchema.parse({ encryptedBackup: 'pgp-v2' }));
+    startSession(id, email);
+    const deleteAt = scheduleAccountDeletion(id, 10_000_000);
+    scheduleAccountDeletion(keptId, 20_000_000);
+
+    purgeDeletedAccounts(deleteAt - 1); // Accounts scheduled by the tests above
+    expect(getProfile(id)).not.toBeNull();
+    expect(purgeDeletedAccounts(deleteAt)).toBe(1);
+
+    expect(getProfile(id)).toBeNull();
+    expect(getProfile(keptId)).not.toBeNull();
+    const count = (table: string, column: string, value: string) =>
+      (appDb.prepare(`SELECT COUNT(*) AS n FROM ${table} WHERE ${column} = ?`).get(value) as { n: number }).n;
+    expect(count('encrypted_links', 'merchant_id', id)).toBe(0);
+    expect(count('backups', 'merchant_id', id)).toBe(0);
+    expect(count('swap_backup_versions', 'backup_id', backupId)).toBe(0);
+    expect(count('sessions', 'merchant_id', id)).toBe(0);
+  });
+
+  describe('DELETE /api/merchants/me', () => {
+    it('should schedule deletion once the password is confirmed', async () => {
+      const { id, email, password } = await createTestMerchant(appDb);
+      const { token } = startSession(id, email);
+
+      const wrong = await request(app)
+        .delete('/api/merchants/me')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ password: 'WrongPassword123!' });
+      expect(wrong.status).toBe(401);
+      expect(getProfile(id)?.deletionScheduledAt).toBeNull();
+
+      const response = await request(app)
+        .delete('/api/merchants/me')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ password });
+      expect(response.status).toBe(202);
+      expect(response.body.deletionScheduledAt).toBe(getProfile(id)?.deletionScheduledAt);
+    });
+
+    it('should cancel a scheduled deletion', async () => {
+      const { id, email } = await createTestMerchant(appDb);
+      const { token } = startSession(id, email);
+      scheduleAccountDeletion(id);
+
+      const response = await request(app)
+        .post('/api/merchants/me/cancel-deletion')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ id, deletionScheduledAt: null });
+    });
+  });
+});
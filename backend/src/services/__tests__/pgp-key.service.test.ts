@@ -0,0 +1,345 @@
+/**
+ * PGP Key History Tests
+ * Tests key validation, rotation, the key recorded with each backup, re-encryption and retiring old keys
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import * as openpgp from 'openpgp';
+import { createTestMerchant, SECOND_TEST_PGP_PUBLIC_KEY, TEST_PGP_PUBLIC_KEY } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import app from '../../index';
+import { createBackupSchema, listBackupsQuerySchema } from '../../validators/backup.validators';
+import { createBackup, getBackup, listBackups, listBackupVersions, reencryptBackup, updateBackup } from '../backup.service';
+import { NotFoundError } from '../errors';
+import { getProfile } from '../merchant.service';
+import {
+  backfillPgpKeyHistory,
+  getCurrentPgpKeyFingerprint,
+  insertPgpKey,
+  listPgpKeys,
+  readPgpKeyFingerprint,
+  retirePgpKey,
+  rotatePgpKey,
+  validatePgpPublicKey,
+} from '../pgp-key.service';
+import { recordStepUp, startSession } from '../session.service';
+import { verifyToken } from '../token.service';
+
+const OLD_KEY = 'a201e1d206e56463013670957e457f79ea709d07';
+const NEW_KEY = 'f6babcfb58e035354dd11504f05fa53b89246659';
+
+// A merchant whose current key is OLD_KEY
+async function createKeyedMerchant(): Promise<{ id: string; email: string; password: string }> {
+  const merchant = await createTestMerchant(appDb, { pgpPublicKey: TEST_PGP_PUBLIC_KEY });
+  insertPgpKey(merchant.id, OLD_KEY, TEST_PGP_PUBLIC_KEY, 1_000);
+  return merchant;
+}
+
+describe('PGP Key History', () => {
+  beforeAll(() => {
+    initializeDatabase();
+  });
+
+  it('should read key fingerprints', async () => {
+    expect(await readPgpKeyFingerprint(TEST_PGP_PUBLIC_KEY)).toBe(OLD_KEY);
+    expect(await readPgpKeyFingerprint(SECOND_TEST_PGP_PUBLIC_KEY)).toBe(NEW_KEY);
+    await expect(readPgpKeyFingerprint('not a key')).rejects.toMatchObject({ status: 400, code: 'invalid_pgp_key' });
+  });
+
+  describe('Validation', () => {
+    const userIDs = [{ name: 'Test Merchant', email: 'merchant@example.com' }];
+
+    it('should accept a key swap backups can be encrypted to', async () => {
+      expect(await validatePgpPublicKey(TEST_PGP_PUBLIC_KEY)).toBe(OLD_KEY);
+    });
+
+    it('should reject keys backups cannot be encrypted to', async () => {
+      const signingOnly = await openpgp.generateKey({ type: 'curve25519', userIDs, subkeys: [] });
+      const expired = await openpgp.generateKey({
+        type: 'curve25519',
+        userIDs,
+        date: new Date(Date.now() - 60 * 60 * 1000),
+        keyExpirationTime: 60,
+      });
+      const { privateKey } = await openpgp.generateKey({ type: 'curve25519', userIDs });
+      const revoked = await openpgp.revokeKey({ key: await openpgp.readPrivateKey({ armoredKey: privateKey }) });
+
+      await expect(validatePgpPublicKey(signingOnly.publicKey))
+        .rejects.toMatchObject({ status: 400, code: 'pgp_key_not_encryption_capable' });
+      await expect(validatePgpPublicKey(expired.publicKey)).rejects.toMatchObject({ code: 'pgp_key_expired' });
+      await expect(validatePgpPublicKey(revoked.publicKey)).rejects.toMatchObject({ code: 'pgp_key_revoked' });
+      await expect(validatePgpPublicKey(privateKey)).rejects.toMatchObject({ code: 'invalid_pgp_key' });
+    });
+
+    it('should reject undersized RSA keys', async () => {
+      const { publicKey } = await openpgp.generateKey({ type: 'rsa', rsaBits: 1024, userIDs, config: { minRSABits: 1024 } });
+
+      await expect(validatePgpPublicKey(publicKey)).rejects.toMatchObject({ status: 400, code: 'pgp_key_too_small' });
+    });
+  });
+
+  describe('Rotation', () => {
+    it('should keep the replaced key on record', async () => {
+      const { id } = await createKeyedMerchant();
+
+      const key = await rotatePgpKey(id, SECOND_TEST_PGP_PUBLIC_KEY, 5_000);
+
+      expect(key).toMatchObject({ fingerprint: NEW_KEY, validFrom: 5_000, validUntil: null, pendingBackups: 0 });
+      expect(listPgpKeys(id).map(({ fingerprint, validFrom, validUntil }) => ({ fingerprint, validFrom, validUntil })))
+        .toEqual([
+          { fingerprint: NEW_KEY, validFrom: 5_000, validUntil: null },
+          { fingerprint: OLD_KEY, validFrom: 1_000, validUntil: 5_000 },
+        ]);
+      expect(getCurrentPgpKeyFingerprint(id)).toBe(NEW_KEY);
+      expect(getProfile(id)!.pgpPublicKey).toBe(SECOND_TEST_PGP_PUBLIC_KEY);
+    });
+
+    it('should treat the current key as a no-op and refuse a replaced one', async () => {
+      const { id } = await createKeyedMerchant();
+
+      await rotatePgpKey(id, TEST_PGP_PUBLIC_KEY);
+      expect(listPgpKeys(id)).toHaveLength(1);
+
+      await rotatePgpKey(id, SECOND_TEST_PGP_PUBLIC_KEY);
+      await expect(rotatePgpKey(id, TEST_PGP_PUBLIC_KEY)).rejects.toMatchObject({ status: 409, code: 'key_reused' });
+    });
+
+    it('should reject unknown merchants', async () => {
+      await expect(rotatePgpKey('unknown-merchant', TEST_PGP_PUBLIC_KEY)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should validate the new key', async () => {
+      const { id } = await createKeyedMerchant();
+      const { publicKey } = await openpgp.generateKey({
+        type: 'curve25519',
+        userIDs: [{ email: 'merchant@example.com' }],
+        subkeys: [],
+      });
+
+      await expect(rotatePgpKey(id, publicKey)).rejects.toMatchObject({ code: 'pgp_key_not_encryption_capable' });
+      expect(getCurrentPgpKeyFingerprint(id)).toBe(OLD_KEY);
+    });
+  });
+
+  describe('Backups', () => {
+    let merchantId: string;
+    let oldBackupId: string;
+
+    beforeAll(async () => {
+      ({ id: merchantId } = await createKeyedMerchant());
+      oldBackupId = createBackup(createBackupSchema.parse({ encryptedBackup: 'to-old-key', merchantId })).backupId;
+      await rotatePgpKey(merchantId, SECOND_TEST_PGP_PUBLIC_KEY);
+    });
+
+    it('should record the key each backup is encrypted to', () => {
+      const current = createBackup(createBackupSchema.parse({ encryptedBackup: 'to-new-key', merchantId }));
+      // The payer's browser may have fetched the key just before the rotation
+      const late = createBackup(createBackupSchema.parse({
+        encryptedBackup: 'to-old-key',
+        merchantId,
+        keyFingerprint: OLD_KEY,
+      }));
+
+      expect(getBackup(merchantId, oldBackupId).keyFingerprint).toBe(OLD_KEY);
+      expect(current.keyFingerprint).toBe(NEW_KEY);
+      expect(late.keyFingerprint).toBe(OLD_KEY);
+      expect(listPgpKeys(merchantId).map(key => key.pendingBackups)).toEqual([1, 2]);
+    });
+
+    it('should refuse keys the merchant does not have', () => {
+      expect(() => createBackup(createBackupSchema.parse({
+        encryptedBackup: 'to-unknown-key',
+        merchantId,
+        keyFingerprint: 'b'.repeat(40),
+      }))).toThrow(expect.objectContaining({ status: 409, code: 'key_not_accepted' }));
+      expect(createBackupSchema.safeParse({ encryptedBackup: 'x', merchantId, keyFingerprint: 'A201' }).success)
+        .toBe(false);
+    });
+
+    it('should keep revisions from the paying browser on the same key', () => {
+      const { backupId } = createBackup(createBackupSchema.parse({ encryptedBackup: 'v1', merchantId }));
+
+      updateBackup(backupId, { encryptedBackup: 'v2', keyFingerprint: NEW_KEY });
+
+      expect(() => updateBackup(backupId, { encryptedBackup: 'v3', keyFingerprint: OLD_KEY }))
+        .toThrow(expect.objectContaining({ status: 409, code: 'key_mismatch' }));
+      expect(listBackupVersions(merchantId, backupId).map(version => version.keyFingerprint)).toEqual([NEW_KEY, NEW_KEY]);
+    });
+
+    it('should store a re-encrypted revision for the current key', () => {
+      const summary = reencryptBackup(merchantId, oldBackupId, { encryptedBackup: 'to-new-key', keyFingerprint: NEW_KEY });
+      reencryptBackup(merchantId, oldBackupId, { encryptedBackup: 'to-new-key', keyFingerprint: NEW_KEY });
+
+      expect(summary).toMatchObject({ version: 2, keyFingerprint: NEW_KEY });
+      expect(listBackupVersions(merchantId, oldBackupId).map(({ version, encryptedBackup, keyFingerprint }) => (
+        { version, encryptedBackup, keyFingerprint }
+      ))).toEqual([
+        { version: 1, encryptedBackup: 'to-old-key', keyFingerprint: OLD_KEY },
+        { version: 2, encryptedBackup: 'to-new-key', keyFingerprint: NEW_KEY },
+      ]);
+    });
+
+    it('should only re-encrypt unfinished swaps to the current key', () => {
+      const { backupId } = createBackup(createBackupSchema.parse({ encryptedBackup: 'x', merchantId }));
+      updateBackup(backupId, { status: 'invoice_paid' });
+      updateBackup(backupId, { status: 'claimed' });
+
+      expect(() => reencryptBackup(merchantId, oldBackupId, { encryptedBackup: 'x', keyFingerprint: OLD_KEY }))
+        .toThrow(expect.objectContaining({ status: 409, code: 'key_not_current' }));
+      expect(() => reencryptBackup(merchantId, backupId, { encryptedBackup: 'y', keyFingerprint: NEW_KEY }))
+        .toThrow(expect.objectContaining({ status: 409, code: 'backup_finalized' }));
+    });
+
+    it('should filter backups by key', () => {
+      const query = listBackupsQuerySchema.parse({ keyFingerprint: OLD_KEY, status: 'pending' });
+
+      // Only the backup uploaded after the rotation is still encrypted to the old key
+      expect(listBackups(merchantId, query).data.map(backup => backup.keyFingerprint)).toEqual([OLD_KEY]);
+    });
+  });
+
+  describe('Retiring', () => {
+    it('should wait until no pending backup needs the key', async () => {
+      const { id } = await createKeyedMerchant();
+      const { backupId } = createBackup(createBackupSchema.parse({ encryptedBackup: 'to-old-key', merchantId: id }));
+      await rotatePgpKey(id, SECOND_TEST_PGP_PUBLIC_KEY);
+
+      expect(() => retirePgpKey(id, NEW_KEY)).toThrow(expect.objectContaining({ status: 409, code: 'key_current' }));
+      expect(() => retirePgpKey(id, OLD_KEY)).toThrow(expect.objectContaining({ status: 409, code: 'key_in_use' }));
+
+      reencryptBackup(id, backupId, { encryptedBackup: 'to-new-key', keyFingerprint: NEW_KEY });
+      const retired = retirePgpKey(id, OLD_KEY, 9_000);
+
+      expect(retired).toMatchObject({ fingerprint: OLD_KEY, retiredAt: 9_000, pendingBackups: 0 });
+      expect(retirePgpKey(id, OLD_KEY).retiredAt).toBe(9_000);
+      expect(() => createBackup(createBackupSchema.parse({
+        encryptedBackup: 'late',
+        merchantId: id,
+        keyFingerprint: OLD_KEY,
+      }))).toThrow(expect.objectContaining({ code: 'key_not_accepted' }));
+      expect(() => retirePgpKey(id, 'c'.repeat(40))).toThrow(NotFoundError);
+    });
+
+    it('should not count settled swaps', async () => {
+      const { id } = await createKeyedMerchant();
+      const { backupId } = createBackup(createBackupSchema.parse({ encryptedBackup: 'done', merchantId: id }));
+      updateBackup(backupId, { status: 'invoice_paid' });
+      updateBackup(backupId, { status: 'claimed' });
+      await rotatePgpKey(id, SECOND_TEST_PGP_PUBLIC_KEY);
+
+      expect(retirePgpKey(id, OLD_KEY).retiredAt).not.toBeNull();
+    });
+  });
+
+  describe('Backfill', () => {
+    it('should record keys stored before the key history and attribute their backups', async () => {
+      const { id } = await createTestMerchant(appDb, { pgpPublicKey: TEST_PGP_PUBLIC_KEY });
+      const { backupId } = createBackup(createBackupSchema.parse({ encryptedBackup: 'legacy', merchantId: id }));
+      expect(getBackup(id, backupId).keyFingerprint).toBeNull();
+
+      expect(await backfillPgpKeyHistory()).toBeGreaterThanOrEqual(1);
+
+      expect(getCurrentPgpKeyFingerprint(id)).toBe(OLD_KEY);
+      expect(getBackup(id, backupId).keyFingerprint).toBe(OLD_KEY);
+      expect(await backfillPgpKeyHistory()).toBe(0);
+    });
+  });
+
+  describe('Routes', () => {
+    let merchantId: string;
+    let token: string;
+    let sessionId: string;
+
+    beforeAll(async () => {
+      const merchant = await createKeyedMerchant();
+      merchantId = merchant.id;
+      token = startSession(merchantId, merchant.email).token;
+      sessionId = verifyToken(token)!.sid;
+    });
+
+    it('should require a step-up to rotate the key through the profile', async () => {
+      const update = { storeName: 'Rotated Store', pgpPublicKey: SECOND_TEST_PGP_PUBLIC_KEY };
+
+      const refused = await request(app).put('/api/merchants/profile').set('Authorization', `Bearer ${token}`).send(update);
+      recordStepUp(sessionId);
+      const response = await request(app).put('/api/merchants/profile').set('Authorization', `Bearer ${token}`).send(update);
+
+      expect(refused.status).toBe(403);
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ storeName: 'Rotated Store', pgpPublicKey: SECOND_TEST_PGP_PUBLIC_KEY });
+
+      const keys = await request(app).get('/api/merchants/pgp-keys').set('Authorization', `Bearer ${token}`);
+      expect(keys.body.map((key: { fingerprint: string }) => key.fingerprint)).toEqual([NEW_KEY, OLD_KEY]);
+    });
+
+    it('should reject unreadable keys', async () => {
+      recordStepUp(sessionId);
+
+      const response = await request(app)
+        .put('/api/merchants/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ pgpPublicKey: '-----BEGIN PGP PUBLIC KEY BLOCK-----\nnope\n-----END PGP PUBLIC KEY BLOCK-----' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('invalid_pgp_key');
+    });
+
+    it('should re-encrypt backups and then retire the old key', async () => {
+      const { backupId } = createBackup(createBackupSchema.parse({
+        encryptedBackup: 'to-old-key',
+        merchantId,
+        keyFingerprint: OLD_KEY,
+      }));
+
+      const reencrypted = await request(app)
+        .post(`/api/backups/${backupId}/reencrypt`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ encryptedBackup: 'to-new-key', keyFingerprint: NEW_KEY });
+      appDb.prepare('UPDATE sessions SET step_up_at = NULL WHERE id = ?').run(sessionId);
+      const refused = await request(app)
+        .post(`/api/merchants/pgp-keys/${OLD_KEY}/retire`)
+        .set('Authorization', `Bearer ${token}`);
+      recordStepUp(sessionId);
+      const retired = await request(app)
+        .post(`/api/merchants/pgp-keys/${OLD_KEY}/retire`)
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(reencrypted.status).toBe(200);
+      expect(reencrypted.body).toMatchObject({ backupId, version: 2, keyFingerprint: NEW_KEY });
+      expect(refused.status).toBe(403);
+      expect(retired.status).toBe(200);
+      expect(retired.body.retiredAt).not.toBeNull();
+    });
+
+    it('should serve the current key with its fingerprint, or a pinned key still accepted', async () => {
+      const current = await request(app).get(`/api/merchants/${merchantId}/pgp`);
+      const pinned = await request(app).get(`/api/merchants/${merchantId}/pgp?fingerprint=${OLD_KEY}`);
+      const unknown = await request(app).get(`/api/merchants/${merchantId}/pgp?fingerprint=${'d'.repeat(40)}`);
+      const malformed = await request(app).get(`/api/merchants/${merchantId}/pgp?fingerprint=nope`);
+
+      expect(current.body).toEqual({ pgpPublicKey: SECOND_TEST_PGP_PUBLIC_KEY, fingerprint: NEW_KEY });
+      // Retired by the previous test
+      expect(pinned.status).toBe(404);
+      expect(unknown.status).toBe(404);
+      expect(malformed.status).toBe(400);
+
+      const other = await createKeyedMerchant();
+      await rotatePgpKey(other.id, SECOND_TEST_PGP_PUBLIC_KEY);
+      const replaced = await request(app).get(`/api/merchants/${other.id}/pgp?fingerprint=${OLD_KEY}`);
+      expect(replaced.body).toEqual({ pgpPublicKey: TEST_PGP_PUBLIC_KEY, fingerprint: OLD_KEY });
+    });
+
+    it('should only let the owner re-encrypt a backup', async () => {
+      const other = await createKeyedMerchant();
+      const { backupId } = createBackup(createBackupSchema.parse({ encryptedBackup: 'theirs', merchantId: other.id }));
+
+      const response = await request(app)
+        .post(`/api/backups/${backupId}/reencrypt`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ encryptedBackup: 'mine', keyFingerprint: NEW_KEY });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
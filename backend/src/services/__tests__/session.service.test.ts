@@ -0,0 +1,114 @@
+/**
+ * Session Service Tests
+ * Tests for refresh token rotation, reuse detection and session revocation
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { db, initializeDatabase } from '../../db/schema';
+import { createTestMerchant } from '../../test/helpers';
+import {
+  isSessionActive,
+  listSessions,
+  refreshSession,
+  revokeSession,
+  startSession,
+} from '../session.service';
+import { ACCESS_TOKEN_TTL_SECONDS, verifyToken } from '../token.service';
+import { ForbiddenError, NotFoundError, UnauthorizedError } from '../errors';
+
+describe('Session Service', () => {
+  let merchantId: string;
+  let email: string;
+  let otherMerchantId: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    ({ id: merchantId, email } = await createTestMerchant(db));
+    ({ id: otherMerchantId } = await createTestMerchant(db));
+  });
+
+  describe('startSession', () => {
+    it('should issue a short-lived access token bound to the session', () => {
+      const pair = startSession(merchantId, email, { userAgent: 'Test Browser', ip: '127.0.0.1' });
+      const payload = verifyToken(pair.token)!;
+
+      expect(payload.merchantId).toBe(merchantId);
+      expect(isSessionActive(payload.sid, merchantId)).toBe(true);
+      expect(pair.expiresIn).toBe(ACCESS_TOKEN_TTL_SECONDS);
+      expect((payload as any).exp - (payload as any).iat).toBe(ACCESS_TOKEN_TTL_SECONDS);
+    });
+
+    it('should store only a hash of the refresh token', () => {
+      const { refreshToken } = startSession(merchantId, email);
+
+      const stored = db.prepare('SELECT token_hash FROM refresh_tokens').all() as { token_hash: string }[];
+      expect(stored.map(row => row.token_hash)).not.toContain(refreshToken);
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should rotate the refresh token within the same session', () => {
+      const first = startSession(merchantId, email);
+
+      const second = refreshSession(first.refreshToken);
+
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(verifyToken(second.token)!.sid).toBe(verifyToken(first.token)!.sid);
+      expect(() => refreshSession(second.refreshToken)).not.toThrow();
+    });
+
+    it('should revoke the whole session when a used refresh token is replayed', () => {
+      const first = startSession(merchantId, email);
+      const sessionId = verifyToken(first.token)!.sid;
+      const second = refreshSession(first.refreshToken);
+
+      expect(() => refreshSession(first.refreshToken)).toThrow(UnauthorizedError);
+
+      expect(isSessionActive(sessionId, merchantId)).toBe(false);
+      expect(() => refreshSession(second.refreshToken)).toThrow(UnauthorizedError);
+    });
+
+    it('should reject unknown and expired refresh tokens', () => {
+      expect(() => refreshSession('not-a-real-token')).toThrow(UnauthorizedError);
+
+      const { refreshToken, token } = startSession(merchantId, email);
+      db.prepare('UPDATE refresh_tokens SET expires_at = 0 WHERE session_id = ?').run(verifyToken(token)!.sid);
+
+      expect(() => refreshSession(refreshToken)).toThrow(UnauthorizedError);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should invalidate access and refresh tokens of the session', () => {
+      const pair = startSession(merchantId, email);
+      const sessionId = verifyToken(pair.token)!.sid;
+
+      revokeSession(merchantId, sessionId);
+
+      expect(isSessionActive(sessionId, merchantId)).toBe(false);
+      expect(() => refreshSession(pair.refreshToken)).toThrow(UnauthorizedError);
+      expect(listSessions(merchantId).map(session => session.sessionId)).not.toContain(sessionId);
+    });
+
+    it('should not let merchants revoke each other\'s sessions', () => {
+      const sessionId = verifyToken(startSession(otherMerchantId, 'other@example.com').token)!.sid;
+
+      expect(() => revokeSession(merchantId, sessionId)).toThrow(ForbiddenError);
+      expect(() => revokeSession(merchantId, 'missing')).toThrow(NotFoundError);
+      expect(isSessionActive(sessionId, otherMerchantId)).toBe(true);
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should list active sessions and flag the current one', () => {
+      const sessionId = verifyToken(startSession(merchantId, email, { userAgent: 'Phone' }).token)!.sid;
+
+      const sessions = listSessions(merchantId, sessionId);
+      const current = sessions.find(session => session.sessionId === sessionId);
+
+      expect(current).toMatchObject({ userAgent: 'Phone', current: true });
+      expect(sessions.filter(session => session.current)).toHaveLength(1);
+      expect(listSessions(otherMerchantId).map(session => session.sessionId)).not.toContain(sessionId);
+    });
+  });
+});
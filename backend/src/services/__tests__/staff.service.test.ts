@@ -0,0 +1,265 @@
+/**
+ * Staff Account Tests
+ * Tests invitations, staff login, per-role permissions on the routers and removing staff
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import { createTestMerchant, TEST_PGP_PUBLIC_KEY } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import app from '../../index';
+import { StaffRole } from '../../validators/staff.validators';
+import { EmailAlreadyRegisteredError, login } from '../auth.service';
+import { GoneError, NotFoundError } from '../errors';
+import { hasPermission } from '../permissions';
+import { getActiveSession, listSessions, recordStepUp, startSession } from '../session.service';
+import {
+  acceptInvitation,
+  inviteStaff,
+  listInvitations,
+  listStaff,
+  removeStaffMember,
+  revokeInvitation,
+  updateStaffRole,
+} from '../staff.service';
+import { verifyToken } from '../token.service';
+
+const PASSWORD = 'StaffPassword123!';
+
+let emailCount = 0;
+function staffEmail(): string {
+  return `staff-${++emailCount}-${Date.now()}@example.com`;
+}
+
+describe('Staff Accounts', () => {
+  let merchantId: string;
+  let ownerEmail: string;
+  let ownerToken: string;
+
+  // Invite and accept in one go; returns the new member's access token
+  async function addStaff(role: StaffRole): Promise<{ userId: string; email: string; token: string }> {
+    const email = staffEmail();
+    const { token: invitationToken } = inviteStaff(merchantId, { email, role });
+    const { token } = await acceptInvitation({ token: invitationToken, password: PASSWORD });
+    const userId = getActiveSession(verifyToken(token)!.sid, merchantId)!.userId!;
+    return { userId, email, token };
+  }
+
+  beforeAll(async () => {
+    initializeDatabase();
+    const merchant = await createTestMerchant(appDb);
+    merchantId = merchant.id;
+    ownerEmail = merchant.email;
+    ownerToken = startSession(merchantId, ownerEmail).token;
+  });
+
+  describe('Invitations', () => {
+    it('should create a staff account from an invitation', async () => {
+      const email = staffEmail();
+      const invitation = inviteStaff(merchantId, { email, role: 'cashier' }, 1_000);
+
+      expect(invitation).toMatchObject({ email, role: 'cashier', createdAt: 1_000 });
+      expect(listInvitations(merchantId, 2_000).map(pending => pending.invitationId)).toContain(invitation.invitationId);
+
+      const result = await acceptInvitation({ token: invitation.token, password: PASSWORD }, {}, 2_000);
+
+      expect(result).toMatchObject({ merchantId, role: 'cashier' });
+      expect(listStaff(merchantId)).toContainEqual(expect.objectContaining({ email, role: 'cashier' }));
+      expect(listInvitations(merchantId, 2_000).map(pending => pending.invitationId)).not.toContain(invitation.invitationId);
+    });
+
+    it('should store only a hash of the invitation token', () => {
+      const { token } = inviteStaff(merchantId, { email: staffEmail(), role: 'accountant' });
+
+      const stored = appDb.prepare('SELECT token_hash FROM merchant_invitations').all() as { token_hash: string }[];
+      expect(stored.map(row => row.token_hash)).not.toContain(token);
+    });
+
+    it('should accept an invitation only once', async () => {
+      const { token } = inviteStaff(merchantId, { email: staffEmail(), role: 'cashier' });
+      await acceptInvitation({ token, password: PASSWORD });
+
+      await expect(acceptInvitation({ token, password: PASSWORD })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should refuse expired, withdrawn and replaced invitations', async () => {
+      const expired = inviteStaff(merchantId, { email: staffEmail(), role: 'cashier' }, 1_000);
+      const withdrawn = inviteStaff(merchantId, { email: staffEmail(), role: 'cashier' });
+      revokeInvitation(merchantId, withdrawn.invitationId);
+      const email = staffEmail();
+      const replaced = inviteStaff(merchantId, { email, role: 'cashier' });
+      inviteStaff(merchantId, { email, role: 'manager' });
+
+      await expect(acceptInvitation({ token: expired.token, password: PASSWORD })).rejects.toThrow(GoneError);
+      await expect(acceptInvitation({ token: withdrawn.token, password: PASSWORD })).rejects.toThrow(NotFoundError);
+      await expect(acceptInvitation({ token: replaced.token, password: PASSWORD })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should not invite an email that already logs in', async () => {
+      const other = await createTestMerchant(appDb);
+      const { email } = await addStaff('cashier');
+
+      expect(() => inviteStaff(merchantId, { email: other.email, role: 'cashier' })).toThrow(EmailAlreadyRegisteredError);
+      expect(() => inviteStaff(merchantId, { email, role: 'manager' })).toThrow(EmailAlreadyRegisteredError);
+    });
+
+    it('should not let merchants withdraw each other\'s invitations', async () => {
+      const other = await createTestMerchant(appDb);
+      const { invitationId } = inviteStaff(other.id, { email: staffEmail(), role: 'cashier' });
+
+      expect(() => revokeInvitation(merchantId, invitationId)).toThrow(NotFoundError);
+    });
+  });
+
+  describe('Login', () => {
+    it('should log staff in with their own password and role', async () => {
+      const { email } = await addStaff('accountant');
+
+      const result = await login({ email, password: PASSWORD });
+
+      expect(result).toMatchObject({ merchantId, role: 'accountant' });
+      expect(verifyToken(result!.token)!.email).toBe(email);
+      expect(await login({ email, password: 'WrongPassword123!' })).toBeNull();
+    });
+
+    it('should keep each person\'s sessions to themselves', async () => {
+      const { userId, token } = await addStaff('manager');
+      const sessionId = verifyToken(token)!.sid;
+
+      expect(listSessions(merchantId, sessionId, userId).map(session => session.sessionId)).toEqual([sessionId]);
+      expect(listSessions(merchantId).map(session => session.sessionId)).not.toContain(sessionId);
+
+      const ownerSessionId = verifyToken(ownerToken)!.sid;
+      const response = await request(app)
+        .delete(`/api/auth/sessions/${ownerSessionId}`)
+        .set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Permissions', () => {
+    it('should give the owner every permission', () => {
+      expect(hasPermission('owner', 'staff:manage')).toBe(true);
+      expect(hasPermission('owner', 'pgp:manage')).toBe(true);
+      expect(hasPermission('manager', 'staff:manage')).toBe(false);
+    });
+
+    it('should let cashiers create links but not read backups or change the PGP key', async () => {
+      const { token } = await addStaff('cashier');
+      const auth = `Bearer ${token}`;
+
+      const link = await request(app).post('/api/links').set('Authorization', auth).send({ ciphertext: 'cashier-link' });
+      const backups = await request(app).get('/api/backups').set('Authorization', auth);
+      const profile = await request(app).put('/api/merchants/profile').set('Authorization', auth).send({ storeName: 'Mine' });
+
+      expect(link.status).toBe(201);
+      expect(backups.status).toBe(403);
+      expect(backups.body).toEqual({ error: 'Your role does not allow this (backups:read)', code: 'permission_denied' });
+      expect(profile.status).toBe(403);
+    });
+
+    it('should let accountants read backups but not create links', async () => {
+      const { token } = await addStaff('accountant');
+      const auth = `Bearer ${token}`;
+
+      expect((await request(app).get('/api/backups').set('Authorization', auth)).status).toBe(200);
+      expect((await request(app).get('/api/links').set('Authorization', auth)).status).toBe(200);
+      expect((await request(app).post('/api/links').set('Authorization', auth).send({ ciphertext: 'x' })).status).toBe(403);
+    });
+
+    it('should let managers edit the profile but not replace the PGP key or manage staff', async () => {
+      const { token } = await addStaff('manager');
+      const auth = `Bearer ${token}`;
+
+      const profile = await request(app).put('/api/merchants/profile').set('Authorization', auth).send({ storeName: 'Managed' });
+      const pgpKey = await request(app).put('/api/merchants/profile').set('Authorization', auth).send({ pgpPublicKey: TEST_PGP_PUBLIC_KEY });
+      const invite = await request(app).post('/api/staff/invitations').set('Authorization', auth)
+        .send({ email: staffEmail(), role: 'manager' });
+
+      expect(profile.status).toBe(200);
+      expect(pgpKey.status).toBe(403);
+      expect(pgpKey.body.code).toBe('permission_denied');
+      expect(invite.status).toBe(403);
+    });
+
+    it('should apply a role change to the next request', async () => {
+      const { userId, token } = await addStaff('cashier');
+
+      updateStaffRole(merchantId, userId, 'accountant');
+
+      const response = await request(app).get('/api/backups').set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('Removing staff', () => {
+    it('should end the removed member\'s sessions', async () => {
+      const { userId, email, token } = await addStaff('cashier');
+
+      removeStaffMember(merchantId, userId);
+
+      expect(getActiveSession(verifyToken(token)!.sid, merchantId)).toBeNull();
+      expect((await request(app).get('/api/links').set('Authorization', `Bearer ${token}`)).status).toBe(401);
+      expect(await login({ email, password: PASSWORD })).toBeNull();
+    });
+
+    it('should not let merchants remove each other\'s staff', async () => {
+      const other = await createTestMerchant(appDb);
+      const { userId } = await addStaff('cashier');
+
+      expect(() => removeStaffMember(other.id, userId)).toThrow(NotFoundError);
+      expect(() => updateStaffRole(other.id, userId, 'manager')).toThrow(NotFoundError);
+    });
+  });
+
+  describe('Routes', () => {
+    it('should invite, list and accept through the API', async () => {
+      const email = staffEmail();
+      const auth = `Bearer ${ownerToken}`;
+
+      const unconfirmed = await request(app).post('/api/staff/invitations').set('Authorization', auth).send({ email, role: 'cashier' });
+      expect(unconfirmed.status).toBe(403);
+      expect(unconfirmed.body.code).toBe('step_up_required');
+
+      recordStepUp(verifyToken(ownerToken)!.sid);
+      const invited = await request(app).post('/api/staff/invitations').set('Authorization', auth).send({ email, role: 'cashier' });
+      expect(invited.status).toBe(201);
+      expect(invited.body.token).toEqual(expect.any(String));
+
+      const accepted = await request(app).post('/api/staff/invitations/accept')
+        .send({ token: invited.body.token, password: PASSWORD });
+      expect(accepted.status).toBe(201);
+      expect(accepted.body).toMatchObject({ merchantId, role: 'cashier' });
+
+      const staff = await request(app).get('/api/staff').set('Authorization', auth);
+      const member = staff.body.find((entry: { email: string }) => entry.email === email);
+      expect(member).toMatchObject({ role: 'cashier' });
+      expect(member).not.toHaveProperty('passwordHash');
+
+      const changed = await request(app).patch(`/api/staff/${member.userId}`).set('Authorization', auth).send({ role: 'owner' });
+      expect(changed.status).toBe(400);
+      const promoted = await request(app).patch(`/api/staff/${member.userId}`).set('Authorization', auth).send({ role: 'manager' });
+      expect(promoted.body).toMatchObject({ role: 'manager' });
+    });
+
+    it('should require a recent step-up to change a role', async () => {
+      const { userId } = await addStaff('cashier');
+      const session = startSession(merchantId, ownerEmail);
+
+      const response = await request(app).patch(`/api/staff/${userId}`)
+        .set('Authorization', `Bearer ${session.token}`).send({ role: 'manager' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('step_up_required');
+    });
+
+    it('should answer 410 for an expired invitation', async () => {
+      const { token } = inviteStaff(merchantId, { email: staffEmail(), role: 'cashier' }, 1_000);
+
+      const response = await request(app).post('/api/staff/invitations/accept').send({ token, password: PASSWORD });
+
+      expect(response.status).toBe(410);
+      expect(response.body.code).toBe('invitation_expired');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Store Tests
+ * Tests stores, attributing links and backups to them, per-store lists and who may change stores
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import request from 'supertest';
+import { createTestMerchant } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import app from '../../index';
+import { createBackupSchema, listBackupsQuerySchema } from '../../validators/backup.validators';
+import { createLinkSchema, listLinksQuerySchema } from '../../validators/link.validators';
+import { createBackup, listBackups } from '../backup.service';
+import { NotFoundError, ServiceError } from '../errors';
+import { createLink, listLinks } from '../link.service';
+import { updateProfile } from '../merchant.service';
+import { startSession } from '../session.service';
+import { acceptInvitation, inviteStaff } from '../staff.service';
+import { archiveStore, createStore, getStore, listStores, updateStore } from '../store.service';
+
+describe('Stores', () => {
+  let merchantId: string;
+  let ownerToken: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    const merchant = await createTestMerchant(appDb);
+    merchantId = merchant.id;
+    ownerToken = startSession(merchantId, merchant.email).token;
+  });
+
+  describe('Managing stores', () => {
+    it('should default currency and language to the merchant profile', async () => {
+      const merchant = await createTestMerchant(appDb);
+      updateProfile(merchant.id, { currency: 'CAD', language: 'fr' });
+
+      const store = createStore(merchant.id, { name: 'Downtown' });
+
+      expect(store).toMatchObject({ name: 'Downtown', currency: 'CAD', language: 'fr', archivedAt: null });
+      expect(listStores(merchant.id).map(listed => listed.storeId)).toEqual([store.storeId]);
+      expect(listStores(merchantId).map(listed => listed.storeId)).not.toContain(store.storeId);
+    });
+
+    it('should keep each store\'s own wallet, currency and branding', () => {
+      const store = createStore(merchantId, {
+        name: 'Lisbon',
+        descriptorFingerprint: 'a1b2c3d4',
+        currency: 'EUR',
+        language: 'pt',
+        logoUrl: 'https://example.com/logo.png',
+        brandColor: '#ff8800',
+      });
+
+      const updated = updateStore(merchantId, store.storeId, { currency: 'GBP', logoUrl: null }, store.createdAt + 1);
+
+      expect(updated).toMatchObject({
+        descriptorFingerprint: 'a1b2c3d4',
+        currency: 'GBP',
+        language: 'pt',
+        logoUrl: null,
+        brandColor: '#ff8800',
+        updatedAt: store.createdAt + 1,
+      });
+    });
+
+    it('should not let merchants see or change each other\'s stores', async () => {
+      const other = await createTestMerchant(appDb);
+      const { storeId } = createStore(other.id, { name: 'Theirs' });
+
+      expect(() => getStore(merchantId, storeId)).toThrow(NotFoundError);
+      expect(() => updateStore(merchantId, storeId, { name: 'Mine' })).toThrow(NotFoundError);
+      expect(() => archiveStore(merchantId, storeId)).toThrow(NotFoundError);
+    });
+
+    it('should keep the first archive date and refuse later changes', () => {
+      const { storeId } = createStore(merchantId, { name: 'Closing' });
+
+      archiveStore(merchantId, storeId, 1_000);
+      const archived = archiveStore(merchantId, storeId, 2_000);
+
+      expect(archived.archivedAt).toBe(1_000);
+      expect(() => updateStore(merchantId, storeId, { name: 'Reopened' })).toThrow(ServiceError);
+    });
+  });
+
+  describe('Links and backups', () => {
+    it('should attribute links and their backups to a store', () => {
+      const { storeId } = createStore(merchantId, { name: 'Uptown' });
+      const link = createLink(merchantId, createLinkSchema.parse({ ciphertext: 'store-link', storeId }));
+
+      const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', paymentLinkId: link.linkId }));
+
+      expect(link.storeId).toBe(storeId);
+      expect(backup.storeId).toBe(storeId);
+    });
+
+    it('should attribute POS backups to the store the terminal is set up for', () => {
+      const { storeId } = createStore(merchantId, { name: 'Kiosk' });
+
+      const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId, storeId }));
+
+      expect(backup.storeId).toBe(storeId);
+    });
+
+    it('should refuse links for an archived or unknown store, but keep taking backups', () => {
+      const { storeId } = createStore(merchantId, { name: 'Archived' });
+      archiveStore(merchantId, storeId);
+
+      expect(() => createLink(merchantId, createLinkSchema.parse({ ciphertext: 'x', storeId })))
+        .toThrow(expect.objectContaining({ status: 409, code: 'store_archived' }));
+      expect(() => createLink(merchantId, createLinkSchema.parse({ ciphertext: 'x', storeId: 'unknown' })))
+        .toThrow(NotFoundError);
+      expect(createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId, storeId })).storeId).toBe(storeId);
+    });
+
+    it('should refuse backups for another merchant\'s store or another store than the link\'s', async () => {
+      const other = await createTestMerchant(appDb);
+      const { storeId: otherStoreId } = createStore(other.id, { name: 'Theirs' });
+      const { storeId } = createStore(merchantId, { name: 'Ours' });
+      const link = createLink(merchantId, createLinkSchema.parse({ ciphertext: 'store-link', storeId }));
+
+      expect(() => createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', merchantId, storeId: otherStoreId })))
+        .toThrow(NotFoundError);
+      expect(() => createBackup(createBackupSchema.parse({
+        encryptedBackup: 'pgp',
+        paymentLinkId: link.linkId,
+        storeId: otherStoreId,
+      }))).toThrow(NotFoundError);
+    });
+
+    it('should filter lists by store', () => {
+      const { storeId } = createStore(merchantId, { name: 'Filtered' });
+      const link = createLink(merchantId, createLinkSchema.parse({ ciphertext: 'filtered-link', storeId }));
+      createLink(merchantId, createLinkSchema.parse({ ciphertext: 'unattributed-link' }));
+      const backup = createBackup(createBackupSchema.parse({ encryptedBackup: 'pgp', paymentLinkId: link.linkId }));
+
+      const links = listLinks(merchantId, listLinksQuerySchema.parse({ storeId }));
+      const backups = listBackups(merchantId, listBackupsQuerySchema.parse({ storeId }));
+
+      expect(links.data.map(listed => listed.linkId)).toEqual([link.linkId]);
+      expect(backups.data.map(listed => listed.backupId)).toEqual([backup.backupId]);
+    });
+  });
+
+  describe('Routes', () => {
+    it('should create, list and archive stores through the API', async () => {
+      const auth = `Bearer ${ownerToken}`;
+
+      const created = await request(app).post('/api/stores').set('Authorization', auth).send({ name: 'API', currency: 'CAD' });
+      expect(created.status).toBe(201);
+
+      const listed = await request(app).get('/api/stores').set('Authorization', auth);
+      expect(listed.body).toContainEqual(expect.objectContaining({ storeId: created.body.storeId, currency: 'CAD' }));
+
+      const archived = await request(app).delete(`/api/stores/${created.body.storeId}`).set('Authorization', auth);
+      expect(archived.status).toBe(200);
+
+      const link = await request(app).post('/api/links').set('Authorization', auth)
+        .send({ ciphertext: 'x', storeId: created.body.storeId });
+      expect(link.status).toBe(409);
+      expect(link.body.code).toBe('store_archived');
+    });
+
+    it('should reject malformed store details', async () => {
+      const response = await request(app).post('/api/stores').set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'Bad', descriptorFingerprint: 'not-hex', brandColor: 'red' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should let cashiers list stores but not change them', async () => {
+      const { token: invitationToken } = inviteStaff(merchantId, { email: `cashier-${Date.now()}@example.com`, role: 'cashier' });
+      const { token } = await acceptInvitation({ token: invitationToken, password: 'StaffPassword123!' });
+      const auth = `Bearer ${token}`;
+
+      expect((await request(app).get('/api/stores').set('Authorization', auth)).status).toBe(200);
+      expect((await request(app).post('/api/stores').set('Authorization', auth).send({ name: 'Nope' })).status).toBe(403);
+    });
+  });
+});
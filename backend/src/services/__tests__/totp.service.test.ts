@@ -0,0 +1,175 @@
+/**
+ * TOTP Service Tests
+ * Tests for RFC 6238 codes, enrollment, recovery codes and step-up re-authentication
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { db, initializeDatabase } from '../../db/schema';
+import { createTestMerchant } from '../../test/helpers';
+import {
+  confirmTotp,
+  currentTotpStep,
+  disableTotp,
+  generateTotpCode,
+  isTotpEnabled,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+  verifySecondFactor,
+} from '../totp.service';
+import { login, stepUp } from '../auth.service';
+import { assertRecentStepUp, startSession } from '../session.service';
+import { verifyToken } from '../token.service';
+import { ServiceError, UnauthorizedError } from '../errors';
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+function codeFor(secret: string, offset = 0): string {
+  return generateTotpCode(secret, currentTotpStep() + offset);
+}
+
+describe('TOTP Service', () => {
+  describe('generateTotpCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateTotpCode(RFC_SECRET, Math.floor(59 / 30))).toBe('287082');
+      expect(generateTotpCode(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+      expect(generateTotpCode(RFC_SECRET, Math.floor(1234567890 / 30))).toBe('005924');
+      expect(generateTotpCode(RFC_SECRET, Math.floor(2000000000 / 30))).toBe('279037');
+    });
+  });
+
+  describe('Enrollment', () => {
+    let merchantId: string;
+    let email: string;
+    const password = 'TestPassword123!';
+
+    beforeAll(() => {
+      initializeDatabase();
+    });
+
+    beforeEach(async () => {
+      ({ id: merchantId, email } = await createTestMerchant(db, { password }));
+    });
+
+    it('should return an otpauth URI for the pending secret', () => {
+      const { secret, otpauthUri } = startTotpEnrollment(merchantId);
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(otpauthUri).toContain('otpauth://totp/BullPOS%3A');
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect(otpauthUri).toContain('issuer=BullPOS');
+      expect(isTotpEnabled(merchantId)).toBe(false);
+    });
+
+    it('should enable TOTP only after a valid code and return recovery codes', () => {
+      const { secret } = startTotpEnrollment(merchantId);
+
+      expect(() => confirmTotp(merchantId, '000000')).toThrow(UnauthorizedError);
+      const recoveryCodes = confirmTotp(merchantId, codeFor(secret));
+
+      expect(isTotpEnabled(merchantId)).toBe(true);
+      expect(recoveryCodes).toHaveLength(10);
+      expect(new Set(recoveryCodes).size).toBe(10);
+      expect(() => startTotpEnrollment(merchantId)).toThrow(ServiceError);
+    });
+
+    it('should store recovery codes hashed', () => {
+      const { secret } = startTotpEnrollment(merchantId);
+      const recoveryCodes = confirmTotp(merchantId, codeFor(secret));
+
+      const hashes = (db.prepare('SELECT code_hash FROM recovery_codes WHERE merchant_id = ?')
+        .all(merchantId) as { code_hash: string }[]).map(row => row.code_hash);
+
+      expect(hashes).toHaveLength(10);
+      for (const code of recoveryCodes) {
+        expect(hashes).not.toContain(code);
+      }
+    });
+
+    it('should require the second factor at login once enabled', async () => {
+      const { secret } = startTotpEnrollment(merchantId);
+      confirmTotp(merchantId, codeFor(secret));
+
+      await expect(login({ email, password })).rejects.toMatchObject({ status: 401, code: 'totp_required' });
+      await expect(login({ email, password, totpCode: '000000' })).rejects.toThrow(UnauthorizedError);
+
+      const result = await login({ email, password, totpCode: codeFor(secret, 1) });
+      expect(result?.merchantId).toBe(merchantId);
+    });
+
+    it('should not accept the same TOTP code twice', () => {
+      const { secret } = startTotpEnrollment(merchantId);
+      const code = codeFor(secret);
+      confirmTotp(merchantId, code);
+
+      expect(verifySecondFactor(merchantId, { totpCode: code })).toBe(false);
+      expect(verifySecondFactor(merchantId, { totpCode: codeFor(secret, 1) })).toBe(true);
+      expect(verifySecondFactor(merchantId, { totpCode: codeFor(secret, 1) })).toBe(false);
+    });
+
+    it('should accept each recovery code once, in any format', () => {
+      const { secret } = startTotpEnrollment(merchantId);
+      const [first, second] = confirmTotp(merchantId, codeFor(secret));
+
+      expect(verifySecondFactor(merchantId, { recoveryCode: first })).toBe(true);
+      expect(verifySecondFactor(merchantId, { recoveryCode: first })).toBe(false);
+      expect(verifySecondFactor(merchantId, { recoveryCode: second.replace(/-/g, '').toUpperCase() })).toBe(true);
+    });
+
+    it('should invalidate old recovery codes when regenerating', () => {
+      const { secret } = startTotpEnrollment(merchantId);
+      const [oldCode] = confirmTotp(merchantId, codeFor(secret));
+
+      const [newCode] = regenerateRecoveryCodes(merchantId);
+
+      expect(verifySecondFactor(merchantId, { recoveryCode: oldCode })).toBe(false);
+      expect(verifySecondFactor(merchantId, { recoveryCode: newCode })).toBe(true);
+    });
+
+    it('should drop the secret and recovery codes when disabled', async () => {
+      const { secret } = startTotpEnrollment(merchantId);
+      confirmTotp(merchantId, codeFor(secret));
+
+      disableTotp(merchantId);
+
+      expect(isTotpEnabled(merchantId)).toBe(false);
+      expect(db.prepare('SELECT COUNT(*) AS count FROM recovery_codes WHERE merchant_id = ?').get(merchantId))
+        .toEqual({ count: 0 });
+      expect(await login({ email, password })).not.toBeNull();
+    });
+
+    describe('Step-up', () => {
+      it('should require a step-up before sensitive changes', async () => {
+        const sessionId = verifyToken(startSession(merchantId, email).token)!.sid;
+
+        expect(() => assertRecentStepUp(sessionId)).toThrow(ServiceError);
+        await expect(stepUp(merchantId, sessionId, { password: 'WrongPassword!' })).rejects.toThrow(UnauthorizedError);
+
+        const expiresAt = await stepUp(merchantId, sessionId, { password });
+
+        expect(expiresAt).toBeGreaterThan(Date.now());
+        expect(() => assertRecentStepUp(sessionId)).not.toThrow();
+      });
+
+      it('should expire after a few minutes', async () => {
+        const sessionId = verifyToken(startSession(merchantId, email).token)!.sid;
+        await stepUp(merchantId, sessionId, { password });
+
+        db.prepare('UPDATE sessions SET step_up_at = ? WHERE id = ?').run(Date.now() - 10 * 60 * 1000, sessionId);
+
+        expect(() => assertRecentStepUp(sessionId)).toThrow(ServiceError);
+      });
+
+      it('should require the second factor when TOTP is enabled', async () => {
+        const { secret } = startTotpEnrollment(merchantId);
+        confirmTotp(merchantId, codeFor(secret));
+        const sessionId = verifyToken(startSession(merchantId, email).token)!.sid;
+
+        await expect(stepUp(merchantId, sessionId, { password })).rejects.toMatchObject({ code: 'totp_required' });
+        await stepUp(merchantId, sessionId, { password, totpCode: codeFor(secret, 1) });
+
+        expect(() => assertRecentStepUp(sessionId)).not.toThrow();
+      });
+    });
+  });
+});
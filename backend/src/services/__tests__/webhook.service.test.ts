@@ -0,0 +1,340 @@
+/**
+ * Webhook Service Tests
+ * Tests endpoint registration, signing, outbox delivery with retries, attempt
+ * history and redelivery against a local HTTP receiver
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createTestMerchant } from '../../test/helpers';
+import { db as appDb, initializeDatabase } from '../../db/schema';
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  deliverDueWebhooks,
+  emitWebhookEvent,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  redeliverWebhook,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookRetryDelayMs,
+} from '../webhook.service';
+import { createLink, recordLinkEvent, recordLinkUse, updateLinkStatus } from '../link.service';
+import { confirmBackupPayment, createBackup, updateBackup } from '../backup.service';
+import { ForbiddenError, NotFoundError, ServiceError } from '../errors';
+import { createWebhookSchema } from '../../validators/webhook.validators';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook Service', () => {
+  let server: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let merchantId: string;
+  let otherMerchantId: string;
+
+  beforeAll(async () => {
+    initializeDatabase();
+    // The receiver listens on loopback
+    process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES = 'true';
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    responseStatus = 200;
+    ({ id: merchantId } = await createTestMerchant(appDb));
+    ({ id: otherMerchantId } = await createTestMerchant(appDb));
+  });
+
+  function deliveries(endpointId: string) {
+    return listWebhookDeliveries(merchantId, endpointId);
+  }
+
+  describe('Endpoints', () => {
+    it('should return the secret only at registration', () => {
+      const endpoint = createWebhookEndpoint(merchantId, { url: receiverUrl });
+
+      expect(endpoint.secret).toMatch(/^whsec_/);
+      expect(listWebhookEndpoints(merchantId)).toEqual([
+        { endpointId: endpoint.endpointId, url: receiverUrl, events: null, createdAt: endpoint.createdAt },
+      ]);
+    });
+
+    it('should limit the number of endpoints per merchant', () => {
+      for (let i = 0; i < 10; i++) {
+        createWebhookEndpoint(merchantId, { url: receiverUrl });
+      }
+
+      expect(() => createWebhookEndpoint(merchantId, { url: receiverUrl })).toThrow(ServiceError);
+    });
+
+    it('should only let the owner delete an endpoint', () => {
+      const { endpointId } = createWebhookEndpoint(merchantId, { url: receiverUrl });
+
+      expect(() => deleteWebhookEndpoint(otherMerchantId, endpointId)).toThrow(ForbiddenError);
+      deleteWebhookEndpoint(merchantId, endpointId);
+      expect(() => deleteWebhookEndpoint(merchantId, endpointId)).toThrow(NotFoundError);
+    });
+
+    it('should validate URLs and event types', () => {
+      expect(createWebhookSchema.safeParse({ url: 'https://shop.example/hooks', events: ['link.paid'] }).success).toBe(true);
+      expect(createWebhookSchema.safeParse({ url: 'ftp://shop.example/hooks' }).success).toBe(false);
+      expect(createWebhookSchema.safeParse({ url: 'https://shop.example/hooks', events: ['link.deleted'] }).success).toBe(false);
+    });
+  });
+
+  describe('Private addresses', () => {
+    beforeEach(() => {
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES;
+    });
+
+    afterEach(() => {
+      process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES = 'true';
+    });
+
+    it('should refuse to register loopback, link-local and private IP addresses', () => {
+      const urls = [
+        'http://127.0.0.1/hooks',
+        'http://169.254.169.254/latest/meta-data',
+        'https://10.0.0.5/hooks',
+        'https://192.168.1.1/hooks',
+        'https://[::1]/hooks',
+        'https://[fd12::1]/hooks',
+        'https://[::ffff:172.16.0.1]/hooks',
+      ];
+
+      for (const url of urls) {
+        expect(() => createWebhookEndpoint(merchantId, { url }))
+          .toThrow(expect.objectContaining({ status: 400, code: 'webhook_address_not_allowed' }));
+      }
+      expect(createWebhookEndpoint(merchantId, { url: 'https://203.0.113.10/hooks' }).url).toBe('https://203.0.113.10/hooks');
+    });
+
+    it('should not deliver to a hostname that resolves to a private address', async () => {
+      const endpoint = createWebhookEndpoint(merchantId, { url: receiverUrl.replace('127.0.0.1', 'localhost') });
+      emitWebhookEvent(merchantId, 'link.paid', { linkId: 'link1' });
+
+      await deliverDueWebhooks();
+
+      expect(received).toHaveLength(0);
+      const [delivery] = deliveries(endpoint.endpointId);
+      expect(delivery.attempts[0]).toMatchObject({
+        responseStatus: null,
+        error: 'Endpoint resolves to a loopback, link-local or private address',
+      });
+    });
+
+    it('should not deliver to a private IP address registered while private addresses were allowed', async () => {
+      process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES = 'true';
+      const endpoint = createWebhookEndpoint(merchantId, { url: receiverUrl });
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES;
+      emitWebhookEvent(merchantId, 'link.paid', { linkId: 'link1' });
+
+      await deliverDueWebhooks();
+
+      expect(received).toHaveLength(0);
+      expect(deliveries(endpoint.endpointId)[0].attempts[0].error)
+        .toBe('Endpoint resolves to a loopback, link-local or private address');
+    });
+  });
+
+  describe('Signatures', () => {
+    it('should accept a fresh signature and reject tampering or replays', () => {
+      const now = Date.now();
+      const header = signWebhookPayload('whsec_test', Math.floor(now / 1000), '{"a":1}');
+
+      expect(verifyWebhookSignature('whsec_test', header, '{"a":1}', now)).toBe(true);
+      expect(verifyWebhookSignature('whsec_test', header, '{"a":2}', now)).toBe(false);
+      expect(verifyWebhookSignature('whsec_other', header, '{"a":1}', now)).toBe(false);
+      expect(verifyWebhookSignature('whsec_test', header, '{"a":1}', now + 10 * 60 * 1000)).toBe(false);
+      expect(verifyWebhookSignature('whsec_test', 'garbage', '{"a":1}', now)).toBe(false);
+    });
+  });
+
+  describe('Delivery', () => {
+    it('should deliver a signed event to subscribed endpoints', async () => {
+      const endpoint = createWebhookEndpoint(merchantId, { url: receiverUrl });
+
+      expect(emitWebhookEvent(merchantId, 'link.paid', { linkId: 'link1' })).toBe(1);
+      await deliverDueWebhooks();
+
+      expect(received).toHaveLength(1);
+      const [request] = received;
+      expect(request.headers['x-bullpos-event']).toBe('link.paid');
+      expect(verifyWebhookSignature(endpoint.secret, request.headers['x-bullpos-signature'] as string, request.body))
+        .toBe(true);
+      expect(JSON.parse(request.body)).toMatchObject({ type: 'link.paid', data: { linkId: 'link1' } });
+
+      const [delivery] = deliveries(endpoint.endpointId);
+      expect(delivery).toMatchObject({ status: 'delivered', attemptCount: 1, nextAttemptAt: null });
+      expect(delivery.attempts).toMatchObject([{ responseStatus: 200, error: null }]);
+    });
+
+    it('should skip endpoints not subscribed to the event type', () => {
+      createWebhookEndpoint(merchantId, { url: receiverUrl, events: ['link.expired'] });
+
+      expect(emitWebhookEvent(merchantId, 'link.paid', { linkId: 'link1' })).toBe(0);
+    });
+
+    it('should retry failures with exponential backoff and record each attempt', async () => {
+      const { endpointId } = createWebhookEndpoint(merchantId, { url: receiverUrl });
+      emitWebhookEvent(merchantId, 'link.cancelled', { linkId: 'link1' });
+      responseStatus = 500;
+
+      const firstAttemptAt = Date.now();
+      await deliverDueWebhooks(firstAttemptAt);
+      let [delivery] = deliveries(endpointId);
+      expect(delivery).toMatchObject({ status: 'pending', attemptCount: 1 });
+      expect(delivery.nextAttemptAt).toBeGreaterThanOrEqual(firstAttemptAt + webhookRetryDelayMs(1));
+
+      // Not due yet
+      await deliverDueWebhooks(firstAttemptAt + 1000);
+      expect(received).toHaveLength(1);
+
+      await deliverDueWebhooks(delivery.nextAttemptAt!);
+      [delivery] = deliveries(endpointId);
+      expect(delivery.attemptCount).toBe(2);
+      expect(delivery.nextAttemptAt! - delivery.attempts[1].attemptedAt)
+        .toBeGreaterThanOrEqual(webhookRetryDelayMs(2) - 1000);
+      expect(delivery.attempts.map(attempt => attempt.responseStatus)).toEqual([500, 500]);
+    });
+
+    it('should give up after the last attempt', async () => {
+      const { endpointId } = createWebhookEndpoint(merchantId, { url: receiverUrl });
+      emitWebhookEvent(merchantId, 'link.archived', { linkId: 'link1' });
+      responseStatus = 503;
+
+      for (let attempt = 0; attempt < 8; attempt++) {
+        await deliverDueWebhooks(Date.now() + 24 * 60 * 60 * 1000);
+      }
+
+      const [delivery] = deliveries(endpointId);
+      expect(delivery).toMatchObject({ status: 'failed', attemptCount: 8, nextAttemptAt: null });
+      expect(delivery.attempts).toHaveLength(8);
+    });
+
+    it('should not follow redirects', async () => {
+      const { endpointId } = createWebhookEndpoint(merchantId, { url: receiverUrl });
+      emitWebhookEvent(merchantId, 'link.paid', { linkId: 'link1' });
+      responseStatus = 302;
+
+      await deliverDueWebhooks();
+
+      expect(received).toHaveLength(1);
+      const [delivery] = deliveries(endpointId);
+      expect(delivery.status).toBe('pending');
+      expect(delivery.attempts[0]).toMatchObject({
+        responseStatus: 302,
+        error: 'Endpoint redirected with 302; redirects are not followed',
+      });
+    });
+
+    it('should record network errors', async () => {
+      const endpoint = createWebhookEndpoint(merchantId, { url: 'http://127.0.0.1:1/unreachable' });
+      emitWebhookEvent(merchantId, 'link.paid', { linkId: 'link1' });
+
+      await deliverDueWebhooks();
+
+      const [delivery] = deliveries(endpoint.endpointId);
+      expect(delivery.attempts[0]).toMatchObject({ responseStatus: null });
+      expect(delivery.attempts[0].error).toBeTruthy();
+    });
+
+    it('should redeliver on request with a fresh retry budget', async () => {
+      const { endpointId } = createWebhookEndpoint(merchantId, { url: receiverUrl });
+      emitWebhookEvent(merchantId, 'link.paid', { linkId: 'link1' });
+      await deliverDueWebhooks();
+      const [delivered] = deliveries(endpointId);
+
+      const queued = redeliverWebhook(merchantId, delivered.deliveryId);
+      expect(queued).toMatchObject({ status: 'pending', attemptCount: 0, deliveredAt: null });
+
+      await deliverDueWebhooks();
+      expect(received).toHaveLength(2);
+      expect(received[1].body).toBe(received[0].body);
+      expect(deliveries(endpointId)[0].attempts).toHaveLength(2);
+
+      expect(() => redeliverWebhook(otherMerchantId, delivered.deliveryId)).toThrow(NotFoundError);
+    });
+  });
+
+  describe('Triggers', () => {
+    it('should queue link lifecycle and swap events', () => {
+      const { endpointId } = createWebhookEndpoint(merchantId, { url: receiverUrl });
+      const { linkId } = createLink(merchantId, { ciphertext: 'webhook-link', maxUses: 1 });
+
+      recordLinkEvent(linkId, { type: 'swap-created', swapId: 'swap1' });
+      recordLinkEvent(linkId, { type: 'swap-created', swapId: 'swap1' }); // Repeated reports are not re-sent
+      recordLinkUse(linkId);
+      updateLinkStatus(merchantId, linkId, 'archived');
+
+      expect(deliveries(endpointId).map(delivery => delivery.eventType).reverse())
+        .toEqual(['link.swap-created', 'link.paid', 'link.archived']);
+    });
+
+    it('should mark swap progress as reported by the payer', async () => {
+      createWebhookEndpoint(merchantId, { url: receiverUrl, events: ['link.claim-confirmed'] });
+      const { linkId } = createLink(merchantId, { ciphertext: 'reported-link' });
+
+      recordLinkEvent(linkId, { type: 'claim-confirmed', swapId: 'swap1', txid: 'ab'.repeat(32) });
+      await deliverDueWebhooks();
+
+      const reported = received.find(request => JSON.parse(request.body).data.linkId === linkId)!;
+      expect(JSON.parse(reported.body).data).toEqual({
+        linkId,
+        status: 'active',
+        swapId: 'swap1',
+        txid: 'ab'.repeat(32),
+        source: 'payer',
+      });
+    });
+
+    it('should not send link.paid for a payment only reported by the payer', () => {
+      const { endpointId } = createWebhookEndpoint(merchantId, { url: receiverUrl, events: ['link.paid'] });
+      const { linkId } = createLink(merchantId, { ciphertext: 'payer-paid', maxUses: 1 });
+      const { backupId } = createBackup({ encryptedBackup: 'pgp', paymentLinkId: linkId, status: 'pending' });
+
+      updateBackup(backupId, { status: 'invoice_paid' });
+      updateBackup(backupId, { status: 'claimed' });
+      expect(deliveries(endpointId)).toEqual([]);
+
+      confirmBackupPayment(merchantId, backupId);
+      expect(deliveries(endpointId).map(delivery => delivery.eventType)).toEqual(['link.paid']);
+    });
+
+    it('should queue an event when a link expires', () => {
+      const { endpointId } = createWebhookEndpoint(merchantId, { url: receiverUrl, events: ['link.expired'] });
+      const { linkId } = createLink(merchantId, { ciphertext: 'expiring', expiresAt: Date.now() + 60_000 });
+      appDb.prepare('UPDATE encrypted_links SET expires_at = ? WHERE id = ?').run(Date.now() - 1, linkId);
+
+      expect(() => updateLinkStatus(merchantId, linkId, 'cancelled')).toThrow(ServiceError);
+
+      expect(deliveries(endpointId).map(delivery => delivery.eventType)).toEqual(['link.expired']);
+    });
+  });
+});
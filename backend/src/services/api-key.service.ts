@@ -0,0 +1,176 @@
+/**
+ * API keys
+ *
+ * Merchants issue API keys to their own servers, so an integration can create
+ * links without holding a password or a session. A key has the form
+ * `bpk_<prefix>_<secret>`: the prefix finds the key, and only a SHA-256 hash of
+ * the secret is stored. The full key is returned once, when it is created.
+ * A key acts with its scopes, never with a role, and works until revoked.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import { ApiKeyScope, CreateApiKeyInput } from '../validators/api-key.validators';
+import { NotFoundError, ServiceError } from './errors';
+
+const API_KEY_PATTERN = /^bpk_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+const MAX_ACTIVE_API_KEYS = 20;
+
+export interface ApiKey {
+  keyId: string;
+  name: string;
+  prefix: string; // Shown so the merchant can tell keys apart
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+// Returned once when creating; the key is never shown again
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+// Who a request made with a key acts for
+export interface ApiKeyPrincipal {
+  keyId: string;
+  merchantId: string;
+  scopes: ApiKeyScope[];
+}
+
+interface ApiKeyRow {
+  id: string;
+  merchant_id: string;
+  name: string;
+  prefix: string;
+  secret_hash: string;
+  scopes: string;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+function mapRowToApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    keyId: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes.split(',') as ApiKeyScope[],
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Whether a bearer credential is an API key rather than an access token
+ */
+export function isApiKey(credential: string): boolean {
+  return credential.startsWith('bpk_');
+}
+
+/**
+ * Issue a new API key
+ * @throws ServiceError (409) if the merchant already has the maximum number of active keys
+ */
+export function createApiKey(merchantId: string, input: CreateApiKeyInput, now = Date.now()): CreatedApiKey {
+  return db.transaction(() => {
+    const { count } = db.prepare('SELECT COUNT(*) AS count FROM api_keys WHERE merchant_id = ? AND revoked_at IS NULL')
+      .get(merchantId) as { count: number };
+    if (count >= MAX_ACTIVE_API_KEYS) {
+      throw new ServiceError(
+        `A merchant can have at most ${MAX_ACTIVE_API_KEYS} active API keys`,
+        409,
+        'api_key_limit_reached'
+      );
+    }
+
+    const prefix = randomBytes(6).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+    const row: ApiKeyRow = {
+      id: nanoid(),
+      merchant_id: merchantId,
+      name: input.name,
+      prefix,
+      secret_hash: hashSecret(secret),
+      scopes: input.scopes.join(','),
+      created_at: now,
+      last_used_at: null,
+      revoked_at: null,
+    };
+
+    db.prepare(`
+      INSERT INTO api_keys (id, merchant_id, name, prefix, secret_hash, scopes, created_at, last_used_at, revoked_at)
+      VALUES (@id, @merchant_id, @name, @prefix, @secret_hash, @scopes, @created_at, @last_used_at, @revoked_at)
+    `).run(row);
+
+    return { ...mapRowToApiKey(row), key: `bpk_${prefix}_${secret}` };
+  })();
+}
+
+/**
+ * The merchant's API keys, revoked ones included, newest first
+ */
+export function listApiKeys(merchantId: string): ApiKey[] {
+  const rows = db.prepare('SELECT * FROM api_keys WHERE merchant_id = ? ORDER BY created_at DESC, id')
+    .all(merchantId) as ApiKeyRow[];
+
+  return rows.map(mapRowToApiKey);
+}
+
+/**
+ * Revoke a key; requests made with it are refused from then on.
+ * Revoking twice keeps the original date.
+ * @throws NotFoundError if the merchant has no such key
+ */
+export function revokeApiKey(merchantId: string, keyId: string, now = Date.now()): ApiKey {
+  const result = db.prepare('UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ? AND merchant_id = ?')
+    .run(now, keyId, merchantId);
+  if (result.changes === 0) {
+    throw new NotFoundError('API key not found');
+  }
+
+  const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(keyId) as ApiKeyRow;
+  return mapRowToApiKey(row);
+}
+
+/**
+ * Check an API key and record that it was used
+ * @returns null if the key is malformed, unknown or revoked
+ */
+export function verifyApiKey(key: string, now = Date.now()): ApiKeyPrincipal | null {
+  const match = API_KEY_PATTERN.exec(key);
+  if (!match) {
+    return null;
+  }
+
+  const [, prefix, secret] = match;
+  const row = db.prepare('SELECT * FROM api_keys WHERE prefix = ? AND revoked_at IS NULL').get(prefix) as ApiKeyRow | undefined;
+  if (!row || !timingSafeEqual(Buffer.from(hashSecret(secret)), Buffer.from(row.secret_hash))) {
+    return null;
+  }
+
+  db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(now, row.id);
+  return { keyId: row.id, merchantId: row.merchant_id, scopes: mapRowToApiKey(row).scopes };
+}
+
+/**
+ * Whether a key can still be used, e.g. to end a long-lived stream once it is revoked
+ */
+export function isApiKeyActive(keyId: string): boolean {
+  return db.prepare('SELECT 1 FROM api_keys WHERE id = ? AND revoked_at IS NULL').get(keyId) !== undefined;
+}
+
+/**
+ * Current scopes of a key, for long-lived requests that check them again
+ * @returns null if the key is unknown or revoked
+ */
+export function getActiveApiKeyScopes(keyId: string): ApiKeyScope[] | null {
+  const row = db.prepare('SELECT * FROM api_keys WHERE id = ? AND revoked_at IS NULL').get(keyId) as ApiKeyRow | undefined;
+  return row ? mapRowToApiKey(row).scopes : null;
+}
@@ -0,0 +1,147 @@
+import * as bcrypt from 'bcryptjs';
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import { LoginInput, RegisterInput, StepUpInput } from '../validators/auth.validators';
+import { ServiceError, UnauthorizedError } from './errors';
+import { MerchantRole } from './permissions';
+import { insertPgpKey, validatePgpPublicKey } from './pgp-key.service';
+import { recordStepUp, SessionContext, startSession, TokenPair } from './session.service';
+import { assertSecondFactor } from './totp.service';
+
+export const BCRYPT_ROUNDS = 10;
+
+// Compared against when the email is unknown, so login takes the same time either way
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('bullpos-dummy-password', BCRYPT_ROUNDS);
+
+export interface AuthResult extends TokenPair {
+  merchantId: string;
+  role: MerchantRole;
+}
+
+export class EmailAlreadyRegisteredError extends ServiceError {
+  constructor() {
+    super('Email already registered', 409);
+    this.name = 'EmailAlreadyRegisteredError';
+  }
+}
+
+interface StaffCredentialsRow {
+  id: string;
+  merchant_id: string;
+  email: string;
+  password_hash: string;
+  role: MerchantRole;
+}
+
+export function isUniqueConstraintError(error: unknown): boolean {
+  return (error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE';
+}
+
+/**
+ * Whether an email already logs in, as an owner or a staff member
+ */
+export function isEmailRegistered(email: string): boolean {
+  return db.prepare(`
+    SELECT 1 FROM merchants WHERE email = ?
+    UNION ALL
+    SELECT 1 FROM merchant_users WHERE email = ?
+  `).get(email, email) !== undefined;
+}
+
+export async function registerMerchant(input: RegisterInput, context: SessionContext = {}): Promise<AuthResult> {
+  if (isEmailRegistered(input.email)) {
+    throw new EmailAlreadyRegisteredError();
+  }
+
+  const fingerprint = await validatePgpPublicKey(input.pgpPublicKey);
+  const merchantId = nanoid();
+  const passwordHash = await bcrypt.hash(input.password, BCRYPT_ROUNDS);
+  const now = Date.now();
+
+  try {
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO merchants (id, email, password_hash, pgp_public_key, store_name, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(merchantId, input.email, passwordHash, input.pgpPublicKey, input.storeName ?? null, now, now);
+      insertPgpKey(merchantId, fingerprint, input.pgpPublicKey, now);
+    })();
+  } catch (error) {
+    // Another registration for the same email won the race while we were hashing
+    if (isUniqueConstraintError(error)) {
+      throw new EmailAlreadyRegisteredError();
+    }
+    throw error;
+  }
+
+  return { ...startSession(merchantId, input.email, context), merchantId, role: 'owner' };
+}
+
+function getStaffCredentials(where: string, value: string): StaffCredentialsRow | undefined {
+  return db.prepare(`SELECT id, merchant_id, email, password_hash, role FROM merchant_users WHERE ${where} = ?`)
+    .get(value) as StaffCredentialsRow | undefined;
+}
+
+/**
+ * Check credentials and start a new session, for the owner or a staff member
+ * @returns null if the email is unknown or the password is wrong
+ * @throws ServiceError (401) if the owner has TOTP enabled and the second factor is missing or wrong
+ */
+export async function login(input: LoginInput, context: SessionContext = {}): Promise<AuthResult | null> {
+  const merchant = db.prepare('SELECT id, email, password_hash FROM merchants WHERE email = ?')
+    .get(input.email) as { id: string; email: string; password_hash: string } | undefined;
+  const staff = merchant ? undefined : getStaffCredentials('email', input.email);
+
+  const passwordHash = merchant?.password_hash ?? staff?.password_hash ?? DUMMY_PASSWORD_HASH;
+  if (!(await bcrypt.compare(input.password, passwordHash))) {
+    return null;
+  }
+
+  if (staff) {
+    const tokens = startSession(staff.merchant_id, staff.email, context, staff.id);
+    return { ...tokens, merchantId: staff.merchant_id, role: staff.role };
+  }
+  if (!merchant) {
+    return null;
+  }
+
+  assertSecondFactor(merchant.id, input);
+
+  return { ...startSession(merchant.id, merchant.email, context), merchantId: merchant.id, role: 'owner' };
+}
+
+/**
+ * Check the password again, and the owner's second factor if enabled
+ * @param userId - Staff member re-authenticating; omitted for the owner
+ * @throws UnauthorizedError if the password or second factor is wrong
+ */
+export async function confirmCredentials(merchantId: string, input: StepUpInput, userId: string | null = null): Promise<void> {
+  const account = userId === null
+    ? db.prepare('SELECT password_hash FROM merchants WHERE id = ?').get(merchantId) as { password_hash: string } | undefined
+    : getStaffCredentials('id', userId);
+
+  if (!account || !(await bcrypt.compare(input.password, account.password_hash))) {
+    throw new UnauthorizedError('Invalid password');
+  }
+
+  if (userId === null) {
+    assertSecondFactor(merchantId, input);
+  }
+}
+
+/**
+ * Re-authenticate the current session before a sensitive change
+ * @param userId - Staff member re-authenticating; omitted for the owner
+ * @returns When the step-up expires
+ * @throws UnauthorizedError if the password or second factor is wrong
+ */
+export async function stepUp(
+  merchantId: string,
+  sessionId: string,
+  input: StepUpInput,
+  userId: string | null = null
+): Promise<number> {
+  await confirmCredentials(merchantId, input, userId);
+
+  return recordStepUp(sessionId);
+}
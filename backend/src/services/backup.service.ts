@@ -0,0 +1,412 @@
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import {
+  BackupStatus,
+  CreateBackupInput,
+  ListBackupsQuery,
+  listBackupsQuerySchema,
+  ReencryptBackupInput,
+  UpdateBackupInput,
+} from '../validators/backup.validators';
+import { Page, paginate } from '../db/pagination';
+import { ForbiddenError, NotFoundError, ServiceError } from './errors';
+import { assertLinkPayable, recordLinkUse } from './link.service';
+import { assertPgpKeyAccepted, getCurrentPgpKeyFingerprint } from './pgp-key.service';
+import { getStore } from './store.service';
+
+export interface BackupSummary {
+  backupId: string;
+  storeId: string | null; // Store the swap was made at, if any
+  paymentLinkId: string | null;
+  status: BackupStatus;
+  version: number; // Revision of the ciphertext, starting at 1
+  keyFingerprint: string | null; // PGP key it is encrypted to; null for backups older than the key history
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Backup extends BackupSummary {
+  encryptedBackup: string;
+}
+
+export interface BackupVersion {
+  version: number;
+  encryptedBackup: string;
+  keyFingerprint: string | null;
+  createdAt: number;
+}
+
+interface BackupRow {
+  id: string;
+  merchant_id: string;
+  store_id: string | null;
+  encrypted_link_id: string | null;
+  encrypted_backup: string;
+  status: BackupStatus;
+  version: number;
+  key_fingerprint: string | null;
+  paid_at: number | null; // When the merchant confirmed the payment, counting it against the link
+  created_at: number;
+  updated_at: number;
+}
+
+interface BackupVersionRow {
+  version: number;
+  encrypted_backup: string;
+  key_fingerprint: string | null;
+  created_at: number;
+}
+
+// Swap progress the paying browser may report; claimed, refunded and recovered are final.
+// A pending swap can be recovered directly, as the payer's browser may have closed before reporting the payment.
+const STATUS_TRANSITIONS: Record<BackupStatus, BackupStatus[]> = {
+  pending: ['invoice_paid', 'failed', 'recovered'],
+  invoice_paid: ['claimed', 'failed', 'refunded', 'recovered'],
+  failed: ['refunded', 'recovered'],
+  claimed: [],
+  refunded: [],
+  recovered: [],
+};
+
+// States in which the payer's money has reached the swap, so the merchant may count it as a use of the link
+const PAID_STATUSES: BackupStatus[] = ['invoice_paid', 'claimed', 'recovered'];
+
+function mapRowToSummary(row: Omit<BackupRow, 'encrypted_backup' | 'paid_at'>): BackupSummary {
+  return {
+    backupId: row.id,
+    storeId: row.store_id,
+    paymentLinkId: row.encrypted_link_id,
+    status: row.status,
+    version: row.version,
+    keyFingerprint: row.key_fingerprint,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapRowToBackup(row: BackupRow): Backup {
+  return {
+    ...mapRowToSummary(row),
+    encryptedBackup: row.encrypted_backup,
+  };
+}
+
+function getBackupRow(backupId: string): BackupRow | undefined {
+  const stmt = db.prepare(`
+    SELECT id, merchant_id, store_id, encrypted_link_id, encrypted_backup, status, version, key_fingerprint, paid_at,
+           created_at, updated_at
+    FROM backups
+    WHERE id = ?
+  `);
+
+  return stmt.get(backupId) as BackupRow | undefined;
+}
+
+function getOwnedBackupRow(merchantId: string, backupId: string): BackupRow {
+  const row = getBackupRow(backupId);
+  if (!row) {
+    throw new NotFoundError('Backup not found');
+  }
+  if (row.merchant_id !== merchantId) {
+    throw new ForbiddenError('Backup belongs to another merchant');
+  }
+  return row;
+}
+
+/**
+ * Work out which merchant and store a new backup belongs to; a backup for a
+ * link belongs to the link's store
+ * @throws NotFoundError if the link, merchant or store does not exist, or they do not match
+ * @throws GoneError if the link can no longer be paid
+ */
+function resolveBackupOwner(input: CreateBackupInput): { merchantId: string; storeId: string | null } {
+  if (input.paymentLinkId !== undefined) {
+    const link = assertLinkPayable(input.paymentLinkId);
+
+    // A mismatched merchantId or storeId is reported the same way, so link IDs cannot be probed
+    if ((input.merchantId !== undefined && input.merchantId !== link.merchantId)
+      || (input.storeId !== undefined && input.storeId !== link.storeId)) {
+      throw new NotFoundError('Payment link not found');
+    }
+    return link;
+  }
+
+  const merchant = db.prepare('SELECT id FROM merchants WHERE id = ?').get(input.merchantId);
+  if (!merchant) {
+    throw new NotFoundError('Merchant not found');
+  }
+  // Archived stores are accepted: a terminal still set up for one must not lose its backups
+  if (input.storeId !== undefined) {
+    getStore(input.merchantId!, input.storeId);
+  }
+  return { merchantId: input.merchantId!, storeId: input.storeId ?? null };
+}
+
+/**
+ * Work out which of the merchant's keys a new backup is encrypted to
+ * @throws ServiceError (409) if the given key is unknown or retired
+ */
+function resolveBackupKey(merchantId: string, keyFingerprint: string | undefined): string | null {
+  if (keyFingerprint === undefined) {
+    return getCurrentPgpKeyFingerprint(merchantId);
+  }
+  assertPgpKeyAccepted(merchantId, keyFingerprint);
+  return keyFingerprint;
+}
+
+function insertBackupVersion(
+  backupId: string,
+  version: number,
+  encryptedBackup: string,
+  keyFingerprint: string | null,
+  createdAt: number
+): void {
+  db.prepare(`
+    INSERT INTO swap_backup_versions (backup_id, version, encrypted_backup, key_fingerprint, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(backupId, version, encryptedBackup, keyFingerprint, createdAt);
+}
+
+/**
+ * Store a PGP-encrypted swap backup (public: uploaded by the paying browser).
+ * Backups always start out pending; progress is reported afterwards through
+ * updateBackup.
+ */
+export function createBackup(input: CreateBackupInput): Backup {
+  return db.transaction(() => {
+    const now = Date.now();
+    const { merchantId, storeId } = resolveBackupOwner(input);
+    const row: BackupRow = {
+      id: nanoid(),
+      merchant_id: merchantId,
+      store_id: storeId,
+      encrypted_link_id: input.paymentLinkId ?? null,
+      encrypted_backup: input.encryptedBackup,
+      status: input.status,
+      version: 1,
+      key_fingerprint: resolveBackupKey(merchantId, input.keyFingerprint),
+      paid_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    db.prepare(`
+      INSERT INTO backups (
+        id, merchant_id, store_id, encrypted_link_id, encrypted_backup, status, version, key_fingerprint, paid_at,
+        created_at, updated_at
+      )
+      VALUES (
+        @id, @merchant_id, @store_id, @encrypted_link_id, @encrypted_backup, @status, @version, @key_fingerprint,
+        @paid_at, @created_at, @updated_at
+      )
+    `).run(row);
+    insertBackupVersion(row.id, row.version, row.encrypted_backup, row.key_fingerprint, now);
+
+    return mapRowToBackup(row);
+  })();
+}
+
+/**
+ * Record swap progress and/or store a new revision of the ciphertext (public:
+ * reported by the paying browser). Earlier revisions are kept, never overwritten.
+ * Reporting the current status again is a no-op. Reports are not trusted: they
+ * never count against a link's uses (see confirmBackupPayment). Revisions stay
+ * encrypted to the key the backup was created with.
+ * @throws NotFoundError if the backup does not exist
+ * @throws ServiceError (409) if the status change is not allowed, the swap has
+ * finished and the ciphertext can no longer change, or the backup has since been
+ * re-encrypted to another key
+ */
+export function updateBackup(backupId: string, input: UpdateBackupInput): BackupSummary {
+  return db.transaction(() => {
+    const row = getBackupRow(backupId);
+    if (!row) {
+      throw new NotFoundError('Backup not found');
+    }
+    const keyChanged = row.key_fingerprint !== null && input.keyFingerprint !== undefined
+      && input.keyFingerprint !== row.key_fingerprint;
+    if (keyChanged) {
+      throw new ServiceError('Backup is encrypted to another key', 409, 'key_mismatch');
+    }
+
+    const status = input.status ?? row.status;
+    if (status !== row.status && !STATUS_TRANSITIONS[row.status].includes(status)) {
+      throw new ServiceError(`Cannot change a ${row.status} backup to ${status}`, 409, 'invalid_transition');
+    }
+
+    const revised = input.encryptedBackup !== undefined && input.encryptedBackup !== row.encrypted_backup;
+    if (revised && STATUS_TRANSITIONS[row.status].length === 0) {
+      throw new ServiceError(`Cannot revise a ${row.status} backup`, 409, 'backup_finalized');
+    }
+    if (status === row.status && !revised) {
+      return mapRowToSummary(row);
+    }
+
+    const now = Date.now();
+    const version = revised ? row.version + 1 : row.version;
+
+    if (revised) {
+      insertBackupVersion(backupId, version, input.encryptedBackup!, row.key_fingerprint, now);
+    }
+    db.prepare(`
+      UPDATE backups
+      SET status = ?, encrypted_backup = ?, version = ?, updated_at = ?
+      WHERE id = ?
+    `).run(status, revised ? input.encryptedBackup : row.encrypted_backup, version, now, backupId);
+
+    return mapRowToSummary(getBackupRow(backupId)!);
+  })();
+}
+
+/**
+ * Confirm, as the merchant, that a backup's swap was paid, counting it against
+ * the link's uses. Each backup counts once; confirming it again is a no-op.
+ * @throws NotFoundError if the backup does not exist
+ * @throws ForbiddenError if the backup belongs to another merchant
+ * @throws ServiceError (409) if the swap has not been paid
+ */
+export function confirmBackupPayment(merchantId: string, backupId: string): BackupSummary {
+  return db.transaction(() => {
+    const row = getOwnedBackupRow(merchantId, backupId);
+    if (!PAID_STATUSES.includes(row.status)) {
+      throw new ServiceError(`Cannot confirm payment of a ${row.status} backup`, 409, 'backup_not_paid');
+    }
+    if (row.paid_at !== null) {
+      return mapRowToSummary(row);
+    }
+
+    db.prepare('UPDATE backups SET paid_at = ? WHERE id = ?').run(Date.now(), backupId);
+    if (row.encrypted_link_id !== null) {
+      recordLinkUse(row.encrypted_link_id);
+    }
+
+    return mapRowToSummary(row);
+  })();
+}
+
+/**
+ * Store a revision of the backup encrypted to the merchant's current key, so
+ * the key it was encrypted to before can be retired. The merchant decrypts and
+ * re-encrypts the backup locally; the server never sees the plaintext.
+ * Uploading the same ciphertext for the same key again is a no-op.
+ * @throws NotFoundError if the backup does not exist
+ * @throws ForbiddenError if the backup belongs to another merchant
+ * @throws ServiceError (409) if the key is not the current one, or the swap has finished
+ */
+export function reencryptBackup(merchantId: string, backupId: string, input: ReencryptBackupInput): BackupSummary {
+  return db.transaction(() => {
+    const row = getOwnedBackupRow(merchantId, backupId);
+
+    if (input.keyFingerprint !== getCurrentPgpKeyFingerprint(merchantId)) {
+      throw new ServiceError('Backups can only be re-encrypted to the current key', 409, 'key_not_current');
+    }
+    if (STATUS_TRANSITIONS[row.status].length === 0) {
+      throw new ServiceError(`Cannot revise a ${row.status} backup`, 409, 'backup_finalized');
+    }
+    if (row.key_fingerprint === input.keyFingerprint && row.encrypted_backup === input.encryptedBackup) {
+      return mapRowToSummary(row);
+    }
+
+    const now = Date.now();
+    const version = row.version + 1;
+    insertBackupVersion(backupId, version, input.encryptedBackup, input.keyFingerprint, now);
+    db.prepare(`
+      UPDATE backups
+      SET encrypted_backup = ?, key_fingerprint = ?, version = ?, updated_at = ?
+      WHERE id = ?
+    `).run(input.encryptedBackup, input.keyFingerprint, version, now, backupId);
+
+    return mapRowToSummary(getBackupRow(backupId)!);
+  })();
+}
+
+const BACKUP_SORT_COLUMNS: Record<ListBackupsQuery['sort'], string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+/**
+ * List a merchant's backups one page at a time, without their payloads
+ * @param query - Cursor, page size, sort and filters (defaults: newest first, 50 per page)
+ * @throws ServiceError (400) if the cursor does not belong to this sort
+ */
+export function listBackups(
+  merchantId: string,
+  query: ListBackupsQuery = listBackupsQuerySchema.parse({})
+): Page<BackupSummary> {
+  const where = ['merchant_id = ?'];
+  const params: unknown[] = [merchantId];
+
+  if (query.status) {
+    where.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+    params.push(...query.status);
+  }
+  if (query.createdAfter !== undefined) {
+    where.push('created_at >= ?');
+    params.push(query.createdAfter);
+  }
+  if (query.createdBefore !== undefined) {
+    where.push('created_at < ?');
+    params.push(query.createdBefore);
+  }
+  if (query.storeId !== undefined) {
+    where.push('store_id = ?');
+    params.push(query.storeId);
+  }
+  if (query.paymentLinkId !== undefined) {
+    where.push('encrypted_link_id = ?');
+    params.push(query.paymentLinkId);
+  }
+  if (query.keyFingerprint !== undefined) {
+    where.push('key_fingerprint = ?');
+    params.push(query.keyFingerprint);
+  }
+
+  const page = paginate<Omit<BackupRow, 'encrypted_backup' | 'paid_at'>>({
+    from: `
+      SELECT id, merchant_id, store_id, encrypted_link_id, status, version, key_fingerprint, created_at, updated_at
+      FROM backups
+    `,
+    where,
+    params,
+    sort: query.sort,
+    sortColumn: BACKUP_SORT_COLUMNS[query.sort],
+    order: query.order,
+    limit: query.limit,
+    cursor: query.cursor,
+  });
+
+  return { ...page, data: page.data.map(mapRowToSummary) };
+}
+
+/**
+ * Fetch a merchant's backup including the encrypted payload
+ * @throws NotFoundError if the backup does not exist
+ * @throws ForbiddenError if the backup belongs to another merchant
+ */
+export function getBackup(merchantId: string, backupId: string): Backup {
+  return mapRowToBackup(getOwnedBackupRow(merchantId, backupId));
+}
+
+/**
+ * List every revision of a merchant's backup, oldest first
+ * @throws NotFoundError if the backup does not exist
+ * @throws ForbiddenError if the backup belongs to another merchant
+ */
+export function listBackupVersions(merchantId: string, backupId: string): BackupVersion[] {
+  getOwnedBackupRow(merchantId, backupId);
+
+  const rows = db.prepare(`
+    SELECT version, encrypted_backup, key_fingerprint, created_at
+    FROM swap_backup_versions
+    WHERE backup_id = ?
+    ORDER BY version
+  `).all(backupId) as BackupVersionRow[];
+
+  return rows.map(row => ({
+    version: row.version,
+    encryptedBackup: row.encrypted_backup,
+    keyFingerprint: row.key_fingerprint,
+    createdAt: row.created_at,
+  }));
+}
@@ -0,0 +1,52 @@
+/**
+ * Errors thrown by services, each carrying the HTTP status the routes answer with
+ * (see middleware/error-handler)
+ */
+
+export class ServiceError extends Error {
+  /**
+   * @param code - Machine-readable reason, for clients that need to react to a specific error
+   */
+  constructor(message: string, readonly status: number, readonly code?: string) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
+
+export class NotFoundError extends ServiceError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ForbiddenError extends ServiceError {
+  constructor(message: string) {
+    super(message, 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class UnauthorizedError extends ServiceError {
+  constructor(message: string) {
+    super(message, 401);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class GoneError extends ServiceError {
+  constructor(message: string, code?: string) {
+    super(message, 410, code);
+    this.name = 'GoneError';
+  }
+}
+
+export class PermissionDeniedError extends ServiceError {
+  /**
+   * @param holder - Who lacks the permission, e.g. 'This API key'
+   */
+  constructor(readonly permission: string, holder = 'Your role') {
+    super(`${holder} does not allow this (${permission})`, 403, 'permission_denied');
+    this.name = 'PermissionDeniedError';
+  }
+}
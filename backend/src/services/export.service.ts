@@ -0,0 +1,175 @@
+/**
+ * Merchant data export
+ *
+ * Everything stored for a merchant, written as newline-delimited JSON records
+ * ({ type, data }) and produced lazily, page by page, so a large account is
+ * never held in memory. The last record signs the SHA-256 digest of every
+ * line before it with the server's Ed25519 export key.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject, sign, verify } from 'crypto';
+import { Readable } from 'stream';
+import { MAX_PAGE_SIZE } from '../validators/pagination.validators';
+import { listBackupsQuerySchema } from '../validators/backup.validators';
+import { listLinksQuerySchema } from '../validators/link.validators';
+import { Backup, BackupVersion, getBackup, listBackups, listBackupVersions } from './backup.service';
+import { NotFoundError } from './errors';
+import { LinkEvent, listLinkEvents, listLinks, MerchantLink } from './link.service';
+import { LinkStatusEvent, listLinkStatusEventsSince } from './link-stream.service';
+import { getProfile, MerchantProfile } from './merchant.service';
+import { listPgpKeys, PgpKey } from './pgp-key.service';
+import { listInvitations, listStaff, StaffInvitation, StaffMember } from './staff.service';
+import { listStores, Store } from './store.service';
+import { ApiKey, listApiKeys } from './api-key.service';
+
+// Validate EXPORT_SIGNING_KEY at module load, like JWT_SECRET
+if (!process.env.EXPORT_SIGNING_KEY && process.env.NODE_ENV === 'production') {
+  throw new Error('EXPORT_SIGNING_KEY environment variable must be set in production');
+}
+
+// PKCS#8 PEM Ed25519 key; development servers sign with a key that changes on every restart
+const signingKey: KeyObject = process.env.EXPORT_SIGNING_KEY
+  ? createPrivateKey(process.env.EXPORT_SIGNING_KEY)
+  : generateKeyPairSync('ed25519').privateKey;
+const verificationKey = createPublicKey(signingKey);
+
+export const EXPORT_FORMAT = 'bullpos-export';
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ExportRecord =
+  | { type: 'header'; data: { format: string; version: number; merchantId: string; exportedAt: number } }
+  | { type: 'profile'; data: MerchantProfile }
+  | { type: 'pgp-key'; data: PgpKey }
+  | { type: 'staff-member'; data: StaffMember }
+  | { type: 'staff-invitation'; data: StaffInvitation }
+  | { type: 'store'; data: Store }
+  | { type: 'api-key'; data: ApiKey }
+  | { type: 'link'; data: MerchantLink }
+  | { type: 'link-event'; data: LinkEvent & { linkId: string } }
+  | { type: 'link-status-event'; data: LinkStatusEvent }
+  | { type: 'backup'; data: Backup }
+  | { type: 'backup-version'; data: BackupVersion & { backupId: string } }
+  | { type: 'signature'; data: ExportSignature };
+
+export interface ExportSignature {
+  algorithm: 'Ed25519';
+  sha256: string; // Hex digest of every preceding line, newlines included
+  signature: string; // Base64 Ed25519 signature of the raw digest
+}
+
+/**
+ * Public key that verifies export signatures (SPKI PEM)
+ */
+export function getExportPublicKey(): string {
+  return verificationKey.export({ type: 'spki', format: 'pem' }).toString();
+}
+
+function* exportRecords(profile: MerchantProfile, exportedAt: number): Generator<ExportRecord> {
+  const merchantId = profile.id;
+  yield { type: 'header', data: { format: EXPORT_FORMAT, version: EXPORT_FORMAT_VERSION, merchantId, exportedAt } };
+  yield { type: 'profile', data: profile };
+  for (const key of listPgpKeys(merchantId)) {
+    yield { type: 'pgp-key', data: key };
+  }
+  for (const member of listStaff(merchantId)) {
+    yield { type: 'staff-member', data: member };
+  }
+  for (const invitation of listInvitations(merchantId, exportedAt)) {
+    yield { type: 'staff-invitation', data: invitation };
+  }
+  for (const store of listStores(merchantId)) {
+    yield { type: 'store', data: store };
+  }
+  for (const key of listApiKeys(merchantId)) {
+    yield { type: 'api-key', data: key };
+  }
+
+  let cursor: string | undefined;
+  do {
+    const page = listLinks(merchantId, listLinksQuerySchema.parse({ order: 'asc', limit: MAX_PAGE_SIZE, cursor }));
+    for (const link of page.data) {
+      yield { type: 'link', data: link };
+      for (const event of listLinkEvents(merchantId, link.linkId)) {
+        yield { type: 'link-event', data: { ...event, linkId: link.linkId } };
+      }
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  let lastEventId = 0;
+  for (;;) {
+    const events = listLinkStatusEventsSince(merchantId, lastEventId);
+    if (events.length === 0) {
+      break;
+    }
+    for (const event of events) {
+      yield { type: 'link-status-event', data: event };
+    }
+    lastEventId = events[events.length - 1].eventId;
+  }
+
+  cursor = undefined;
+  do {
+    const page = listBackups(merchantId, listBackupsQuerySchema.parse({ order: 'asc', limit: MAX_PAGE_SIZE, cursor }));
+    for (const { backupId } of page.data) {
+      yield { type: 'backup', data: getBackup(merchantId, backupId) };
+      for (const version of listBackupVersions(merchantId, backupId)) {
+        yield { type: 'backup-version', data: { ...version, backupId } };
+      }
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+function* signedLines(records: Iterable<ExportRecord>): Generator<string> {
+  const hash = createHash('sha256');
+  for (const record of records) {
+    const line = `${JSON.stringify(record)}\n`;
+    hash.update(line);
+    yield line;
+  }
+
+  const digest = hash.digest();
+  const signature: ExportSignature = {
+    algorithm: 'Ed25519',
+    sha256: digest.toString('hex'),
+    signature: sign(null, digest, signingKey).toString('base64'),
+  };
+  yield `${JSON.stringify({ type: 'signature', data: signature })}\n`;
+}
+
+/**
+ * Stream a merchant's signed export archive
+ * @throws NotFoundError if the merchant does not exist
+ */
+export function createExportArchive(merchantId: string, now = Date.now()): Readable {
+  const profile = getProfile(merchantId);
+  if (!profile) {
+    throw new NotFoundError('Merchant not found');
+  }
+
+  // Pulled one line at a time, so each page is only read once the client keeps up
+  return Readable.from(signedLines(exportRecords(profile, now)), { objectMode: false });
+}
+
+/**
+ * Check that an archive is complete and was signed with the given key
+ * @param publicKey - SPKI PEM key (default: this server's)
+ */
+export function verifyExportArchive(archive: string, publicKey: string = getExportPublicKey()): boolean {
+  const end = archive.lastIndexOf('\n', archive.length - 2) + 1;
+  let signature: ExportSignature;
+  try {
+    const record = JSON.parse(archive.slice(end)) as ExportRecord;
+    if (record.type !== 'signature') {
+      return false;
+    }
+    signature = record.data;
+  } catch {
+    return false;
+  }
+
+  const digest = createHash('sha256').update(archive.slice(0, end)).digest();
+  return digest.toString('hex') === signature.sha256
+    && verify(null, digest, publicKey, Buffer.from(signature.signature, 'base64'));
+}
@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { db } from '../db/schema';
+import { ServiceError } from './errors';
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export type IdempotencyStart =
+  | { replay: false }
+  | { replay: true; statusCode: number; body: unknown };
+
+interface IdempotencyRow {
+  fingerprint: string;
+  status_code: number | null;
+  response_body: string | null;
+  expires_at: number;
+}
+
+// JSON with object keys sorted, so the same body always hashes the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fingerprint a request, so a key reused for a different request can be detected
+ */
+export function requestFingerprint(method: string, path: string, body: unknown): string {
+  return createHash('sha256').update(`${method.toUpperCase()} ${path}\n${canonicalJson(body)}`).digest('hex');
+}
+
+/**
+ * Claim an idempotency key for a request, or find the response to replay
+ * @param scope - Endpoint and caller the key is valid for
+ * @throws ServiceError (409) if the key was used for a different request, or the
+ *   first request with it is still being handled
+ */
+export function beginIdempotentRequest(scope: string, key: string, fingerprint: string): IdempotencyStart {
+  const now = Date.now();
+
+  return db.transaction((): IdempotencyStart => {
+    db.prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?').run(now);
+
+    const existing = db.prepare(`
+      SELECT fingerprint, status_code, response_body, expires_at
+      FROM idempotency_keys
+      WHERE scope = ? AND key = ?
+    `).get(scope, key) as IdempotencyRow | undefined;
+
+    if (!existing) {
+      db.prepare(`
+        INSERT INTO idempotency_keys (scope, key, fingerprint, created_at, expires_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(scope, key, fingerprint, now, now + IDEMPOTENCY_TTL_MS);
+      return { replay: false };
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new ServiceError(
+        'Idempotency-Key was already used for a different request',
+        409,
+        'idempotency_key_reused'
+      );
+    }
+    if (existing.status_code === null) {
+      throw new ServiceError(
+        'A request with this Idempotency-Key is still being processed',
+        409,
+        'idempotency_key_in_progress'
+      );
+    }
+
+    return {
+      replay: true,
+      statusCode: existing.status_code,
+      body: existing.response_body === null ? null : JSON.parse(existing.response_body),
+    };
+  })();
+}
+
+/**
+ * Store the response to replay for later requests with the same key
+ */
+export function completeIdempotentRequest(scope: string, key: string, statusCode: number, body: unknown): void {
+  db.prepare(`
+    UPDATE idempotency_keys
+    SET status_code = ?, response_body = ?
+    WHERE scope = ? AND key = ?
+  `).run(statusCode, body === undefined ? null : JSON.stringify(body), scope, key);
+}
+
+/**
+ * Release a key whose request failed unexpectedly, so the client can retry it
+ */
+export function abandonIdempotentRequest(scope: string, key: string): void {
+  db.prepare('DELETE FROM idempotency_keys WHERE scope = ? AND key = ? AND status_code IS NULL').run(scope, key);
+}
@@ -0,0 +1,149 @@
+import { randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+import { db } from '../db/schema';
+import { LinkStatus } from '../validators/link.validators';
+import { getActiveApiKeyScopes } from './api-key.service';
+import { hasPermission, MerchantRole, Permission } from './permissions';
+import { getActiveSession } from './session.service';
+
+const MAX_EVENTS_PER_READ = 500;
+const STREAM_TICKET_TTL_MS = 30 * 1000;
+
+export interface LinkStatusEvent {
+  eventId: number;
+  linkId: string;
+  status: LinkStatus;
+  useCount: number;
+  createdAt: number;
+}
+
+// Who a stream ticket was issued to, as authenticateMerchant had identified them
+export interface StreamPrincipal {
+  merchantId: string;
+  sessionId?: string;
+  userId?: string | null;
+  role?: MerchantRole;
+  apiKeyId?: string;
+  apiKeyScopes?: readonly Permission[];
+}
+
+export interface StreamTicket {
+  ticket: string;
+  expiresAt: number;
+}
+
+interface LinkStatusEventRow {
+  id: number;
+  link_id: string;
+  status: LinkStatus;
+  use_count: number;
+  created_at: number;
+}
+
+// Only says "merchant X has new events"; listeners read them from the log, so
+// an event whose transaction rolled back is never seen
+const notifier = new EventEmitter();
+notifier.setMaxListeners(0);
+
+// Tickets only live for seconds, so keeping them in memory loses nothing that matters on a restart
+const streamTickets = new Map<string, { principal: StreamPrincipal; expiresAt: number }>();
+
+function mapRowToEvent(row: LinkStatusEventRow): LinkStatusEvent {
+  return {
+    eventId: row.id,
+    linkId: row.link_id,
+    status: row.status,
+    useCount: row.use_count,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Append a link status change to the merchant's event log and wake up their
+ * open streams. Call this inside the transaction that changes the status.
+ */
+export function recordLinkStatusChange(merchantId: string, linkId: string, status: LinkStatus, useCount: number): void {
+  db.prepare(`
+    INSERT INTO link_status_events (merchant_id, link_id, status, use_count, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(merchantId, linkId, status, useCount, Date.now());
+
+  // Synchronous transactions have committed by the time this runs
+  process.nextTick(() => notifier.emit(merchantId));
+}
+
+/**
+ * Read a merchant's status events after the given event ID, oldest first
+ */
+export function listLinkStatusEventsSince(merchantId: string, afterEventId: number): LinkStatusEvent[] {
+  const rows = db.prepare(`
+    SELECT id, link_id, status, use_count, created_at
+    FROM link_status_events
+    WHERE merchant_id = ? AND id > ?
+    ORDER BY id
+    LIMIT ?
+  `).all(merchantId, afterEventId, MAX_EVENTS_PER_READ) as LinkStatusEventRow[];
+
+  return rows.map(mapRowToEvent);
+}
+
+/**
+ * ID of the merchant's newest status event (0 if there are none), where a new stream starts
+ */
+export function latestLinkStatusEventId(merchantId: string): number {
+  const row = db.prepare('SELECT MAX(id) AS id FROM link_status_events WHERE merchant_id = ?')
+    .get(merchantId) as { id: number | null };
+  return row.id ?? 0;
+}
+
+/**
+ * Call the listener whenever the merchant has new status events
+ * @returns Function that removes the listener
+ */
+export function subscribeToLinkStatus(merchantId: string, listener: () => void): () => void {
+  notifier.on(merchantId, listener);
+  return () => {
+    notifier.off(merchantId, listener);
+  };
+}
+
+/**
+ * Issue a short-lived, single-use ticket for opening a stream with
+ * `?ticket=`, since EventSource cannot send an Authorization header
+ */
+export function issueStreamTicket(principal: StreamPrincipal, now = Date.now()): StreamTicket {
+  for (const [ticket, entry] of streamTickets) {
+    if (entry.expiresAt <= now) {
+      streamTickets.delete(ticket);
+    }
+  }
+
+  const ticket = randomBytes(32).toString('base64url');
+  const expiresAt = now + STREAM_TICKET_TTL_MS;
+  streamTickets.set(ticket, { principal, expiresAt });
+  return { ticket, expiresAt };
+}
+
+/**
+ * Use up a stream ticket
+ * @returns Who the ticket was issued to, or null if it is unknown, used or expired
+ */
+export function redeemStreamTicket(ticket: string, now = Date.now()): StreamPrincipal | null {
+  const entry = streamTickets.get(ticket);
+  streamTickets.delete(ticket);
+  return entry && entry.expiresAt > now ? entry.principal : null;
+}
+
+/**
+ * Whether the session or API key behind a stream may still read it: it is
+ * active, and its current role or scopes include links:read. Checked when a
+ * ticket is redeemed and on every heartbeat, so a role change ends the stream.
+ */
+export function canReadLinkStream(principal: StreamPrincipal): boolean {
+  if (principal.apiKeyId) {
+    return getActiveApiKeyScopes(principal.apiKeyId)?.includes('links:read') ?? false;
+  }
+
+  const session = getActiveSession(principal.sessionId!, principal.merchantId);
+  return session !== null && hasPermission(session.role, 'links:read');
+}
@@ -0,0 +1,475 @@
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import {
+  CreateLinkEventInput,
+  CreateLinkInput,
+  LinkEventType,
+  LinkStatus,
+  ListLinksQuery,
+  listLinksQuerySchema,
+} from '../validators/link.validators';
+import { Page, paginate } from '../db/pagination';
+import { ForbiddenError, GoneError, NotFoundError, ServiceError } from './errors';
+import { recordLinkStatusChange } from './link-stream.service';
+import { assertStoreOpen } from './store.service';
+import { emitWebhookEvent } from './webhook.service';
+
+// Public view of a link; the owning merchant is never exposed
+export interface PaymentLink {
+  linkId: string;
+  ciphertext: string;
+  nonce: string | null;
+  tag: string | null;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+// The owning merchant's view, with the lifecycle state
+export interface MerchantLink extends PaymentLink {
+  storeId: string | null; // Store the link was made for, if any
+  status: LinkStatus;
+  maxUses: number | null;
+  useCount: number;
+}
+
+export interface LinkEvent {
+  eventId: string;
+  type: LinkEventType;
+  swapId: string;
+  txid: string | null;
+  createdAt: number;
+}
+
+interface LinkRow {
+  id: string;
+  merchant_id: string;
+  store_id: string | null;
+  ciphertext: string;
+  nonce: string | null;
+  tag: string | null;
+  status: LinkStatus;
+  expires_at: number | null;
+  max_uses: number | null;
+  use_count: number;
+  created_at: number;
+}
+
+// Status changes a merchant may make; expired and paid are otherwise reached automatically
+const MERCHANT_TRANSITIONS: Record<LinkStatus, LinkStatus[]> = {
+  active: ['paid', 'cancelled'],
+  paid: ['archived'],
+  expired: ['archived'],
+  cancelled: ['archived'],
+  archived: [],
+};
+
+const GONE_MESSAGES: Record<Exclude<LinkStatus, 'active'>, string> = {
+  paid: 'Payment link has already been paid',
+  expired: 'Payment link has expired',
+  cancelled: 'Payment link was cancelled',
+  archived: 'Payment link has been archived',
+};
+
+function mapRowToLink(row: LinkRow): PaymentLink {
+  return {
+    linkId: row.id,
+    ciphertext: row.ciphertext,
+    nonce: row.nonce,
+    tag: row.tag,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+interface LinkEventRow {
+  id: string;
+  link_id: string;
+  type: LinkEventType;
+  swap_id: string;
+  txid: string | null;
+  created_at: number;
+}
+
+function mapRowToEvent(row: LinkEventRow): LinkEvent {
+  return {
+    eventId: row.id,
+    type: row.type,
+    swapId: row.swap_id,
+    txid: row.txid,
+    createdAt: row.created_at,
+  };
+}
+
+function mapRowToMerchantLink(row: LinkRow): MerchantLink {
+  return {
+    ...mapRowToLink(row),
+    storeId: row.store_id,
+    status: row.status,
+    maxUses: row.max_uses,
+    useCount: row.use_count,
+  };
+}
+
+/**
+ * Publish a status change to the merchant's live stream and webhooks; call it
+ * inside the transaction that made the change. Status changes come from the
+ * merchant or from expiry, never from payer reports, so they carry no source.
+ */
+function publishStatusChange(merchantId: string, linkId: string, status: Exclude<LinkStatus, 'active'>, useCount: number): void {
+  recordLinkStatusChange(merchantId, linkId, status, useCount);
+  emitWebhookEvent(merchantId, `link.${status}`, { linkId, status, useCount });
+}
+
+/**
+ * Expiry is applied lazily: an active link past its expires_at is marked
+ * expired the next time it is read.
+ */
+function applyExpiry(row: LinkRow, now = Date.now()): LinkRow {
+  if (row.status !== 'active' || row.expires_at === null || row.expires_at > now) {
+    return row;
+  }
+
+  db.transaction(() => {
+    const result = db.prepare(`
+      UPDATE encrypted_links SET status = 'expired' WHERE id = ? AND status = 'active'
+    `).run(row.id);
+
+    if (result.changes > 0) {
+      publishStatusChange(row.merchant_id, row.id, 'expired', row.use_count);
+    }
+  })();
+
+  return { ...row, status: 'expired' };
+}
+
+function getLinkRow(linkId: string): LinkRow | undefined {
+  const stmt = db.prepare(`
+    SELECT id, merchant_id, store_id, ciphertext, nonce, tag, status, expires_at, max_uses, use_count, created_at
+    FROM encrypted_links
+    WHERE id = ?
+  `);
+
+  const row = stmt.get(linkId) as LinkRow | undefined;
+  return row && applyExpiry(row);
+}
+
+/**
+ * @throws GoneError if the link can no longer be paid, with the status as its code
+ */
+function assertActive(row: LinkRow): void {
+  if (row.status !== 'active') {
+    throw new GoneError(GONE_MESSAGES[row.status], row.status);
+  }
+}
+
+/**
+ * @throws NotFoundError if the merchant has no such store
+ * @throws ServiceError (409, code 'store_archived') if the link is for an archived store
+ */
+export function createLink(merchantId: string, input: CreateLinkInput): MerchantLink {
+  if (input.storeId !== undefined) {
+    assertStoreOpen(merchantId, input.storeId);
+  }
+
+  const row: LinkRow = {
+    id: nanoid(),
+    merchant_id: merchantId,
+    store_id: input.storeId ?? null,
+    ciphertext: input.ciphertext,
+    nonce: input.nonce ?? null,
+    tag: input.tag ?? null,
+    status: 'active',
+    expires_at: input.expiresAt ?? null,
+    max_uses: input.maxUses ?? null,
+    use_count: 0,
+    created_at: Date.now(),
+  };
+
+  db.prepare(`
+    INSERT INTO encrypted_links (
+      id, merchant_id, store_id, ciphertext, nonce, tag, status, expires_at, max_uses, use_count, created_at
+    )
+    VALUES (
+      @id, @merchant_id, @store_id, @ciphertext, @nonce, @tag, @status, @expires_at, @max_uses, @use_count, @created_at
+    )
+  `).run(row);
+
+  return mapRowToMerchantLink(row);
+}
+
+/**
+ * Look up a link by ID (public: anyone holding the link can fetch the ciphertext)
+ * @returns null if the link does not exist
+ * @throws GoneError if the link is expired, paid, cancelled or archived
+ */
+export function getLink(linkId: string): PaymentLink | null {
+  const row = getLinkRow(linkId);
+  if (!row) {
+    return null;
+  }
+
+  assertActive(row);
+  return mapRowToLink(row);
+}
+
+/**
+ * Check that a link can still take a payment
+ * @returns The merchant who owns the link and the store it was made for
+ * @throws NotFoundError if the link does not exist
+ * @throws GoneError if the link is no longer active
+ */
+export function assertLinkPayable(linkId: string): { merchantId: string; storeId: string | null } {
+  const row = getLinkRow(linkId);
+  if (!row) {
+    throw new NotFoundError('Payment link not found');
+  }
+
+  assertActive(row);
+  return { merchantId: row.merchant_id, storeId: row.store_id };
+}
+
+/**
+ * Count a completed payment against a link. Once max_uses is reached the link
+ * becomes paid; a link that expired while the payment was in flight still counts it.
+ */
+export function recordLinkUse(linkId: string): void {
+  db.transaction(() => {
+    const before = getLinkRow(linkId);
+    if (!before) {
+      return;
+    }
+
+    const after = db.prepare(`
+      UPDATE encrypted_links
+      SET use_count = use_count + 1,
+          status = CASE
+            WHEN status IN ('active', 'expired') AND max_uses IS NOT NULL AND use_count + 1 >= max_uses THEN 'paid'
+            ELSE status
+          END
+      WHERE id = ?
+      RETURNING status, use_count
+    `).get(linkId) as { status: LinkStatus; use_count: number };
+
+    if (after.status === 'paid' && before.status !== 'paid') {
+      publishStatusChange(before.merchant_id, linkId, 'paid', after.use_count);
+    }
+  })();
+}
+
+const LINK_SORT_COLUMNS: Record<ListLinksQuery['sort'], string> = {
+  createdAt: 'created_at',
+};
+
+/**
+ * List a merchant's links one page at a time
+ * @param query - Cursor, page size, sort and filters (defaults: newest first, 50 per page)
+ * @throws ServiceError (400) if the cursor does not belong to this sort
+ */
+export function listLinks(merchantId: string, query: ListLinksQuery = listLinksQuerySchema.parse({})): Page<MerchantLink> {
+  // Status filters must see links that expired since they were last read
+  expireDueLinks(Date.now(), merchantId);
+
+  const where = ['merchant_id = ?'];
+  const params: unknown[] = [merchantId];
+
+  if (query.status) {
+    where.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+    params.push(...query.status);
+  }
+  if (query.storeId !== undefined) {
+    where.push('store_id = ?');
+    params.push(query.storeId);
+  }
+  if (query.createdAfter !== undefined) {
+    where.push('created_at >= ?');
+    params.push(query.createdAfter);
+  }
+  if (query.createdBefore !== undefined) {
+    where.push('created_at < ?');
+    params.push(query.createdBefore);
+  }
+  if (query.hasBackup !== undefined) {
+    where.push(`${query.hasBackup ? '' : 'NOT '}EXISTS (SELECT 1 FROM backups WHERE backups.encrypted_link_id = encrypted_links.id)`);
+  }
+
+  const page = paginate<LinkRow>({
+    from: `
+      SELECT id, merchant_id, store_id, ciphertext, nonce, tag, status, expires_at, max_uses, use_count, created_at
+      FROM encrypted_links
+    `,
+    where,
+    params,
+    sort: query.sort,
+    sortColumn: LINK_SORT_COLUMNS[query.sort],
+    order: query.order,
+    limit: query.limit,
+    cursor: query.cursor,
+  });
+
+  return { ...page, data: page.data.map(mapRowToMerchantLink) };
+}
+
+/**
+ * Expire every active link past its expires_at, so streams and webhooks hear
+ * about it without waiting for someone to read the link
+ * @param merchantId - Only expire this merchant's links
+ * @returns Number of links expired
+ */
+export function expireDueLinks(now = Date.now(), merchantId?: string): number {
+  const rows = db.prepare(`
+    SELECT id, merchant_id, store_id, ciphertext, nonce, tag, status, expires_at, max_uses, use_count, created_at
+    FROM encrypted_links
+    WHERE status = 'active' AND expires_at <= ? AND (? IS NULL OR merchant_id = ?)
+  `).all(now, merchantId ?? null, merchantId ?? null) as LinkRow[];
+
+  for (const row of rows) {
+    applyExpiry(row, now);
+  }
+  return rows.length;
+}
+
+/**
+ * Run expireDueLinks in the background until the returned function is called
+ */
+export function startLinkExpiryWorker(intervalMs = 60 * 1000): () => void {
+  const timer = setInterval(() => {
+    try {
+      expireDueLinks();
+    } catch (error) {
+      console.error('Link expiry sweep failed:', error);
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Move a merchant's link along its lifecycle (cancel, mark paid, archive)
+ * @throws NotFoundError if the link does not exist
+ * @throws ForbiddenError if the link belongs to another merchant
+ * @throws ServiceError (409) if the link cannot move from its current status to the new one
+ */
+export function updateLinkStatus(merchantId: string, linkId: string, status: LinkStatus): MerchantLink {
+  // Apply a due expiry first, so it is kept even when the change is refused and the transaction rolls back
+  getLinkRow(linkId);
+
+  return db.transaction(() => {
+    const row = getLinkRow(linkId);
+    if (!row) {
+      throw new NotFoundError('Payment link not found');
+    }
+    if (row.merchant_id !== merchantId) {
+      throw new ForbiddenError('Payment link belongs to another merchant');
+    }
+    if (!MERCHANT_TRANSITIONS[row.status].includes(status)) {
+      throw new ServiceError(`Cannot change a ${row.status} payment link to ${status}`, 409, 'invalid_transition');
+    }
+
+    // Only move the link on if nothing else (a payment, expiry) has changed it since it was read
+    const result = db.prepare('UPDATE encrypted_links SET status = ? WHERE id = ? AND status = ?')
+      .run(status, linkId, row.status);
+    if (result.changes === 0) {
+      throw new ServiceError('Payment link changed while it was being updated', 409, 'invalid_transition');
+    }
+    publishStatusChange(merchantId, linkId, status as Exclude<LinkStatus, 'active'>, row.use_count);
+
+    return mapRowToMerchantLink({ ...row, status });
+  })();
+}
+
+/**
+ * Record swap progress for a link (public: reported by the paying browser).
+ * Events arrive after the link may have been paid or expired, so any existing
+ * link accepts them. Reporting the same step for a swap again returns the
+ * stored event, filling in the txid if it was missing.
+ * @throws NotFoundError if the link does not exist
+ */
+export function recordLinkEvent(linkId: string, input: CreateLinkEventInput): LinkEvent {
+  return db.transaction(() => {
+    const link = getLinkRow(linkId);
+    if (!link) {
+      throw new NotFoundError('Payment link not found');
+    }
+
+    const selectEvent = db.prepare(`
+      SELECT id, link_id, type, swap_id, txid, created_at
+      FROM link_events
+      WHERE link_id = ? AND swap_id = ? AND type = ?
+    `);
+    const existing = selectEvent.get(linkId, input.swapId, input.type) as LinkEventRow | undefined;
+
+    if (existing) {
+      if (existing.txid === null && input.txid) {
+        db.prepare('UPDATE link_events SET txid = ? WHERE id = ?').run(input.txid, existing.id);
+        return mapRowToEvent({ ...existing, txid: input.txid });
+      }
+      return mapRowToEvent(existing);
+    }
+
+    const row: LinkEventRow = {
+      id: nanoid(),
+      link_id: linkId,
+      type: input.type,
+      swap_id: input.swapId,
+      txid: input.txid ?? null,
+      created_at: Date.now(),
+    };
+    db.prepare(`
+      INSERT INTO link_events (id, link_id, type, swap_id, txid, created_at)
+      VALUES (@id, @link_id, @type, @swap_id, @txid, @created_at)
+    `).run(row);
+
+    // Anyone holding the link can report events, so receivers must check the swap and txid themselves
+    emitWebhookEvent(link.merchant_id, `link.${input.type}`, {
+      linkId,
+      status: link.status,
+      swapId: row.swap_id,
+      txid: row.txid,
+      source: 'payer',
+    });
+
+    return mapRowToEvent(row);
+  })();
+}
+
+/**
+ * List the swap progress reported for a merchant's link, oldest first
+ * @throws NotFoundError if the link does not exist
+ * @throws ForbiddenError if the link belongs to another merchant
+ */
+export function listLinkEvents(merchantId: string, linkId: string): LinkEvent[] {
+  const row = getLinkRow(linkId);
+  if (!row) {
+    throw new NotFoundError('Payment link not found');
+  }
+  if (row.merchant_id !== merchantId) {
+    throw new ForbiddenError('Payment link belongs to another merchant');
+  }
+
+  const stmt = db.prepare(`
+    SELECT id, link_id, type, swap_id, txid, created_at
+    FROM link_events
+    WHERE link_id = ?
+    ORDER BY created_at, rowid
+  `);
+
+  return (stmt.all(linkId) as LinkEventRow[]).map(mapRowToEvent);
+}
+
+/**
+ * Delete a merchant's link. Backups made for it are kept, with their link reference cleared.
+ * @throws NotFoundError if the link does not exist
+ * @throws ForbiddenError if the link belongs to another merchant
+ */
+export function deleteLink(merchantId: string, linkId: string): void {
+  const row = getLinkRow(linkId);
+  if (!row) {
+    throw new NotFoundError('Payment link not found');
+  }
+  if (row.merchant_id !== merchantId) {
+    throw new ForbiddenError('Payment link belongs to another merchant');
+  }
+
+  db.prepare('DELETE FROM encrypted_links WHERE id = ? AND merchant_id = ?').run(linkId, merchantId);
+}
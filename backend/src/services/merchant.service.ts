@@ -1,5 +1,9 @@
 import { db } from '../db/schema';
 import { UpdateProfileInput } from '../validators/merchant.validators';
+import { NotFoundError, ServiceError } from './errors';
+
+// How long a deleted account can still be restored before its data is erased
+export const ACCOUNT_DELETION_GRACE_MS = 30 * 24 * 60 * 60 * 1000;
 
 export interface MerchantProfile {
   id: string;
@@ -9,7 +13,8 @@ export interface MerchantProfile {
   description: string | null;
   language: string;
   currency: string;
-  pgpPublicKey: string;
+  pgpPublicKey: string | null;
+  deletionScheduledAt: number | null; // Set while the account is waiting to be erased
   createdAt: number;
   updatedAt: number;
 }
@@ -22,7 +27,8 @@ interface MerchantRow {
   description: string | null;
   language: string;
   currency: string;
-  pgp_public_key: string;
+  pgp_public_key: string | null;
+  deletion_scheduled_at: number | null;
   created_at: number;
   updated_at: number;
 }
@@ -37,6 +43,7 @@ function mapRowToProfile(row: MerchantRow): MerchantProfile {
     language: row.language,
     currency: row.currency,
     pgpPublicKey: row.pgp_public_key,
+    deletionScheduledAt: row.deletion_scheduled_at,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -45,7 +52,7 @@ function mapRowToProfile(row: MerchantRow): MerchantProfile {
 export function getProfile(merchantId: string): MerchantProfile | null {
   const stmt = db.prepare(`
     SELECT id, email, store_name, website_url, description, language, currency,
-           pgp_public_key, created_at, updated_at
+           pgp_public_key, deletion_scheduled_at, created_at, updated_at
     FROM merchants
     WHERE id = ?
   `);
@@ -54,7 +61,13 @@ export function getProfile(merchantId: string): MerchantProfile | null {
   return row ? mapRowToProfile(row) : null;
 }
 
-export function updateProfile(merchantId: string, updates: UpdateProfileInput): MerchantProfile | null {
+/**
+ * Update the profile fields; the PGP key is replaced through rotatePgpKey so it stays in the key history
+ */
+export function updateProfile(
+  merchantId: string,
+  updates: Omit<UpdateProfileInput, 'pgpPublicKey'>
+): MerchantProfile | null {
   // Verify merchant exists before attempting update
   const existingProfile = getProfile(merchantId);
   if (!existingProfile) {
@@ -109,8 +122,76 @@ export function updateProfile(merchantId: string, updates: UpdateProfileInput):
   return getProfile(merchantId);
 }
 
+/**
+ * Key that swap backups for this merchant are encrypted to
+ * @returns null for unknown merchants and accounts waiting to be erased, so no new payments start
+ */
 export function getPgpPublicKey(merchantId: string): string | null {
-  const stmt = db.prepare('SELECT pgp_public_key FROM merchants WHERE id = ?');
-  const row = stmt.get(merchantId) as { pgp_public_key: string } | undefined;
+  const stmt = db.prepare('SELECT pgp_public_key FROM merchants WHERE id = ? AND deletion_scheduled_at IS NULL');
+  const row = stmt.get(merchantId) as { pgp_public_key: string | null } | undefined;
   return row ? row.pgp_public_key : null;
 }
+
+/**
+ * Schedule the account for deletion once the grace period has passed. Asking
+ * again keeps the original date.
+ * @returns When the account will be erased
+ * @throws NotFoundError if the merchant does not exist
+ */
+export function scheduleAccountDeletion(merchantId: string, now = Date.now()): number {
+  db.prepare(`
+    UPDATE merchants
+    SET deletion_scheduled_at = ?, updated_at = ?
+    WHERE id = ? AND deletion_scheduled_at IS NULL
+  `).run(now + ACCOUNT_DELETION_GRACE_MS, now, merchantId);
+
+  const profile = getProfile(merchantId);
+  if (!profile) {
+    throw new NotFoundError('Merchant not found');
+  }
+  return profile.deletionScheduledAt!;
+}
+
+/**
+ * Keep the account after all
+ * @throws NotFoundError if the merchant does not exist
+ * @throws ServiceError (409) if no deletion is scheduled
+ */
+export function cancelAccountDeletion(merchantId: string): MerchantProfile {
+  const profile = getProfile(merchantId);
+  if (!profile) {
+    throw new NotFoundError('Merchant not found');
+  }
+  if (profile.deletionScheduledAt === null) {
+    throw new ServiceError('Account deletion is not scheduled', 409, 'deletion_not_scheduled');
+  }
+
+  db.prepare('UPDATE merchants SET deletion_scheduled_at = NULL, updated_at = ? WHERE id = ?')
+    .run(Date.now(), merchantId);
+  return getProfile(merchantId)!;
+}
+
+/**
+ * Erase every account whose grace period has ended. Links, backups, sessions,
+ * webhooks and event history go with it through ON DELETE CASCADE.
+ * @returns Number of accounts erased
+ */
+export function purgeDeletedAccounts(now = Date.now()): number {
+  return db.prepare('DELETE FROM merchants WHERE deletion_scheduled_at <= ?').run(now).changes;
+}
+
+/**
+ * Run purgeDeletedAccounts in the background until the returned function is called
+ */
+export function startAccountDeletionWorker(intervalMs = 60 * 60 * 1000): () => void {
+  const timer = setInterval(() => {
+    try {
+      purgeDeletedAccounts();
+    } catch (error) {
+      console.error('Account deletion sweep failed:', error);
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
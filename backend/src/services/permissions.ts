@@ -0,0 +1,47 @@
+/**
+ * Roles and permissions
+ *
+ * Everyone who acts for a merchant has a role: the owner (the merchant
+ * account itself) or one of the staff roles. Routes check a permission, never
+ * a role, so the table below is the one place that says who may do what.
+ * API keys have no role; they act with the scopes they were issued with.
+ */
+
+import { StaffRole } from '../validators/staff.validators';
+import { PermissionDeniedError } from './errors';
+
+export type MerchantRole = 'owner' | StaffRole;
+
+export type Permission =
+  | 'links:read' // List links, their events and live status, and the stores they are for
+  | 'links:write' // Create, change and delete links
+  | 'backups:read' // Read encrypted swap backups, e.g. to recover swaps
+  | 'webhooks:manage'
+  | 'profile:write' // Profile and store details; the PGP key needs pgp:manage
+  | 'pgp:manage' // Replace and retire PGP keys, re-encrypt backups
+  | 'staff:manage' // Invite, change and remove staff
+  | 'api-keys:manage' // Issue and revoke API keys
+  | 'account:manage'; // Export, deletion and two-factor authentication
+
+const ROLE_PERMISSIONS: Record<MerchantRole, readonly Permission[]> = {
+  owner: [
+    'links:read', 'links:write', 'backups:read', 'webhooks:manage',
+    'profile:write', 'pgp:manage', 'staff:manage', 'api-keys:manage', 'account:manage',
+  ],
+  manager: ['links:read', 'links:write', 'backups:read', 'webhooks:manage', 'profile:write'],
+  cashier: ['links:read', 'links:write'],
+  accountant: ['links:read', 'backups:read'],
+};
+
+export function hasPermission(role: MerchantRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * @throws PermissionDeniedError (403, code 'permission_denied') unless the role grants the permission
+ */
+export function assertPermission(role: MerchantRole, permission: Permission): void {
+  if (!hasPermission(role, permission)) {
+    throw new PermissionDeniedError(permission);
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * PGP key history
+ *
+ * Swap backups are encrypted in the paying browser to the merchant's current
+ * PGP key. Replacing that key keeps the old one on record, by fingerprint, so
+ * backups still encrypted to it stay identifiable. A key is only retired, and
+ * stops being accepted for uploads, once no pending backup needs it.
+ */
+
+import * as openpgp from 'openpgp';
+import { db } from '../db/schema';
+import { BackupStatus } from '../validators/backup.validators';
+import { NotFoundError, ServiceError } from './errors';
+
+export interface PgpKey {
+  fingerprint: string;
+  publicKey: string;
+  validFrom: number;
+  validUntil: number | null; // When the next key replaced it; null for the current key
+  retiredAt: number | null;
+  pendingBackups: number; // Backups of swaps still in progress or to recover that are encrypted to it
+}
+
+interface PgpKeyRow {
+  fingerprint: string;
+  public_key: string;
+  valid_from: number;
+  valid_until: number | null;
+  retired_at: number | null;
+  pending_backups: number;
+}
+
+// Smallest RSA or ElGamal encryption key accepted, as on the payment page (frontend/src/crypto/pgp.ts)
+const MIN_KEY_BITS = 2048;
+
+// Swaps that may still need the backup; later states are final
+export const PENDING_BACKUP_STATUSES: BackupStatus[] = ['pending', 'invoice_paid', 'failed'];
+
+function mapRowToKey(row: PgpKeyRow): PgpKey {
+  return {
+    fingerprint: row.fingerprint,
+    publicKey: row.public_key,
+    validFrom: row.valid_from,
+    validUntil: row.valid_until,
+    retiredAt: row.retired_at,
+    pendingBackups: row.pending_backups,
+  };
+}
+
+function selectKeys(where: string): string {
+  return `
+    SELECT k.fingerprint, k.public_key, k.valid_from, k.valid_until, k.retired_at,
+           (SELECT COUNT(*) FROM backups b
+            WHERE b.merchant_id = k.merchant_id AND b.key_fingerprint = k.fingerprint
+              AND b.status IN (${PENDING_BACKUP_STATUSES.map(status => `'${status}'`).join(', ')})) AS pending_backups
+    FROM merchant_pgp_keys k
+    WHERE ${where}
+  `;
+}
+
+function getKeyRow(merchantId: string, fingerprint: string): PgpKeyRow | undefined {
+  return db.prepare(selectKeys('k.merchant_id = ? AND k.fingerprint = ?'))
+    .get(merchantId, fingerprint) as PgpKeyRow | undefined;
+}
+
+/**
+ * Fingerprint of an ASCII-armored public key, as lowercase hex, without
+ * checking that it can be used (see validatePgpPublicKey)
+ * @throws ServiceError (400) if the key cannot be read
+ */
+export async function readPgpKeyFingerprint(armoredKey: string): Promise<string> {
+  try {
+    const key = await openpgp.readKey({ armoredKey });
+    return key.getFingerprint();
+  } catch {
+    throw new ServiceError('PGP public key could not be read', 400, 'invalid_pgp_key');
+  }
+}
+
+/**
+ * Parse a key a merchant uploads and check that swap backups can be encrypted
+ * to it: a public key, neither revoked nor expired, with an encryption subkey
+ * of at least 2048 bits for RSA and ElGamal
+ * @returns The key's fingerprint, as lowercase hex
+ * @throws ServiceError (400) with code invalid_pgp_key, pgp_key_revoked,
+ * pgp_key_expired, pgp_key_not_encryption_capable or pgp_key_too_small
+ */
+export async function validatePgpPublicKey(armoredKey: string, now = new Date()): Promise<string> {
+  let key: openpgp.Key;
+  try {
+    key = await openpgp.readKey({ armoredKey });
+  } catch {
+    throw new ServiceError('PGP public key could not be read', 400, 'invalid_pgp_key');
+  }
+  if (key.isPrivate()) {
+    throw new ServiceError('PGP key must not contain a private key', 400, 'invalid_pgp_key');
+  }
+
+  const fingerprint = key.getFingerprint();
+  if (await key.isRevoked(undefined, undefined, now)) {
+    throw new ServiceError(`PGP key ${fingerprint} has been revoked`, 400, 'pgp_key_revoked');
+  }
+  const expiration = await key.getExpirationTime();
+  if (expiration instanceof Date && expiration.getTime() <= now.getTime()) {
+    throw new ServiceError(`PGP key ${fingerprint} expired on ${expiration.toISOString()}`, 400, 'pgp_key_expired');
+  }
+
+  let encryptionKey: openpgp.Key | openpgp.Subkey;
+  try {
+    // Key sizes are checked below, so undersized keys are reported as such
+    encryptionKey = await key.getEncryptionKey(undefined, now, undefined, { ...openpgp.config, minRSABits: 0 });
+  } catch {
+    throw new ServiceError(
+      `PGP key ${fingerprint} has no valid encryption subkey`,
+      400,
+      'pgp_key_not_encryption_capable'
+    );
+  }
+
+  const { algorithm, bits } = encryptionKey.getAlgorithmInfo();
+  if ((algorithm.startsWith('rsa') || algorithm === 'elgamal') && bits !== undefined && bits < MIN_KEY_BITS) {
+    throw new ServiceError(
+      `PGP encryption keys must be at least ${MIN_KEY_BITS} bits (got ${bits})`,
+      400,
+      'pgp_key_too_small'
+    );
+  }
+
+  return fingerprint;
+}
+
+/**
+ * Record a merchant's first key (registration, or keys stored before the history existed)
+ */
+export function insertPgpKey(merchantId: string, fingerprint: string, publicKey: string, validFrom: number): void {
+  db.prepare(`
+    INSERT INTO merchant_pgp_keys (merchant_id, fingerprint, public_key, valid_from)
+    VALUES (?, ?, ?, ?)
+  `).run(merchantId, fingerprint, publicKey, validFrom);
+}
+
+/**
+ * Fingerprint of the key new backups are encrypted to
+ * @returns null if the merchant has no key on record
+ */
+export function getCurrentPgpKeyFingerprint(merchantId: string): string | null {
+  const row = db.prepare('SELECT fingerprint FROM merchant_pgp_keys WHERE merchant_id = ? AND valid_until IS NULL')
+    .get(merchantId) as { fingerprint: string } | undefined;
+  return row ? row.fingerprint : null;
+}
+
+/**
+ * A key the merchant still accepts backups for, by fingerprint
+ * @returns null if the merchant has no such key, or it has been retired
+ */
+export function getAcceptedPgpKey(merchantId: string, fingerprint: string): string | null {
+  const row = getKeyRow(merchantId, fingerprint);
+  return row && row.retired_at === null ? row.public_key : null;
+}
+
+/**
+ * Check that a backup may be stored as encrypted to this key
+ * @throws ServiceError (409) if the key is not one of the merchant's, or has been retired
+ */
+export function assertPgpKeyAccepted(merchantId: string, fingerprint: string): void {
+  if (getAcceptedPgpKey(merchantId, fingerprint) === null) {
+    throw new ServiceError('Backup is encrypted to a key the merchant does not accept', 409, 'key_not_accepted');
+  }
+}
+
+/**
+ * Every key the merchant has used, current key first
+ */
+export function listPgpKeys(merchantId: string): PgpKey[] {
+  const rows = db.prepare(`${selectKeys('k.merchant_id = ?')} ORDER BY k.valid_from DESC`)
+    .all(merchantId) as PgpKeyRow[];
+  return rows.map(mapRowToKey);
+}
+
+/**
+ * Make a new key the one backups are encrypted to. The previous key stays on
+ * record, and keeps being accepted for uploads, until it is retired.
+ * Uploading the current key again is a no-op.
+ * @throws ServiceError (400) if the key cannot be read or used (see validatePgpPublicKey)
+ * @throws ServiceError (409) if the key was used before and has since been replaced
+ * @throws NotFoundError if the merchant does not exist
+ */
+export async function rotatePgpKey(merchantId: string, publicKey: string, now = Date.now()): Promise<PgpKey> {
+  const fingerprint = await validatePgpPublicKey(publicKey);
+
+  return db.transaction(() => {
+    const merchant = db.prepare('SELECT id FROM merchants WHERE id = ?').get(merchantId);
+    if (!merchant) {
+      throw new NotFoundError('Merchant not found');
+    }
+
+    const existing = getKeyRow(merchantId, fingerprint);
+    if (existing && existing.valid_until === null) {
+      return mapRowToKey(existing);
+    }
+    if (existing) {
+      throw new ServiceError('This key has already been replaced; generate a new key', 409, 'key_reused');
+    }
+
+    db.prepare('UPDATE merchant_pgp_keys SET valid_until = ? WHERE merchant_id = ? AND valid_until IS NULL')
+      .run(now, merchantId);
+    insertPgpKey(merchantId, fingerprint, publicKey, now);
+    db.prepare('UPDATE merchants SET pgp_public_key = ?, updated_at = ? WHERE id = ?')
+      .run(publicKey, now, merchantId);
+
+    return mapRowToKey(getKeyRow(merchantId, fingerprint)!);
+  })();
+}
+
+/**
+ * Stop accepting backups encrypted to a replaced key, so the merchant can
+ * discard it. Retiring a retired key again is a no-op.
+ * @throws NotFoundError if the merchant has no such key
+ * @throws ServiceError (409) if it is the current key, or pending backups are still encrypted to it
+ */
+export function retirePgpKey(merchantId: string, fingerprint: string, now = Date.now()): PgpKey {
+  return db.transaction(() => {
+    const row = getKeyRow(merchantId, fingerprint);
+    if (!row) {
+      throw new NotFoundError('PGP key not found');
+    }
+    if (row.valid_until === null) {
+      throw new ServiceError('The current key cannot be retired', 409, 'key_current');
+    }
+    if (row.retired_at !== null) {
+      return mapRowToKey(row);
+    }
+    if (row.pending_backups > 0) {
+      throw new ServiceError(
+        `${row.pending_backups} pending backups are still encrypted to this key; re-encrypt them first`,
+        409,
+        'key_in_use'
+      );
+    }
+
+    db.prepare('UPDATE merchant_pgp_keys SET retired_at = ? WHERE merchant_id = ? AND fingerprint = ?')
+      .run(now, merchantId, fingerprint);
+    return mapRowToKey(getKeyRow(merchantId, fingerprint)!);
+  })();
+}
+
+/**
+ * Add keys stored before the key history existed, and attribute their
+ * merchants' backups to them. Keys that cannot be read are skipped and logged.
+ * Earlier backup revisions keep no fingerprint, as they cannot be changed.
+ * @returns Number of keys added
+ */
+export async function backfillPgpKeyHistory(): Promise<number> {
+  const merchants = db.prepare(`
+    SELECT id, pgp_public_key, created_at
+    FROM merchants
+    WHERE pgp_public_key IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM merchant_pgp_keys WHERE merchant_id = merchants.id)
+  `).all() as { id: string; pgp_public_key: string; created_at: number }[];
+
+  let added = 0;
+  for (const merchant of merchants) {
+    let fingerprint: string;
+    try {
+      fingerprint = await readPgpKeyFingerprint(merchant.pgp_public_key);
+    } catch {
+      console.error(`Skipping unreadable PGP key of merchant ${merchant.id}`);
+      continue;
+    }
+
+    db.transaction(() => {
+      insertPgpKey(merchant.id, fingerprint, merchant.pgp_public_key, merchant.created_at);
+      db.prepare('UPDATE backups SET key_fingerprint = ? WHERE merchant_id = ? AND key_fingerprint IS NULL')
+        .run(fingerprint, merchant.id);
+    })();
+    added++;
+  }
+  return added;
+}
@@ -0,0 +1,270 @@
+import { createHash, randomBytes } from 'crypto';
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken } from './token.service';
+import { ForbiddenError, NotFoundError, ServiceError, UnauthorizedError } from './errors';
+import { MerchantRole } from './permissions';
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const STEP_UP_TTL_MS = 5 * 60 * 1000; // Sensitive changes must follow a fresh re-authentication
+const MAX_USER_AGENT_LENGTH = 255;
+
+export interface SessionContext {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface TokenPair {
+  token: string; // Access token (JWT)
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+}
+
+/**
+ * Who an active session acts as
+ */
+export interface ActiveSession {
+  userId: string | null; // Staff member; null for the owner
+  role: MerchantRole;
+}
+
+export interface SessionInfo {
+  sessionId: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: number;
+  lastUsedAt: number;
+  current: boolean;
+}
+
+interface SessionRow {
+  id: string;
+  merchant_id: string;
+  user_id: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: number;
+  last_used_at: number;
+  revoked_at: number | null;
+}
+
+interface RefreshTokenRow {
+  id: string;
+  session_id: string;
+  expires_at: number;
+  used_at: number | null;
+  merchant_id: string;
+  email: string;
+  revoked_at: number | null;
+}
+
+function mapRowToSessionInfo(row: SessionRow, currentSessionId?: string): SessionInfo {
+  return {
+    sessionId: row.id,
+    userAgent: row.user_agent,
+    ip: row.ip,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    current: row.id === currentSessionId,
+  };
+}
+
+function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+/**
+ * Store a new refresh token for a session; only its hash is kept
+ */
+function issueRefreshToken(sessionId: string, now: number): string {
+  const refreshToken = randomBytes(32).toString('base64url');
+
+  db.prepare(`
+    INSERT INTO refresh_tokens (id, session_id, token_hash, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(nanoid(), sessionId, hashRefreshToken(refreshToken), now, now + REFRESH_TOKEN_TTL_MS);
+
+  return refreshToken;
+}
+
+function revokeSessionRow(sessionId: string, now: number): void {
+  db.prepare('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL').run(now, sessionId);
+}
+
+/**
+ * Start a session after a successful login or registration
+ * @param userId - Staff member logging in; omitted for the owner
+ */
+export function startSession(
+  merchantId: string,
+  email: string,
+  context: SessionContext = {},
+  userId: string | null = null
+): TokenPair {
+  const sessionId = nanoid();
+  const now = Date.now();
+
+  return db.transaction(() => {
+    db.prepare(`
+      INSERT INTO sessions (id, merchant_id, user_id, user_agent, ip, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      sessionId,
+      merchantId,
+      userId,
+      context.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      context.ip ?? null,
+      now,
+      now
+    );
+
+    return {
+      token: generateToken(merchantId, email, sessionId),
+      refreshToken: issueRefreshToken(sessionId, now),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  })();
+}
+
+/**
+ * Exchange a refresh token for a new token pair. The refresh token is used up;
+ * presenting it again revokes the whole session, since only a stolen copy
+ * would be replayed.
+ * @throws UnauthorizedError if the token is unknown, expired, reused or its session was revoked
+ */
+export function refreshSession(refreshToken: string, context: SessionContext = {}): TokenPair {
+  const now = Date.now();
+
+  const result = db.transaction((): TokenPair | 'reused' | null => {
+    const row = db.prepare(`
+      SELECT t.id, t.session_id, t.expires_at, t.used_at, s.merchant_id, s.revoked_at,
+             COALESCE(u.email, m.email) AS email
+      FROM refresh_tokens t
+      JOIN sessions s ON s.id = t.session_id
+      JOIN merchants m ON m.id = s.merchant_id
+      LEFT JOIN merchant_users u ON u.id = s.user_id
+      WHERE t.token_hash = ?
+    `).get(hashRefreshToken(refreshToken)) as RefreshTokenRow | undefined;
+
+    if (!row || row.revoked_at !== null || row.expires_at <= now) {
+      return null;
+    }
+
+    if (row.used_at !== null) {
+      revokeSessionRow(row.session_id, now);
+      return 'reused';
+    }
+
+    db.prepare('UPDATE refresh_tokens SET used_at = ? WHERE id = ?').run(now, row.id);
+    db.prepare('DELETE FROM refresh_tokens WHERE session_id = ? AND expires_at <= ?').run(row.session_id, now);
+    db.prepare('UPDATE sessions SET last_used_at = ?, ip = COALESCE(?, ip) WHERE id = ?')
+      .run(now, context.ip ?? null, row.session_id);
+
+    return {
+      token: generateToken(row.merchant_id, row.email, row.session_id),
+      refreshToken: issueRefreshToken(row.session_id, now),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  })();
+
+  if (result === 'reused') {
+    console.warn('[SECURITY] Refresh token reuse detected; session revoked');
+  }
+  if (result === null || result === 'reused') {
+    throw new UnauthorizedError('Invalid or expired refresh token');
+  }
+
+  return result;
+}
+
+/**
+ * Whether access tokens issued for a session are still accepted
+ */
+export function isSessionActive(sessionId: string, merchantId: string): boolean {
+  return getActiveSession(sessionId, merchantId) !== null;
+}
+
+/**
+ * Who an active session acts as, read on every request so that role changes
+ * apply at once
+ * @returns null if the session was revoked or its staff member removed
+ */
+export function getActiveSession(sessionId: string, merchantId: string): ActiveSession | null {
+  const row = db.prepare(`
+    SELECT s.user_id, u.role
+    FROM sessions s
+    LEFT JOIN merchant_users u ON u.id = s.user_id AND u.merchant_id = s.merchant_id
+    WHERE s.id = ? AND s.merchant_id = ? AND s.revoked_at IS NULL
+  `).get(sessionId, merchantId) as { user_id: string | null; role: MerchantRole | null } | undefined;
+
+  if (!row || (row.user_id !== null && row.role === null)) {
+    return null;
+  }
+  return { userId: row.user_id, role: row.role ?? 'owner' };
+}
+
+/**
+ * List the active sessions of one person: the owner, or a staff member
+ */
+export function listSessions(merchantId: string, currentSessionId?: string, userId: string | null = null): SessionInfo[] {
+  const stmt = db.prepare(`
+    SELECT id, merchant_id, user_id, user_agent, ip, created_at, last_used_at, revoked_at
+    FROM sessions
+    WHERE merchant_id = ? AND user_id IS ? AND revoked_at IS NULL
+    ORDER BY last_used_at DESC
+  `);
+
+  return (stmt.all(merchantId, userId) as SessionRow[]).map(row => mapRowToSessionInfo(row, currentSessionId));
+}
+
+/**
+ * Revoke one of your own sessions, invalidating its access and refresh tokens
+ * @param userId - Staff member revoking it; omitted for the owner
+ * @throws NotFoundError if the session does not exist or is already revoked
+ * @throws ForbiddenError if the session belongs to another merchant, or another person
+ */
+export function revokeSession(merchantId: string, sessionId: string, userId: string | null = null): void {
+  const row = db.prepare('SELECT merchant_id, user_id, revoked_at FROM sessions WHERE id = ?')
+    .get(sessionId) as Pick<SessionRow, 'merchant_id' | 'user_id' | 'revoked_at'> | undefined;
+
+  if (!row || row.revoked_at !== null) {
+    throw new NotFoundError('Session not found');
+  }
+  if (row.merchant_id !== merchantId) {
+    throw new ForbiddenError('Session belongs to another merchant');
+  }
+  if (row.user_id !== userId) {
+    throw new ForbiddenError('Session belongs to another user');
+  }
+
+  revokeSessionRow(sessionId, Date.now());
+}
+
+/**
+ * Revoke every session of a staff member, e.g. when they are removed
+ */
+export function revokeUserSessions(userId: string, now = Date.now()): void {
+  db.prepare('UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL').run(now, userId);
+}
+
+/**
+ * Record that the session just re-authenticated for a sensitive change
+ * @returns When the step-up expires
+ */
+export function recordStepUp(sessionId: string): number {
+  const now = Date.now();
+  db.prepare('UPDATE sessions SET step_up_at = ? WHERE id = ?').run(now, sessionId);
+  return now + STEP_UP_TTL_MS;
+}
+
+/**
+ * @throws ServiceError (403, code 'step_up_required') unless the session stepped up in the last few minutes
+ */
+export function assertRecentStepUp(sessionId: string): void {
+  const row = db.prepare('SELECT step_up_at FROM sessions WHERE id = ?')
+    .get(sessionId) as { step_up_at: number | null } | undefined;
+
+  if (!row?.step_up_at || Date.now() - row.step_up_at > STEP_UP_TTL_MS) {
+    throw new ServiceError('Re-authentication required for this change', 403, 'step_up_required');
+  }
+}
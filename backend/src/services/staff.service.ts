@@ -0,0 +1,260 @@
+/**
+ * Staff accounts
+ *
+ * The owner invites staff by email with a role. The invitation carries a
+ * single-use token, returned once so the owner can pass it on; the invitee
+ * accepts it by choosing a password, and then logs in like the owner does.
+ * Roles can be changed at any time and apply to the next request. Removing a
+ * staff member ends all their sessions.
+ */
+
+import * as bcrypt from 'bcryptjs';
+import { createHash, randomBytes } from 'crypto';
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import { AcceptInvitationInput, InviteStaffInput, StaffRole } from '../validators/staff.validators';
+import {
+  AuthResult,
+  BCRYPT_ROUNDS,
+  EmailAlreadyRegisteredError,
+  isEmailRegistered,
+  isUniqueConstraintError,
+} from './auth.service';
+import { GoneError, NotFoundError, ServiceError } from './errors';
+import { revokeUserSessions, SessionContext, startSession } from './session.service';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_PENDING_INVITATIONS = 20;
+
+export interface StaffMember {
+  userId: string;
+  email: string;
+  role: StaffRole;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StaffInvitation {
+  invitationId: string;
+  email: string;
+  role: StaffRole;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Returned once when inviting; the token is never shown again
+export interface CreatedStaffInvitation extends StaffInvitation {
+  token: string;
+}
+
+interface StaffRow {
+  id: string;
+  email: string;
+  role: StaffRole;
+  created_at: number;
+  updated_at: number;
+}
+
+interface InvitationRow {
+  id: string;
+  merchant_id: string;
+  email: string;
+  role: StaffRole;
+  created_at: number;
+  expires_at: number;
+  accepted_at: number | null;
+  revoked_at: number | null;
+}
+
+function mapRowToMember(row: StaffRow): StaffMember {
+  return {
+    userId: row.id,
+    email: row.email,
+    role: row.role,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapRowToInvitation(row: InvitationRow): StaffInvitation {
+  return {
+    invitationId: row.id,
+    email: row.email,
+    role: row.role,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function getStaffRow(merchantId: string, userId: string): StaffRow {
+  const row = db.prepare('SELECT id, email, role, created_at, updated_at FROM merchant_users WHERE id = ? AND merchant_id = ?')
+    .get(userId, merchantId) as StaffRow | undefined;
+  if (!row) {
+    throw new NotFoundError('Staff member not found');
+  }
+  return row;
+}
+
+/**
+ * Invite someone to act for the merchant. A pending invitation for the same
+ * email is replaced.
+ * @throws EmailAlreadyRegisteredError if the email already logs in, as an owner or staff
+ * @throws ServiceError (409) if too many invitations are pending
+ */
+export function inviteStaff(merchantId: string, input: InviteStaffInput, now = Date.now()): CreatedStaffInvitation {
+  if (isEmailRegistered(input.email)) {
+    throw new EmailAlreadyRegisteredError();
+  }
+
+  return db.transaction(() => {
+    db.prepare(`
+      UPDATE merchant_invitations SET revoked_at = ?
+      WHERE merchant_id = ? AND email = ? AND accepted_at IS NULL AND revoked_at IS NULL
+    `).run(now, merchantId, input.email);
+
+    const { count } = db.prepare(`
+      SELECT COUNT(*) AS count FROM merchant_invitations
+      WHERE merchant_id = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > ?
+    `).get(merchantId, now) as { count: number };
+    if (count >= MAX_PENDING_INVITATIONS) {
+      throw new ServiceError(
+        `A merchant can have at most ${MAX_PENDING_INVITATIONS} pending invitations`,
+        409,
+        'invitation_limit_reached'
+      );
+    }
+
+    const invitationId = nanoid();
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = now + INVITATION_TTL_MS;
+    db.prepare(`
+      INSERT INTO merchant_invitations (id, merchant_id, email, role, token_hash, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(invitationId, merchantId, input.email, input.role, hashInvitationToken(token), now, expiresAt);
+
+    return { invitationId, email: input.email, role: input.role, createdAt: now, expiresAt, token };
+  })();
+}
+
+/**
+ * Invitations that can still be accepted, newest first
+ */
+export function listInvitations(merchantId: string, now = Date.now()): StaffInvitation[] {
+  const rows = db.prepare(`
+    SELECT * FROM merchant_invitations
+    WHERE merchant_id = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > ?
+    ORDER BY created_at DESC
+  `).all(merchantId, now) as InvitationRow[];
+
+  return rows.map(mapRowToInvitation);
+}
+
+/**
+ * Withdraw a pending invitation; its token stops working
+ * @throws NotFoundError if the merchant has no such pending invitation
+ */
+export function revokeInvitation(merchantId: string, invitationId: string, now = Date.now()): void {
+  const { changes } = db.prepare(`
+    UPDATE merchant_invitations SET revoked_at = ?
+    WHERE id = ? AND merchant_id = ? AND accepted_at IS NULL AND revoked_at IS NULL
+  `).run(now, invitationId, merchantId);
+
+  if (changes === 0) {
+    throw new NotFoundError('Invitation not found');
+  }
+}
+
+/**
+ * Create the staff account an invitation is for and start its first session
+ * @throws NotFoundError if the token is unknown, or the invitation was used or withdrawn
+ * @throws GoneError (code invitation_expired) if the invitation has expired
+ * @throws EmailAlreadyRegisteredError if the email has started logging in elsewhere since
+ */
+export async function acceptInvitation(
+  input: AcceptInvitationInput,
+  context: SessionContext = {},
+  now = Date.now()
+): Promise<AuthResult> {
+  const invitation = db.prepare('SELECT * FROM merchant_invitations WHERE token_hash = ?')
+    .get(hashInvitationToken(input.token)) as InvitationRow | undefined;
+
+  if (!invitation || invitation.accepted_at !== null || invitation.revoked_at !== null) {
+    throw new NotFoundError('Invitation not found');
+  }
+  if (invitation.expires_at <= now) {
+    throw new GoneError('Invitation has expired', 'invitation_expired');
+  }
+
+  const passwordHash = await bcrypt.hash(input.password, BCRYPT_ROUNDS);
+  const userId = nanoid();
+
+  try {
+    db.transaction(() => {
+      // Accepting the same invitation twice at once must create a single account
+      const { changes } = db.prepare(`
+        UPDATE merchant_invitations SET accepted_at = ?
+        WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL
+      `).run(now, invitation.id);
+      if (changes === 0) {
+        throw new NotFoundError('Invitation not found');
+      }
+      if (db.prepare('SELECT 1 FROM merchants WHERE email = ?').get(invitation.email)) {
+        throw new EmailAlreadyRegisteredError();
+      }
+
+      db.prepare(`
+        INSERT INTO merchant_users (id, merchant_id, email, password_hash, role, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(userId, invitation.merchant_id, invitation.email, passwordHash, invitation.role, now, now);
+    })();
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new EmailAlreadyRegisteredError();
+    }
+    throw error;
+  }
+
+  return {
+    ...startSession(invitation.merchant_id, invitation.email, context, userId),
+    merchantId: invitation.merchant_id,
+    role: invitation.role,
+  };
+}
+
+/**
+ * The merchant's staff, oldest first
+ */
+export function listStaff(merchantId: string): StaffMember[] {
+  const rows = db.prepare(`
+    SELECT id, email, role, created_at, updated_at FROM merchant_users
+    WHERE merchant_id = ? ORDER BY created_at
+  `).all(merchantId) as StaffRow[];
+
+  return rows.map(mapRowToMember);
+}
+
+/**
+ * Give a staff member another role, effective from their next request
+ * @throws NotFoundError if the merchant has no such staff member
+ */
+export function updateStaffRole(merchantId: string, userId: string, role: StaffRole, now = Date.now()): StaffMember {
+  getStaffRow(merchantId, userId);
+  db.prepare('UPDATE merchant_users SET role = ?, updated_at = ? WHERE id = ?').run(role, now, userId);
+  return mapRowToMember(getStaffRow(merchantId, userId));
+}
+
+/**
+ * Remove a staff member and end all their sessions
+ * @throws NotFoundError if the merchant has no such staff member
+ */
+export function removeStaffMember(merchantId: string, userId: string, now = Date.now()): void {
+  getStaffRow(merchantId, userId);
+  db.transaction(() => {
+    revokeUserSessions(userId, now);
+    db.prepare('DELETE FROM merchant_users WHERE id = ?').run(userId);
+  })();
+}
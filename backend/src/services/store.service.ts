@@ -0,0 +1,204 @@
+/**
+ * Stores (points of sale)
+ *
+ * A merchant can run several stores, each with its own wallet, currency,
+ * language and branding. Links and backups may be made for a store, so lists
+ * and exports can be broken down by location. Stores are archived rather than
+ * deleted: an archived store keeps its links and backups but takes no new links.
+ */
+
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import { CreateStoreInput, UpdateStoreInput } from '../validators/store.validators';
+import { NotFoundError, ServiceError } from './errors';
+
+const MAX_STORES = 50;
+
+export interface Store {
+  storeId: string;
+  name: string;
+  descriptorFingerprint: string | null;
+  currency: string;
+  language: string;
+  description: string | null;
+  websiteUrl: string | null;
+  logoUrl: string | null;
+  brandColor: string | null;
+  createdAt: number;
+  updatedAt: number;
+  archivedAt: number | null;
+}
+
+interface StoreRow {
+  id: string;
+  merchant_id: string;
+  name: string;
+  descriptor_fingerprint: string | null;
+  currency: string;
+  language: string;
+  description: string | null;
+  website_url: string | null;
+  logo_url: string | null;
+  brand_color: string | null;
+  created_at: number;
+  updated_at: number;
+  archived_at: number | null;
+}
+
+// Update input fields and the columns they are stored in
+const STORE_COLUMNS: Record<keyof UpdateStoreInput, keyof StoreRow> = {
+  name: 'name',
+  descriptorFingerprint: 'descriptor_fingerprint',
+  currency: 'currency',
+  language: 'language',
+  description: 'description',
+  websiteUrl: 'website_url',
+  logoUrl: 'logo_url',
+  brandColor: 'brand_color',
+};
+
+function mapRowToStore(row: StoreRow): Store {
+  return {
+    storeId: row.id,
+    name: row.name,
+    descriptorFingerprint: row.descriptor_fingerprint,
+    currency: row.currency,
+    language: row.language,
+    description: row.description,
+    websiteUrl: row.website_url,
+    logoUrl: row.logo_url,
+    brandColor: row.brand_color,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    archivedAt: row.archived_at,
+  };
+}
+
+function getStoreRow(merchantId: string, storeId: string): StoreRow {
+  const row = db.prepare('SELECT * FROM stores WHERE id = ? AND merchant_id = ?')
+    .get(storeId, merchantId) as StoreRow | undefined;
+  if (!row) {
+    throw new NotFoundError('Store not found');
+  }
+  return row;
+}
+
+/**
+ * @throws ServiceError (409, code 'store_archived') if the store takes no new links
+ */
+function assertNotArchived(row: StoreRow): void {
+  if (row.archived_at !== null) {
+    throw new ServiceError('Store has been archived', 409, 'store_archived');
+  }
+}
+
+/**
+ * Open a new store; currency and language default to the merchant profile's
+ * @throws NotFoundError if the merchant does not exist
+ * @throws ServiceError (409) if the merchant already has the maximum number of stores
+ */
+export function createStore(merchantId: string, input: CreateStoreInput, now = Date.now()): Store {
+  return db.transaction(() => {
+    const merchant = db.prepare('SELECT currency, language FROM merchants WHERE id = ?')
+      .get(merchantId) as { currency: string; language: string } | undefined;
+    if (!merchant) {
+      throw new NotFoundError('Merchant not found');
+    }
+
+    const { count } = db.prepare('SELECT COUNT(*) AS count FROM stores WHERE merchant_id = ?')
+      .get(merchantId) as { count: number };
+    if (count >= MAX_STORES) {
+      throw new ServiceError(`A merchant can have at most ${MAX_STORES} stores`, 409, 'store_limit_reached');
+    }
+
+    const row: StoreRow = {
+      id: nanoid(),
+      merchant_id: merchantId,
+      name: input.name,
+      descriptor_fingerprint: input.descriptorFingerprint ?? null,
+      currency: input.currency ?? merchant.currency,
+      language: input.language ?? merchant.language,
+      description: input.description ?? null,
+      website_url: input.websiteUrl ?? null,
+      logo_url: input.logoUrl ?? null,
+      brand_color: input.brandColor ?? null,
+      created_at: now,
+      updated_at: now,
+      archived_at: null,
+    };
+
+    db.prepare(`
+      INSERT INTO stores (
+        id, merchant_id, name, descriptor_fingerprint, currency, language, description, website_url, logo_url,
+        brand_color, created_at, updated_at, archived_at
+      )
+      VALUES (
+        @id, @merchant_id, @name, @descriptor_fingerprint, @currency, @language, @description, @website_url, @logo_url,
+        @brand_color, @created_at, @updated_at, @archived_at
+      )
+    `).run(row);
+
+    return mapRowToStore(row);
+  })();
+}
+
+/**
+ * The merchant's stores, archived ones included, oldest first
+ */
+export function listStores(merchantId: string): Store[] {
+  const rows = db.prepare('SELECT * FROM stores WHERE merchant_id = ? ORDER BY created_at, id')
+    .all(merchantId) as StoreRow[];
+
+  return rows.map(mapRowToStore);
+}
+
+/**
+ * @throws NotFoundError if the merchant has no such store
+ */
+export function getStore(merchantId: string, storeId: string): Store {
+  return mapRowToStore(getStoreRow(merchantId, storeId));
+}
+
+/**
+ * Change a store's details; null clears an optional field
+ * @throws NotFoundError if the merchant has no such store
+ * @throws ServiceError (409, code 'store_archived') if the store has been archived
+ */
+export function updateStore(merchantId: string, storeId: string, input: UpdateStoreInput, now = Date.now()): Store {
+  assertNotArchived(getStoreRow(merchantId, storeId));
+
+  const fields: string[] = [];
+  const values: unknown[] = [];
+  for (const [field, column] of Object.entries(STORE_COLUMNS) as [keyof UpdateStoreInput, keyof StoreRow][]) {
+    if (input[field] !== undefined) {
+      fields.push(`${column} = ?`);
+      values.push(input[field]);
+    }
+  }
+
+  if (fields.length > 0) {
+    db.prepare(`UPDATE stores SET ${fields.join(', ')}, updated_at = ? WHERE id = ?`).run(...values, now, storeId);
+  }
+  return getStore(merchantId, storeId);
+}
+
+/**
+ * Archive a store: its links and backups keep their attribution, but no new
+ * links can be made for it. Archiving twice keeps the original date.
+ * @throws NotFoundError if the merchant has no such store
+ */
+export function archiveStore(merchantId: string, storeId: string, now = Date.now()): Store {
+  getStoreRow(merchantId, storeId);
+  db.prepare('UPDATE stores SET archived_at = ?, updated_at = ? WHERE id = ? AND archived_at IS NULL')
+    .run(now, now, storeId);
+  return getStore(merchantId, storeId);
+}
+
+/**
+ * Check that new links can be made for a store
+ * @throws NotFoundError if the merchant has no such store
+ * @throws ServiceError (409, code 'store_archived') if the store has been archived
+ */
+export function assertStoreOpen(merchantId: string, storeId: string): void {
+  assertNotArchived(getStoreRow(merchantId, storeId));
+}
@@ -0,0 +1,47 @@
+import jwt from 'jsonwebtoken';
+
+// Validate JWT_SECRET at module load
+if (!process.env.JWT_SECRET && process.env.NODE_ENV === 'production') {
+  throw new Error('JWT_SECRET environment variable must be set in production');
+}
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
+
+// Access tokens are short-lived; clients renew them with a refresh token (see session.service)
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+export interface JWTPayload {
+  merchantId: string;
+  email: string;
+  sid: string; // Session the token was issued for
+}
+
+export function generateToken(merchantId: string, email: string, sessionId: string): string {
+  return jwt.sign(
+    { merchantId, email, sid: sessionId } as JWTPayload,
+    JWT_SECRET,
+    { algorithm: 'HS256', expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
+/**
+ * Verify an access token issued by generateToken
+ * @returns The token payload, or null if the token is invalid or expired
+ */
+export function verifyToken(token: string): JWTPayload | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET, {
+      algorithms: ['HS256'] // Prevent algorithm confusion attacks
+    });
+
+    if (typeof payload !== 'object' || typeof payload.merchantId !== 'string' || typeof payload.sid !== 'string') {
+      return null;
+    }
+
+    return payload as JWTPayload;
+  } catch (error) {
+    // Log error for debugging; callers only report a generic message
+    console.error('JWT verification failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,260 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import { ServiceError, UnauthorizedError } from './errors';
+
+// RFC 6238 parameters understood by every authenticator app
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW_STEPS = 1; // Accept the previous and next code to allow for clock drift
+const TOTP_SECRET_BYTES = 20;
+const TOTP_ISSUER = 'BullPOS';
+
+const RECOVERY_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpEnrollment {
+  secret: string; // Base32, for manual entry
+  otpauthUri: string; // Render as a QR code for authenticator apps
+}
+
+export interface SecondFactor {
+  totpCode?: string;
+  recoveryCode?: string;
+}
+
+interface TotpRow {
+  email: string;
+  totp_secret: string | null;
+  totp_enabled_at: number | null;
+  totp_last_used_step: number | null;
+}
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Compute the HOTP value (RFC 4226) of a base32 secret for a time step
+ */
+export function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Find the time step a code was generated for, within the drift window
+ * @returns The matching step, or null if the code is not valid now
+ */
+function matchTotpStep(secret: string, code: string, now: number): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const current = currentTotpStep(now);
+  for (let step = current - TOTP_WINDOW_STEPS; step <= current + TOTP_WINDOW_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(generateTotpCode(secret, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCode(): string {
+  const chars = base32Encode(randomBytes(8)).toLowerCase().slice(0, 12);
+  return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+function getTotpRow(merchantId: string): TotpRow | undefined {
+  return db.prepare(`
+    SELECT email, totp_secret, totp_enabled_at, totp_last_used_step
+    FROM merchants
+    WHERE id = ?
+  `).get(merchantId) as TotpRow | undefined;
+}
+
+export function isTotpEnabled(merchantId: string): boolean {
+  return getTotpRow(merchantId)?.totp_enabled_at != null;
+}
+
+/**
+ * Start TOTP enrollment with a fresh secret; it only takes effect once confirmTotp succeeds
+ * @throws ServiceError (409) if TOTP is already enabled
+ */
+export function startTotpEnrollment(merchantId: string): TotpEnrollment {
+  const row = getTotpRow(merchantId);
+  if (row?.totp_enabled_at != null) {
+    throw new ServiceError('Two-factor authentication is already enabled', 409);
+  }
+
+  const secret = base32Encode(randomBytes(TOTP_SECRET_BYTES));
+  db.prepare('UPDATE merchants SET totp_secret = ?, totp_last_used_step = NULL WHERE id = ?').run(secret, merchantId);
+
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${row?.email ?? merchantId}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return { secret, otpauthUri: `otpauth://totp/${label}?${params}` };
+}
+
+/**
+ * Replace the merchant's recovery codes
+ * @returns The new codes in plain text; only their hashes are stored
+ */
+export function regenerateRecoveryCodes(merchantId: string): string[] {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  const now = Date.now();
+  const insert = db.prepare(`
+    INSERT INTO recovery_codes (id, merchant_id, code_hash, created_at)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM recovery_codes WHERE merchant_id = ?').run(merchantId);
+    for (const code of codes) {
+      insert.run(nanoid(), merchantId, hashRecoveryCode(code), now);
+    }
+  })();
+
+  return codes;
+}
+
+/**
+ * Finish enrollment by proving the authenticator app produces valid codes
+ * @returns Recovery codes to show the merchant once
+ * @throws ServiceError (409) if enrollment was not started, UnauthorizedError if the code is wrong
+ */
+export function confirmTotp(merchantId: string, code: string): string[] {
+  const row = getTotpRow(merchantId);
+  if (!row?.totp_secret || row.totp_enabled_at != null) {
+    throw new ServiceError('No two-factor enrollment in progress', 409);
+  }
+
+  const step = matchTotpStep(row.totp_secret, code, Date.now());
+  if (step === null) {
+    throw new UnauthorizedError('Invalid two-factor authentication code');
+  }
+
+  db.prepare('UPDATE merchants SET totp_enabled_at = ?, totp_last_used_step = ? WHERE id = ?')
+    .run(Date.now(), step, merchantId);
+
+  return regenerateRecoveryCodes(merchantId);
+}
+
+export function disableTotp(merchantId: string): void {
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE merchants
+      SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_used_step = NULL
+      WHERE id = ?
+    `).run(merchantId);
+    db.prepare('DELETE FROM recovery_codes WHERE merchant_id = ?').run(merchantId);
+  })();
+}
+
+/**
+ * Check a TOTP code or recovery code. Each TOTP code and each recovery code
+ * is accepted only once.
+ */
+export function verifySecondFactor(merchantId: string, factor: SecondFactor): boolean {
+  const row = getTotpRow(merchantId);
+  if (!row?.totp_secret || row.totp_enabled_at == null) {
+    return false;
+  }
+
+  if (factor.totpCode !== undefined) {
+    const step = matchTotpStep(row.totp_secret, factor.totpCode, Date.now());
+    if (step === null || (row.totp_last_used_step !== null && step <= row.totp_last_used_step)) {
+      return false;
+    }
+
+    db.prepare('UPDATE merchants SET totp_last_used_step = ? WHERE id = ?').run(step, merchantId);
+    return true;
+  }
+
+  if (factor.recoveryCode !== undefined) {
+    const result = db.prepare(`
+      UPDATE recovery_codes
+      SET used_at = ?
+      WHERE merchant_id = ? AND code_hash = ? AND used_at IS NULL
+    `).run(Date.now(), merchantId, hashRecoveryCode(factor.recoveryCode));
+
+    return result.changes === 1;
+  }
+
+  return false;
+}
+
+/**
+ * Require a valid second factor when the merchant has TOTP enabled
+ * @throws UnauthorizedError with code 'totp_required' if no factor was given, or if it is invalid
+ */
+export function assertSecondFactor(merchantId: string, factor: SecondFactor): void {
+  if (!isTotpEnabled(merchantId)) {
+    return;
+  }
+
+  if (factor.totpCode === undefined && factor.recoveryCode === undefined) {
+    throw new ServiceError('Two-factor authentication code required', 401, 'totp_required');
+  }
+
+  if (!verifySecondFactor(merchantId, factor)) {
+    throw new UnauthorizedError('Invalid two-factor authentication code');
+  }
+}
@@ -0,0 +1,517 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { LookupAddress, lookup } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { nanoid } from 'nanoid';
+import { db } from '../db/schema';
+import { CreateWebhookInput, WebhookEventType } from '../validators/webhook.validators';
+import { ForbiddenError, NotFoundError, ServiceError } from './errors';
+
+const MAX_ENDPOINTS_PER_MERCHANT = 10;
+const MAX_ATTEMPTS = 8; // The last retry is about two hours after the first attempt
+const RETRY_BASE_DELAY_MS = 60 * 1000; // Doubled after each failed attempt
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_LEASE_MS = 60 * 1000; // Keeps an in-flight delivery from being picked up twice
+const DELIVERY_BATCH_SIZE = 20;
+const MAX_ERROR_LENGTH = 500;
+
+// Loopback, link-local, private and unique-local ranges, which would let an endpoint reach
+// the server's own network. IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8);
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8);
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10); // Carrier-grade NAT
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8);
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16); // Includes cloud metadata services
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12);
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16);
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+export const SIGNATURE_HEADER = 'X-BullPOS-Signature';
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60; // Receivers should reject older timestamps
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookEndpoint {
+  endpointId: string;
+  url: string;
+  events: WebhookEventType[] | null; // null: every event type
+  createdAt: number;
+}
+
+// Returned once at registration; the secret is never shown again
+export interface CreatedWebhookEndpoint extends WebhookEndpoint {
+  secret: string;
+}
+
+// Body of every delivery
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: number;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: number;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  nextAttemptAt: number | null;
+  deliveredAt: number | null;
+  createdAt: number;
+  attempts: WebhookDeliveryAttempt[];
+}
+
+interface EndpointRow {
+  id: string;
+  merchant_id: string;
+  url: string;
+  secret: string;
+  events: string | null;
+  created_at: number;
+}
+
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: number | null;
+  delivered_at: number | null;
+  created_at: number;
+}
+
+interface AttemptRow {
+  delivery_id: string;
+  attempted_at: number;
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+function mapRowToEndpoint(row: EndpointRow): WebhookEndpoint {
+  return {
+    endpointId: row.id,
+    url: row.url,
+    events: row.events === null ? null : JSON.parse(row.events) as WebhookEventType[],
+    createdAt: row.created_at,
+  };
+}
+
+function mapRowToDelivery(row: DeliveryRow, attempts: AttemptRow[]): WebhookDelivery {
+  return {
+    deliveryId: row.id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    status: row.status,
+    attemptCount: row.attempt_count,
+    nextAttemptAt: row.next_attempt_at,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at,
+    attempts: attempts.map(attempt => ({
+      attemptedAt: attempt.attempted_at,
+      responseStatus: attempt.response_status,
+      error: attempt.error,
+      durationMs: attempt.duration_ms,
+    })),
+  };
+}
+
+/**
+ * @throws NotFoundError if the endpoint does not exist
+ * @throws ForbiddenError if the endpoint belongs to another merchant
+ */
+function getOwnedEndpointRow(merchantId: string, endpointId: string): EndpointRow {
+  const row = db.prepare('SELECT * FROM webhook_endpoints WHERE id = ?').get(endpointId) as EndpointRow | undefined;
+  if (!row) {
+    throw new NotFoundError('Webhook endpoint not found');
+  }
+  if (row.merchant_id !== merchantId) {
+    throw new ForbiddenError('Webhook endpoint belongs to another merchant');
+  }
+  return row;
+}
+
+function getAttemptRows(deliveryIds: string[]): Map<string, AttemptRow[]> {
+  const byDelivery = new Map<string, AttemptRow[]>(deliveryIds.map(id => [id, []]));
+  if (deliveryIds.length === 0) {
+    return byDelivery;
+  }
+
+  const rows = db.prepare(`
+    SELECT delivery_id, attempted_at, response_status, error, duration_ms
+    FROM webhook_delivery_attempts
+    WHERE delivery_id IN (${deliveryIds.map(() => '?').join(', ')})
+    ORDER BY attempted_at, rowid
+  `).all(...deliveryIds) as AttemptRow[];
+
+  for (const row of rows) {
+    byDelivery.get(row.delivery_id)!.push(row);
+  }
+  return byDelivery;
+}
+
+// Only for tests and local development, where the receiver runs on this machine
+function allowsPrivateAddresses(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === 'true';
+}
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Host of an endpoint URL, without the brackets around IPv6 literals
+function endpointHost(url: string): string {
+  return new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * DNS lookup that refuses hosts with any private address. It runs when the
+ * socket connects, so the address that was checked is the one connected to.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) {
+      callback(err, '');
+    } else if (addresses.some(result => isPrivateAddress(result.address))) {
+      callback(new Error('Endpoint resolves to a loopback, link-local or private address'), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POST a delivery to an endpoint. Private addresses are refused at connect
+ * time, and redirects are not followed.
+ * @returns Status code of the response
+ * @throws Error if the endpoint is a private address, cannot be reached or times out
+ */
+function postToEndpoint(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const host = endpointHost(url);
+  if (!allowsPrivateAddresses() && isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new Error('Endpoint resolves to a loopback, link-local or private address'));
+  }
+
+  const client = new URL(url).protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: allowsPrivateAddresses() ? undefined : publicLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, response => {
+      response.resume();
+      resolve(response.statusCode!);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Register a webhook endpoint and generate its signing secret. Hostnames are
+ * checked when each delivery is sent, since what they resolve to can change.
+ * @throws ServiceError (400, code 'webhook_address_not_allowed') if the URL is a loopback, link-local or private IP address
+ * @throws ServiceError (409) if the merchant already has the maximum number of endpoints
+ */
+export function createWebhookEndpoint(merchantId: string, input: CreateWebhookInput): CreatedWebhookEndpoint {
+  const host = endpointHost(input.url);
+  if (!allowsPrivateAddresses() && isIP(host) && isPrivateAddress(host)) {
+    throw new ServiceError(
+      'Webhook URL must not point to a loopback, link-local or private address',
+      400,
+      'webhook_address_not_allowed'
+    );
+  }
+
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM webhook_endpoints WHERE merchant_id = ?')
+    .get(merchantId) as { count: number };
+  if (count >= MAX_ENDPOINTS_PER_MERCHANT) {
+    throw new ServiceError(
+      `A merchant can register at most ${MAX_ENDPOINTS_PER_MERCHANT} webhook endpoints`,
+      409,
+      'webhook_limit_reached'
+    );
+  }
+
+  const row: EndpointRow = {
+    id: nanoid(),
+    merchant_id: merchantId,
+    url: input.url,
+    secret: `whsec_${randomBytes(32).toString('base64url')}`,
+    events: input.events ? JSON.stringify([...new Set(input.events)]) : null,
+    created_at: Date.now(),
+  };
+
+  db.prepare(`
+    INSERT INTO webhook_endpoints (id, merchant_id, url, secret, events, created_at)
+    VALUES (@id, @merchant_id, @url, @secret, @events, @created_at)
+  `).run(row);
+
+  return { ...mapRowToEndpoint(row), secret: row.secret };
+}
+
+export function listWebhookEndpoints(merchantId: string): WebhookEndpoint[] {
+  const rows = db.prepare(`
+    SELECT * FROM webhook_endpoints WHERE merchant_id = ? ORDER BY created_at
+  `).all(merchantId) as EndpointRow[];
+
+  return rows.map(mapRowToEndpoint);
+}
+
+/**
+ * Remove a webhook endpoint along with its pending deliveries and history
+ * @throws NotFoundError if the endpoint does not exist
+ * @throws ForbiddenError if the endpoint belongs to another merchant
+ */
+export function deleteWebhookEndpoint(merchantId: string, endpointId: string): void {
+  getOwnedEndpointRow(merchantId, endpointId);
+  db.prepare('DELETE FROM webhook_endpoints WHERE id = ?').run(endpointId);
+}
+
+/**
+ * Queue an event for every endpoint of the merchant subscribed to its type.
+ * Call this inside the transaction that makes the change, so the outbox and
+ * the change are committed together.
+ * @returns Number of deliveries queued
+ */
+export function emitWebhookEvent(merchantId: string, type: WebhookEventType, data: Record<string, unknown>): number {
+  const endpoints = (db.prepare('SELECT * FROM webhook_endpoints WHERE merchant_id = ?').all(merchantId) as EndpointRow[])
+    .map(mapRowToEndpoint)
+    .filter(endpoint => endpoint.events === null || endpoint.events.includes(type));
+  if (endpoints.length === 0) {
+    return 0;
+  }
+
+  const now = Date.now();
+  const event: WebhookEvent = { id: `evt_${nanoid()}`, type, createdAt: now, data };
+  const payload = JSON.stringify(event);
+  const insert = db.prepare(`
+    INSERT INTO webhook_deliveries (id, endpoint_id, event_id, event_type, payload, status, next_attempt_at, created_at)
+    VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)
+  `);
+
+  for (const endpoint of endpoints) {
+    insert.run(nanoid(), endpoint.endpointId, event.id, type, payload, now, now);
+  }
+  return endpoints.length;
+}
+
+/**
+ * Build the signature header for a delivery: `t=<unix seconds>,v1=<hex HMAC-SHA256>`,
+ * where the HMAC covers `<t>.<body>` so the timestamp cannot be swapped
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a signature header as a receiver would: the HMAC must match and the
+ * timestamp must be recent, so a captured delivery cannot be replayed later
+ * @param now - Current time in milliseconds
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now = Date.now(),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = new Map(header.split(',').map(part => {
+    const index = part.indexOf('=');
+    return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as const;
+  }));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1], 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Delay before the next attempt once `attemptCount` attempts have failed
+ */
+export function webhookRetryDelayMs(attemptCount: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attemptCount - 1);
+}
+
+async function sendDelivery(delivery: DeliveryRow, endpoint: EndpointRow): Promise<void> {
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    responseStatus = await postToEndpoint(endpoint.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'BullPOS-Webhooks/1',
+      'X-BullPOS-Event': delivery.event_type,
+      'X-BullPOS-Delivery': delivery.id,
+      [SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, Math.floor(startedAt / 1000), delivery.payload),
+    }, delivery.payload);
+    if (responseStatus >= 300 && responseStatus < 400) {
+      error = `Endpoint redirected with ${responseStatus}; redirects are not followed`;
+    } else if (responseStatus >= 400) {
+      error = `Endpoint answered ${responseStatus}`;
+    }
+  } catch (err) {
+    error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  const finishedAt = Date.now();
+  const attemptCount = delivery.attempt_count + 1;
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO webhook_delivery_attempts (id, delivery_id, attempted_at, response_status, error, duration_ms)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(nanoid(), delivery.id, startedAt, responseStatus, error, finishedAt - startedAt);
+
+    if (error === null) {
+      db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = 'delivered', attempt_count = ?, next_attempt_at = NULL, delivered_at = ?
+        WHERE id = ?
+      `).run(attemptCount, finishedAt, delivery.id);
+    } else if (attemptCount >= MAX_ATTEMPTS) {
+      db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = 'failed', attempt_count = ?, next_attempt_at = NULL
+        WHERE id = ?
+      `).run(attemptCount, delivery.id);
+    } else {
+      db.prepare(`
+        UPDATE webhook_deliveries
+        SET attempt_count = ?, next_attempt_at = ?
+        WHERE id = ?
+      `).run(attemptCount, finishedAt + webhookRetryDelayMs(attemptCount), delivery.id);
+    }
+  })();
+}
+
+/**
+ * Send the deliveries that are due, one at a time
+ * @param now - Current time in milliseconds
+ * @returns Number of deliveries attempted
+ */
+export async function deliverDueWebhooks(now = Date.now()): Promise<number> {
+  const due = db.prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= ?
+    ORDER BY next_attempt_at
+    LIMIT ?
+  `).all(now, DELIVERY_BATCH_SIZE) as DeliveryRow[];
+
+  const claim = db.prepare(`
+    UPDATE webhook_deliveries SET next_attempt_at = ?
+    WHERE id = ? AND status = 'pending' AND next_attempt_at <= ?
+  `);
+  const getEndpoint = db.prepare('SELECT * FROM webhook_endpoints WHERE id = ?');
+
+  let attempted = 0;
+  for (const delivery of due) {
+    if (claim.run(now + DELIVERY_LEASE_MS, delivery.id, now).changes === 0) {
+      continue;
+    }
+    const endpoint = getEndpoint.get(delivery.endpoint_id) as EndpointRow | undefined;
+    if (!endpoint) {
+      continue; // Deleted while the batch was running
+    }
+
+    await sendDelivery(delivery, endpoint);
+    attempted++;
+  }
+  return attempted;
+}
+
+/**
+ * Deliver webhooks in the background until the returned function is called
+ */
+export function startWebhookWorker(intervalMs = 5000): () => void {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    deliverDueWebhooks()
+      .catch(error => console.error('Webhook delivery failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * List an endpoint's deliveries, newest first, with every attempt
+ * @throws NotFoundError if the endpoint does not exist
+ * @throws ForbiddenError if the endpoint belongs to another merchant
+ */
+export function listWebhookDeliveries(merchantId: string, endpointId: string, limit = 100): WebhookDelivery[] {
+  getOwnedEndpointRow(merchantId, endpointId);
+
+  const rows = db.prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE endpoint_id = ?
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT ?
+  `).all(endpointId, limit) as DeliveryRow[];
+
+  const attempts = getAttemptRows(rows.map(row => row.id));
+  return rows.map(row => mapRowToDelivery(row, attempts.get(row.id)!));
+}
+
+/**
+ * Queue a delivery to be sent again right away with a fresh retry budget,
+ * e.g. after the merchant fixed their endpoint
+ * @throws NotFoundError if the delivery does not exist or belongs to another merchant
+ */
+export function redeliverWebhook(merchantId: string, deliveryId: string): WebhookDelivery {
+  const row = db.prepare(`
+    SELECT d.* FROM webhook_deliveries d
+    JOIN webhook_endpoints e ON e.id = d.endpoint_id
+    WHERE d.id = ? AND e.merchant_id = ?
+  `).get(deliveryId, merchantId) as DeliveryRow | undefined;
+  if (!row) {
+    throw new NotFoundError('Webhook delivery not found');
+  }
+
+  const now = Date.now();
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET status = 'pending', attempt_count = 0, next_attempt_at = ?, delivered_at = NULL
+    WHERE id = ?
+  `).run(now, deliveryId);
+
+  const updated: DeliveryRow = { ...row, status: 'pending', attempt_count: 0, next_attempt_at: now, delivered_at: null };
+  return mapRowToDelivery(updated, getAttemptRows([deliveryId]).get(deliveryId)!);
+}
@@ -5,6 +5,47 @@
 import Database from 'better-sqlite3';
 import { nanoid } from 'nanoid';
 import * as bcrypt from 'bcryptjs';
+import { runMigrations } from '../db/migrate';
+
+/**
+ * Ed25519/Curve25519 public keys from frontend/test-vectors/pgp-vectors.json, for
+ * code that parses keys; the second matches src/recovery/__tests__/fixtures/private-key.asc
+ */
+export const TEST_PGP_PUBLIC_KEY = `-----BEGIN PGP PUBLIC KEY BLOCK-----
+
+xjMEaVW5ABYJKwYBBAHaRw8BAQdADOVk/lupBLkYG+2ER7NolU43GO4euKfA
+w5AmsqDPHXjNKkJ1bGxQT1MgVGVzdCBWZWN0b3IgPHZlY3RvcnNAYnVsbHBv
+cy50ZXN0PsLAEwQTFgoAhQWCaVW5AAMLCQcJEH5Ff3nqcJ0HRRQAAAAAABwA
+IHNhbHRAbm90YXRpb25zLm9wZW5wZ3Bqcy5vcmc9jqGyxWFp3qj0b5/WqerV
+ykFCcxoOtmRXq3huYFFHOQUVCggODAQWAAIBAhkBApsDAh4BFiEEogHh0gbl
+ZGMBNnCVfkV/eepwnQcAABtUAP0e7DD/1OUrUNNdimLcH+CE7SpGPADFHh0D
+WlglTXckhAD+LIhPr5dWBEXTPrzJZwNrgG70M6ytIJrQrNeXTgr+jQDOOARp
+VbkAEgorBgEEAZdVAQUBAQdAWxxARIprokPKoWwBZOaujVmAp/Z2tYg57bac
+H7YzLUEDAQgHwr4EGBYKAHAFgmlVuQAJEH5Ff3nqcJ0HRRQAAAAAABwAIHNh
+bHRAbm90YXRpb25zLm9wZW5wZ3Bqcy5vcme38HAjxkRPGqBSv5BTm42+zmNk
+YQ0DRu/4iZXnaQOrVAKbDBYhBKIB4dIG5WRjATZwlX5Ff3nqcJ0HAAA2ygD+
+OvXfOdj5Iezz5dPbi/xF8wkkVPafX/99yjNPhIoFCVEA/3BYJmy3iDSVh83P
+Cw3ejcwSRWSKxLhJcZwf/4ZycYsJ
+=eHms
+-----END PGP PUBLIC KEY BLOCK-----`;
+
+export const SECOND_TEST_PGP_PUBLIC_KEY = `-----BEGIN PGP PUBLIC KEY BLOCK-----
+
+xjMEaVW5ABYJKwYBBAHaRw8BAQdAycCibdnTXj1hiyX/cbZauc6myYDKhqB7
+p+uZ3Rpyno7NKkJ1bGxQT1MgVGVzdCBWZWN0b3IgPHZlY3RvcnNAYnVsbHBv
+cy50ZXN0PsLAEwQTFgoAhQWCaVW5AAMLCQcJEPBfpTuJJGZZRRQAAAAAABwA
+IHNhbHRAbm90YXRpb25zLm9wZW5wZ3Bqcy5vcmdwGDPCp5RDrdRg8vanoJy1
+up312qOC7QlW8wBbJ++QWAUVCggODAQWAAIBAhkBApsDAh4BFiEE9rq8+1jg
+NTVN0RUE8F+lO4kkZlkAACqUAP4mPiHwrHQiG9JXkjZTX7zPew7fCHK/fBhg
+EmTPY1yfCgD/UrsEAIlgwMbcoU+jm9rnebSXvX+6dBcGv66HH1oITw7OOARp
+VbkAEgorBgEEAZdVAQUBAQdAyLmfUgDxx6tFCn0JzvfDnYjvxuCoIR2CIfNz
+3NwqSycDAQgHwr4EGBYKAHAFgmlVuQAJEPBfpTuJJGZZRRQAAAAAABwAIHNh
+bHRAbm90YXRpb25zLm9wZW5wZ3Bqcy5vcmdPqmoJFHeMxqf79Hx/MF6tPSHp
+KYx1sZ7EqcOf3ZRncwKbDBYhBPa6vPtY4DU1TdEVBPBfpTuJJGZZAACLAwD/
+S29Pm2XE6V94SBSOFhB3tFkqSFY6KjG5H8uBPDS0pQEA/2UY5UWY+k5voIQq
+ZJFqf37p0vDh1EG0zt7Qv93Zb1oO
+=pjIz
+-----END PGP PUBLIC KEY BLOCK-----`;
 
 /**
  * Create a test database in memory
@@ -12,46 +53,10 @@ import * as bcrypt from 'bcryptjs';
 export function createTestDb(): Database.Database {
   const db = new Database(':memory:');
 
-  // Initialize schema (this should match your actual schema)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS merchants (
-      id TEXT PRIMARY KEY,
-      email TEXT UNIQUE NOT NULL,
-      password_hash TEXT NOT NULL,
-      pgp_public_key TEXT,
-      store_name TEXT,
-      website_url TEXT,
-      description TEXT,
-      language TEXT DEFAULT 'en',
-      currency TEXT DEFAULT 'BTC',
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE TABLE IF NOT EXISTS encrypted_links (
-      id TEXT PRIMARY KEY,
-      merchant_id TEXT NOT NULL,
-      ciphertext TEXT NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS backups (
-      id TEXT PRIMARY KEY,
-      merchant_id TEXT NOT NULL,
-      encrypted_link_id TEXT,
-      encrypted_backup TEXT NOT NULL,
-      status TEXT DEFAULT 'pending',
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE,
-      FOREIGN KEY (encrypted_link_id) REFERENCES encrypted_links(id) ON DELETE SET NULL
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_encrypted_links_merchant ON encrypted_links(merchant_id);
-    CREATE INDEX IF NOT EXISTS idx_backups_merchant ON backups(merchant_id);
-    CREATE INDEX IF NOT EXISTS idx_backups_link ON backups(encrypted_link_id);
-  `);
+  db.pragma('foreign_keys = ON');
+
+  // Same migrations as the application database
+  runMigrations(db);
 
   return db;
 }
@@ -7,6 +7,7 @@ import { beforeAll, afterAll, afterEach } from 'vitest';
 // Set test environment variables
 process.env.NODE_ENV = 'test';
 process.env.JWT_SECRET = 'test-secret-key-for-jwt-tokens';
+process.env.DB_PATH = ':memory:';
 
 beforeAll(() => {
   // Global setup before all tests
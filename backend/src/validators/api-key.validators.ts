@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Permissions an API key can be issued with; keys never manage the account, its keys or its staff
+export const apiKeyScopeSchema = z.enum(['links:write', 'links:read', 'backups:read', 'webhooks:manage']);
+
+// API key creation validation
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100), // e.g. the integration that uses it
+  scopes: z.array(apiKeyScopeSchema).min(1)
+    .transform(scopes => [...new Set(scopes)]),
+});
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { pgpPublicKeySchema, updateProfileSchema } from './merchant.validators';
+
+export const emailSchema = z.string().trim().toLowerCase().email().max(254);
+
+// Merchant registration validation
+export const registerSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(8).max(128),
+  pgpPublicKey: pgpPublicKeySchema,
+  storeName: updateProfileSchema.shape.storeName,
+});
+
+const totpCodeSchema = z.string().regex(/^\d{6}$/, 'Must be a 6-digit code');
+const recoveryCodeSchema = z.string().min(1).max(32);
+
+// Login validation; the second factor is only required once TOTP is enabled
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1).max(128),
+  totpCode: totpCodeSchema.optional(),
+  recoveryCode: recoveryCodeSchema.optional(),
+});
+
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+
+// Re-authentication before sensitive changes (password, plus a second factor if enabled)
+export const stepUpSchema = z.object({
+  password: z.string().min(1).max(128),
+  totpCode: totpCodeSchema.optional(),
+  recoveryCode: recoveryCodeSchema.optional(),
+});
+
+// TOTP enrollment confirmation
+export const confirmTotpSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export type StepUpInput = z.infer<typeof stepUpSchema>;
+
+// Token refresh validation
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1).max(256),
+});
+
+export type RefreshInput = z.infer<typeof refreshSchema>;
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { pgpFingerprintSchema } from './merchant.validators';
+import { csvEnumSchema, paginationQuerySchema } from './pagination.validators';
+import { storeIdSchema } from './store.validators';
+
+// Swap states: pending -> invoice_paid -> claimed, with refunded, failed and recovered as the other outcomes
+export const backupStatusSchema = z.enum(['pending', 'invoice_paid', 'claimed', 'refunded', 'failed', 'recovered']);
+
+// Backup creation validation; the merchant is taken from the payment link when one is given
+export const createBackupSchema = z.object({
+  encryptedBackup: z.string().min(1),
+  merchantId: z.string().min(1).optional(),
+  paymentLinkId: z.string().min(1).optional(),
+  storeId: storeIdSchema.optional(), // Taken from the payment link when one is given
+  status: z.literal('pending').default('pending'), // Progress is reported afterwards, through PUT /api/backups/:id
+  keyFingerprint: pgpFingerprintSchema.optional(), // Key it is encrypted to (default: the merchant's current key)
+}).refine(backup => backup.merchantId !== undefined || backup.paymentLinkId !== undefined, {
+  message: 'Either merchantId or paymentLinkId is required'
+});
+
+// Backup update validation: a status transition, a new revision of the ciphertext, or both
+export const updateBackupSchema = z.object({
+  status: backupStatusSchema.optional(),
+  encryptedBackup: z.string().min(1).optional(),
+  keyFingerprint: pgpFingerprintSchema.optional(), // Must be the key the backup was created with
+}).refine(update => update.status !== undefined || update.encryptedBackup !== undefined, {
+  message: 'Either status or encryptedBackup is required'
+});
+
+// Re-encryption of a backup to the merchant's current key, by the merchant
+export const reencryptBackupSchema = z.object({
+  encryptedBackup: z.string().min(1),
+  keyFingerprint: pgpFingerprintSchema,
+});
+
+// GET /api/backups query: cursor pagination plus filters
+export const listBackupsQuerySchema = paginationQuerySchema.extend({
+  sort: z.enum(['createdAt', 'updatedAt']).default('createdAt'),
+  status: csvEnumSchema(backupStatusSchema).optional(), // e.g. status=pending,failed
+  paymentLinkId: z.string().min(1).optional(),
+  storeId: storeIdSchema.optional(),
+  keyFingerprint: pgpFingerprintSchema.optional(),
+});
+
+export type BackupStatus = z.infer<typeof backupStatusSchema>;
+export type CreateBackupInput = z.infer<typeof createBackupSchema>;
+export type UpdateBackupInput = z.infer<typeof updateBackupSchema>;
+export type ReencryptBackupInput = z.infer<typeof reencryptBackupSchema>;
+export type ListBackupsQuery = z.infer<typeof listBackupsQuerySchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { booleanQuerySchema, csvEnumSchema, paginationQuerySchema } from './pagination.validators';
+import { storeIdSchema } from './store.validators';
+
+const base64UrlSchema = z.string().regex(/^[A-Za-z0-9_-]+$/, 'Must be base64url encoded');
+
+export const linkStatusSchema = z.enum(['active', 'paid', 'expired', 'cancelled', 'archived']);
+
+// Payment link creation validation (the server only ever sees AES-256-GCM ciphertext)
+export const createLinkSchema = z.object({
+  ciphertext: z.string().min(1),
+  nonce: base64UrlSchema.nullish(), // Only when the IV is not prepended to the ciphertext
+  tag: base64UrlSchema.nullish(), // Only when the GCM tag is not appended to the ciphertext
+  expiresAt: z.number().int()
+    .refine(expiresAt => expiresAt > Date.now(), 'expiresAt must be in the future')
+    .nullish(), // Unix time in milliseconds
+  maxUses: z.number().int().min(1).nullish(), // Completed payments before the link counts as paid
+  storeId: storeIdSchema.optional(), // Store the link is made for
+}).refine(link => !link.nonce === !link.tag, {
+  message: 'nonce and tag must be provided together'
+});
+
+// Payment link status change validation
+export const updateLinkStatusSchema = z.object({
+  status: linkStatusSchema,
+});
+
+// Swap progress reported by the paying browser (POST /api/links/:id/events)
+export const linkEventTypeSchema = z.enum(['swap-created', 'invoice-paid', 'claim-broadcast', 'claim-confirmed']);
+
+export const createLinkEventSchema = z.object({
+  type: linkEventTypeSchema,
+  swapId: z.string().regex(/^[A-Za-z0-9]{1,64}$/, 'Must be a Boltz swap ID'),
+  txid: z.string().regex(/^[0-9a-f]{64}$/, 'Must be a Liquid transaction ID').nullish(), // The claim transaction, once known
+});
+
+// GET /api/links query: cursor pagination plus filters
+export const listLinksQuerySchema = paginationQuerySchema.extend({
+  sort: z.enum(['createdAt']).default('createdAt'),
+  status: csvEnumSchema(linkStatusSchema).optional(), // e.g. status=paid,expired
+  hasBackup: booleanQuerySchema.optional(), // Whether any swap backup was uploaded for the link
+  storeId: storeIdSchema.optional(),
+});
+
+export type LinkStatus = z.infer<typeof linkStatusSchema>;
+export type CreateLinkInput = z.infer<typeof createLinkSchema>;
+export type UpdateLinkStatusInput = z.infer<typeof updateLinkStatusSchema>;
+export type LinkEventType = z.infer<typeof linkEventTypeSchema>;
+export type CreateLinkEventInput = z.infer<typeof createLinkEventSchema>;
+export type ListLinksQuery = z.infer<typeof listLinksQuerySchema>;
@@ -1,16 +1,41 @@
 import { z } from 'zod';
 
+const PGP_PUBLIC_KEY_HEADER = '-----BEGIN PGP PUBLIC KEY BLOCK-----';
+const PGP_PUBLIC_KEY_FOOTER = '-----END PGP PUBLIC KEY BLOCK-----';
+
+// ASCII-armored PGP public key; swap backups are encrypted to it in the browser
+export const pgpPublicKeySchema = z.string().trim().max(100_000)
+  .refine(key => key.startsWith(PGP_PUBLIC_KEY_HEADER) && key.endsWith(PGP_PUBLIC_KEY_FOOTER), {
+    message: 'PGP public key must be an ASCII-armored public key block'
+  })
+  .refine(key => key.length > PGP_PUBLIC_KEY_HEADER.length + PGP_PUBLIC_KEY_FOOTER.length + 1, {
+    message: 'PGP public key block is empty'
+  })
+  .refine(key => !key.includes('PRIVATE KEY BLOCK'), {
+    message: 'PGP key must not contain a private key'
+  });
+
+// Key fingerprint as lowercase hex: 40 characters for v4 keys, 64 for v6 keys
+export const pgpFingerprintSchema = z.string().regex(/^(?:[0-9a-f]{40}|[0-9a-f]{64})$/, {
+  message: 'PGP key fingerprint must be lowercase hex'
+});
+
+export const languageSchema = z.enum(['en', 'es', 'fr', 'de', 'pt', 'ja', 'zh']);
+export const currencySchema = z.enum(['BTC', 'SAT', 'USD', 'EUR', 'CAD', 'GBP', 'JPY']);
+
+export const websiteUrlSchema = z.string().url().max(500)
+  .refine(url => url.startsWith('http://') || url.startsWith('https://'), {
+    message: 'Website URL must use HTTP or HTTPS protocol'
+  });
+
 // Profile update validation
 export const updateProfileSchema = z.object({
   storeName: z.string().min(1).max(255).optional(),
-  websiteUrl: z.string().url().max(500)
-    .refine(url => url.startsWith('http://') || url.startsWith('https://'), {
-      message: 'Website URL must use HTTP or HTTPS protocol'
-    })
-    .optional(),
+  websiteUrl: websiteUrlSchema.optional(),
   description: z.string().max(2000).optional(),
-  language: z.enum(['en', 'es', 'fr', 'de', 'pt', 'ja', 'zh']).optional(),
-  currency: z.enum(['BTC', 'SAT', 'USD', 'EUR', 'CAD', 'GBP', 'JPY']).optional(),
+  language: languageSchema.optional(),
+  currency: currencySchema.optional(),
+  pgpPublicKey: pgpPublicKeySchema.optional(), // Requires a recent step-up (POST /api/auth/step-up)
 });
 
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Query parameters shared by every paginated list; endpoints extend it with their sorts and filters
+export const paginationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().min(1).max(512).optional(), // nextCursor from the previous page
+  order: z.enum(['asc', 'desc']).default('desc'),
+  createdAfter: z.coerce.number().int().nonnegative().optional(), // Unix ms, inclusive
+  createdBefore: z.coerce.number().int().nonnegative().optional(), // Unix ms, exclusive
+});
+
+/**
+ * Comma-separated list query parameter, e.g. `status=paid,expired`
+ */
+export function csvEnumSchema<T extends [string, ...string[]]>(values: z.ZodEnum<T>) {
+  return z.string()
+    .transform(value => value.split(',').map(item => item.trim()).filter(Boolean))
+    .pipe(z.array(values).min(1));
+}
+
+export const booleanQuerySchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+export type SortOrder = z.infer<typeof paginationQuerySchema>['order'];
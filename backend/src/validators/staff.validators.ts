@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { emailSchema } from './auth.validators';
+
+// Roles staff can be given; the owner is the merchant account itself
+export const staffRoleSchema = z.enum(['manager', 'cashier', 'accountant']);
+
+// Staff invitation validation
+export const inviteStaffSchema = z.object({
+  email: emailSchema,
+  role: staffRoleSchema,
+});
+
+// Role change validation
+export const updateStaffSchema = z.object({
+  role: staffRoleSchema,
+});
+
+// Invitation acceptance; the invitee chooses their own password
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1).max(256),
+  password: z.string().min(8).max(128),
+});
+
+export type StaffRole = z.infer<typeof staffRoleSchema>;
+export type InviteStaffInput = z.infer<typeof inviteStaffSchema>;
+export type UpdateStaffInput = z.infer<typeof updateStaffSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
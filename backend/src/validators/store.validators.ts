@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { currencySchema, languageSchema, websiteUrlSchema } from './merchant.validators';
+
+// Fingerprint of the store's wallet descriptor as lowercase hex; the descriptor itself never reaches the server
+export const descriptorFingerprintSchema = z.string().regex(/^[0-9a-f]{8,64}$/, {
+  message: 'Descriptor fingerprint must be 8 to 64 lowercase hex characters'
+});
+
+export const storeIdSchema = z.string().min(1).max(64);
+
+const storeFields = {
+  name: z.string().min(1).max(255),
+  descriptorFingerprint: descriptorFingerprintSchema.nullish(),
+  currency: currencySchema,
+  language: languageSchema,
+  description: z.string().max(2000).nullish(),
+  websiteUrl: websiteUrlSchema.nullish(),
+  logoUrl: z.string().url().max(500)
+    .refine(url => url.startsWith('https://'), {
+      message: 'Logo URL must use HTTPS'
+    })
+    .nullish(),
+  brandColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Brand color must be a #rrggbb hex color').nullish(),
+};
+
+// Store creation validation; currency and language default to the merchant profile's
+export const createStoreSchema = z.object({
+  ...storeFields,
+  currency: storeFields.currency.optional(),
+  language: storeFields.language.optional(),
+});
+
+// Store update validation; null clears an optional field
+export const updateStoreSchema = z.object(storeFields).partial();
+
+export type CreateStoreInput = z.infer<typeof createStoreSchema>;
+export type UpdateStoreInput = z.infer<typeof updateStoreSchema>;
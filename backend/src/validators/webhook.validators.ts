@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+// Link lifecycle changes (link.<status>) and swap progress (link.<event type>)
+export const webhookEventTypeSchema = z.enum([
+  'link.paid',
+  'link.expired',
+  'link.cancelled',
+  'link.archived',
+  'link.swap-created',
+  'link.invoice-paid',
+  'link.claim-broadcast',
+  'link.claim-confirmed',
+]);
+
+// Webhook endpoint registration validation; production endpoints must use TLS
+export const createWebhookSchema = z.object({
+  url: z.string().url().max(2048)
+    .refine(url => /^https?:\/\//i.test(url), 'Webhook URL must use http or https')
+    .refine(
+      url => process.env.NODE_ENV !== 'production' || /^https:\/\//i.test(url),
+      'Webhook URL must use https'
+    ),
+  events: z.array(webhookEventTypeSchema).min(1).optional(), // Defaults to every event type
+});
+
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
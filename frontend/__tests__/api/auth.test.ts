@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { login, stepUp, TOTP_REQUIRED_CODE } from '../../src/api/auth'
+import { ApiError } from '../../src/api/client'
+
+/**
+ * Test suite for merchant sign-in
+ */
+
+function mockFetch(status: number, body: unknown) {
+    const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe('login', () => {
+    it('should return the session tokens', async () => {
+        const session = { merchantId: 'merchant123', role: 'owner', token: 'access', refreshToken: 'refresh', expiresIn: 900 }
+        const fetchMock = mockFetch(200, session)
+
+        expect(await login({ email: 'a@example.com', password: 'secret' })).toEqual(session)
+
+        const [url, init] = fetchMock.mock.calls[0]
+        expect(url).toBe('/api/auth/login')
+        expect(init.method).toBe('POST')
+        expect(JSON.parse(init.body)).toEqual({ email: 'a@example.com', password: 'secret' })
+    })
+
+    it('should report a missing second factor by its code', async () => {
+        mockFetch(401, { error: 'Two-factor authentication code required', code: TOTP_REQUIRED_CODE })
+
+        const error = await login({ email: 'a@example.com', password: 'secret' }).catch(e => e)
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error.code).toBe('totp_required')
+    })
+})
+
+describe('stepUp', () => {
+    it('should confirm the password for the session', async () => {
+        const fetchMock = mockFetch(200, { stepUpExpiresAt: 5000 })
+
+        expect(await stepUp('access', { password: 'secret', totpCode: '123456' })).toBe(5000)
+
+        const [url, init] = fetchMock.mock.calls[0]
+        expect(url).toBe('/api/auth/step-up')
+        expect(init.headers.Authorization).toBe('Bearer access')
+        expect(JSON.parse(init.body)).toEqual({ password: 'secret', totpCode: '123456' })
+    })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { ApiError, apiRequest, getApiBaseUrl, isRetryableError, retryWithBackoff } from '../../src/api/client'
+
+/**
+ * Test suite for the backend API client
+ */
+
+function mockFetch(status: number, body: unknown) {
+    const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe('apiRequest', () => {
+    it('should use the relative API path outside development', () => {
+        expect(getApiBaseUrl()).toBe('/api')
+    })
+
+    it('should use the local backend on localhost', () => {
+        vi.stubGlobal('location', { hostname: 'localhost' })
+        expect(getApiBaseUrl()).toBe('http://localhost:3000/api')
+    })
+
+    it('should send JSON bodies', async () => {
+        const fetchMock = mockFetch(201, { ok: true })
+        await apiRequest('/things', { method: 'POST', body: { a: 1 } })
+
+        const [url, init] = fetchMock.mock.calls[0]
+        expect(url).toBe('/api/things')
+        expect(init.method).toBe('POST')
+        expect(init.body).toBe('{"a":1}')
+        expect(init.headers['Content-Type']).toBe('application/json')
+    })
+
+    it('should throw ApiError with the server error message', async () => {
+        mockFetch(404, { error: 'Link not found' })
+
+        const error = await apiRequest('/links/missing').catch(e => e)
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error.status).toBe(404)
+        expect(error.message).toBe('Link not found')
+        expect(error.code).toBeUndefined()
+    })
+
+    it('should pass on the error code from the server', async () => {
+        mockFetch(410, { error: 'Payment link has expired', code: 'expired' })
+
+        const error = await apiRequest('/links/old').catch(e => e)
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error.status).toBe(410)
+        expect(error.code).toBe('expired')
+    })
+
+    it('should throw ApiError with status 0 on network failure', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')))
+
+        const error = await apiRequest('/links/abc').catch(e => e)
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error.status).toBe(0)
+    })
+})
+
+describe('apiRequest expectStatus', () => {
+    it('should reject a 2xx response with an unexpected status', async () => {
+        mockFetch(200, { backupId: 'abc' })
+
+        const error = await apiRequest('/backups', { method: 'POST', body: {}, expectStatus: 201 }).catch(e => e)
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error.status).toBe(200)
+    })
+})
+
+describe('isRetryableError', () => {
+    it('should retry network errors, rate limits and server errors', () => {
+        expect(isRetryableError(new ApiError('offline', 0))).toBe(true)
+        expect(isRetryableError(new ApiError('slow down', 429))).toBe(true)
+        expect(isRetryableError(new ApiError('oops', 503))).toBe(true)
+    })
+
+    it('should not retry client errors or unknown errors', () => {
+        expect(isRetryableError(new ApiError('bad request', 400))).toBe(false)
+        expect(isRetryableError(new ApiError('not found', 404))).toBe(false)
+        expect(isRetryableError(new Error('boom'))).toBe(false)
+    })
+})
+
+describe('retryWithBackoff', () => {
+    it('should return the first successful result', async () => {
+        const operation = vi.fn()
+            .mockRejectedValueOnce(new ApiError('offline', 0))
+            .mockRejectedValueOnce(new ApiError('oops', 500))
+            .mockResolvedValue('ok')
+        const onRetry = vi.fn()
+
+        expect(await retryWithBackoff(operation, { baseDelayMs: 0, onRetry })).toBe('ok')
+        expect(operation).toHaveBeenCalledTimes(3)
+        expect(onRetry).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give up after the configured number of attempts', async () => {
+        const operation = vi.fn().mockRejectedValue(new ApiError('offline', 0))
+
+        await expect(retryWithBackoff(operation, { attempts: 3, baseDelayMs: 0 })).rejects.toThrow('offline')
+        expect(operation).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry errors that are not transient', async () => {
+        const operation = vi.fn().mockRejectedValue(new ApiError('not found', 404))
+
+        await expect(retryWithBackoff(operation, { baseDelayMs: 0 })).rejects.toThrow('not found')
+        expect(operation).toHaveBeenCalledTimes(1)
+    })
+
+    it('should double the delay after each attempt', async () => {
+        vi.useFakeTimers()
+        try {
+            const operation = vi.fn().mockRejectedValue(new ApiError('offline', 0))
+            const result = retryWithBackoff(operation, { attempts: 3, baseDelayMs: 100 }).catch(e => e)
+
+            await vi.advanceTimersByTimeAsync(99)
+            expect(operation).toHaveBeenCalledTimes(1)
+            await vi.advanceTimersByTimeAsync(1)
+            expect(operation).toHaveBeenCalledTimes(2)
+            await vi.advanceTimersByTimeAsync(199)
+            expect(operation).toHaveBeenCalledTimes(2)
+            await vi.advanceTimersByTimeAsync(1)
+            expect(operation).toHaveBeenCalledTimes(3)
+
+            expect(await result).toBeInstanceOf(ApiError)
+        } finally {
+            vi.useRealTimers()
+        }
+    })
+})
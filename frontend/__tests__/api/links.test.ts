@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { decryptPaymentLink, fetchPaymentLink, PaymentLinkError, reportLinkEvent } from '../../src/api/links'
+import { ApiError } from '../../src/api/client'
+import { aesEncrypt, base64UrlToBytes, bytesToBase64Url, generateAesKey } from '../../src/crypto/aes'
+
+/**
+ * Test suite for loading encrypted payment links
+ */
+
+const payload = {
+    fiatAmount: 12.5,
+    currency: 'USD',
+    satoshis: 25000,
+    description: 'Coffee',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    descriptor: 'ct(slip77(abc),elwpkh(xpub/<0;1>/*))',
+    merchantId: 'merchant123'
+}
+
+function mockFetch(status: number, body: unknown) {
+    const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+async function encryptedLink(data: unknown, key: string) {
+    return {
+        linkId: 'link123',
+        ciphertext: await aesEncrypt(JSON.stringify(data), key),
+        createdAt: '2026-01-01T00:00:00.000Z'
+    }
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe('fetchPaymentLink', () => {
+    it('should fetch the link by ID', async () => {
+        const fetchMock = mockFetch(200, { linkId: 'abc', ciphertext: 'x', createdAt: 'now' })
+
+        const link = await fetchPaymentLink('abc')
+        expect(link.linkId).toBe('abc')
+        expect(fetchMock.mock.calls[0][0]).toBe('/api/links/abc')
+    })
+})
+
+describe('reportLinkEvent', () => {
+    it('should post the event for the link', async () => {
+        const fetchMock = mockFetch(201, { eventId: 'e1', type: 'swap-created', swapId: 'swap1' })
+
+        await reportLinkEvent('abc', { type: 'swap-created', swapId: 'swap1' })
+
+        const [url, init] = fetchMock.mock.calls[0]
+        expect(url).toBe('/api/links/abc/events')
+        expect(init.method).toBe('POST')
+        expect(JSON.parse(init.body)).toEqual({ type: 'swap-created', swapId: 'swap1' })
+    })
+
+    it('should not retry events the server rejects', async () => {
+        const fetchMock = mockFetch(404, { error: 'Payment link not found' })
+
+        await expect(reportLinkEvent('gone', { type: 'claim-broadcast', swapId: 'swap1' }, { baseDelayMs: 0 }))
+            .rejects.toBeInstanceOf(ApiError)
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe('decryptPaymentLink', () => {
+    it('should decrypt and validate the invoice payload', async () => {
+        const key = await generateAesKey()
+        const link = await encryptedLink(payload, key)
+
+        expect(await decryptPaymentLink(link, key)).toEqual(payload)
+    })
+
+    it('should accept links with a separate nonce and tag', async () => {
+        const key = await generateAesKey()
+        const bytes = base64UrlToBytes((await encryptedLink(payload, key)).ciphertext)!
+        const link = {
+            linkId: 'link123',
+            nonce: bytesToBase64Url(bytes.subarray(0, 12)),
+            ciphertext: bytesToBase64Url(bytes.subarray(12, bytes.length - 16)),
+            tag: bytesToBase64Url(bytes.subarray(bytes.length - 16)),
+            createdAt: '2026-01-01T00:00:00.000Z'
+        }
+
+        expect(await decryptPaymentLink(link, key)).toEqual(payload)
+    })
+
+    it('should reject the wrong key', async () => {
+        const link = await encryptedLink(payload, await generateAesKey())
+
+        await expect(decryptPaymentLink(link, await generateAesKey())).rejects.toThrow(PaymentLinkError)
+    })
+
+    it('should reject payloads that are not JSON', async () => {
+        const key = await generateAesKey()
+        const link = { linkId: 'link123', ciphertext: await aesEncrypt('not json', key), createdAt: '' }
+
+        await expect(decryptPaymentLink(link, key)).rejects.toThrow(PaymentLinkError)
+    })
+
+    it('should reject invalid invoice payloads', async () => {
+        const key = await generateAesKey()
+        const link = await encryptedLink({ ...payload, satoshis: -1 }, key)
+
+        await expect(decryptPaymentLink(link, key)).rejects.toThrow(PaymentLinkError)
+    })
+
+    it('should reject a non-string descriptor', async () => {
+        const key = await generateAesKey()
+        const link = await encryptedLink({ ...payload, descriptor: 42 }, key)
+
+        await expect(decryptPaymentLink(link, key)).rejects.toThrow(PaymentLinkError)
+    })
+
+    it('should reject a non-string merchant ID', async () => {
+        const key = await generateAesKey()
+        const link = await encryptedLink({ ...payload, merchantId: ['merchant123'] }, key)
+
+        await expect(decryptPaymentLink(link, key)).rejects.toThrow(PaymentLinkError)
+    })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { listPgpKeys, replacePgpKey, retirePgpKey } from '../../src/api/merchants'
+import { ApiError } from '../../src/api/client'
+
+/**
+ * Test suite for the merchant PGP key history endpoints
+ */
+
+const FINGERPRINT = 'a201e1d206e56463013670957e457f79ea709d07'
+
+function mockFetch(status: number, body: unknown) {
+    const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe('PGP key history', () => {
+    it('should list the keys with the access token', async () => {
+        const keys = [{ fingerprint: FINGERPRINT, publicKey: 'key', validFrom: 1, validUntil: null, retiredAt: null, pendingBackups: 0 }]
+        const fetchMock = mockFetch(200, keys)
+
+        expect(await listPgpKeys('access')).toEqual(keys)
+
+        const [url, init] = fetchMock.mock.calls[0]
+        expect(url).toBe('/api/merchants/pgp-keys')
+        expect(init.headers.Authorization).toBe('Bearer access')
+    })
+
+    it('should replace the key through the profile', async () => {
+        const fetchMock = mockFetch(200, { id: 'merchant123' })
+
+        await replacePgpKey('access', 'new-key')
+
+        const [url, init] = fetchMock.mock.calls[0]
+        expect(url).toBe('/api/merchants/profile')
+        expect(init.method).toBe('PUT')
+        expect(JSON.parse(init.body)).toEqual({ pgpPublicKey: 'new-key' })
+    })
+
+    it('should report a key that still has pending backups', async () => {
+        const fetchMock = mockFetch(409, { error: '1 pending backups are still encrypted to this key', code: 'key_in_use' })
+
+        const error = await retirePgpKey('access', FINGERPRINT).catch(e => e)
+
+        expect(fetchMock.mock.calls[0][0]).toBe(`/api/merchants/pgp-keys/${FINGERPRINT}/retire`)
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error.code).toBe('key_in_use')
+    })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { confirmTotpEnrollment, startTotpEnrollment, totpQrImageSrc } from '../../src/api/totp'
+import { ApiError } from '../../src/api/client'
+
+/**
+ * Test suite for TOTP enrollment
+ */
+
+function mockFetch(status: number, body: unknown) {
+    const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+    )
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+const ENROLLMENT = {
+    secret: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+    otpauthUri: 'otpauth://totp/BullPOS%3Amerchant%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=BullPOS'
+}
+
+describe('TOTP enrollment', () => {
+    it('should start enrollment with the access token', async () => {
+        const fetchMock = mockFetch(200, ENROLLMENT)
+
+        expect(await startTotpEnrollment('access-token')).toEqual(ENROLLMENT)
+
+        const [url, init] = fetchMock.mock.calls[0]
+        expect(url).toBe('/api/auth/totp/enroll')
+        expect(init.method).toBe('POST')
+        expect(init.headers.Authorization).toBe('Bearer access-token')
+    })
+
+    it('should return the recovery codes after confirmation', async () => {
+        const fetchMock = mockFetch(200, { recoveryCodes: ['abcd-efgh-ijkl'] })
+
+        expect(await confirmTotpEnrollment('access-token', '123456')).toEqual(['abcd-efgh-ijkl'])
+        expect(fetchMock.mock.calls[0][1].body).toBe('{"code":"123456"}')
+    })
+
+    it('should surface a wrong code as ApiError', async () => {
+        mockFetch(401, { error: 'Invalid two-factor authentication code' })
+
+        await expect(confirmTotpEnrollment('access-token', '000000')).rejects.toThrow(ApiError)
+    })
+
+    it('should render the otpauth URI with the given QR renderer', () => {
+        const stringToQr = vi.fn().mockReturnValue('data:image/svg+xml;base64,AAAA')
+
+        expect(totpQrImageSrc(ENROLLMENT.otpauthUri, stringToQr)).toBe('data:image/svg+xml;base64,AAAA')
+        expect(stringToQr).toHaveBeenCalledWith(ENROLLMENT.otpauthUri)
+    })
+
+    it('should refuse to render other URIs', () => {
+        expect(() => totpQrImageSrc('https://example.com', vi.fn())).toThrow()
+    })
+})
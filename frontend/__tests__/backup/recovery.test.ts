@@ -0,0 +1,161 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+    decryptSwapBackup,
+    listRecoverableBackups,
+    parseSwapBackup,
+    recoverBackup,
+    RecoveryStep,
+    SwapRecoveryError
+} from '../../src/backup/recovery'
+import { SwapBackup } from '../../src/backup/swap-backup'
+import { ApiError } from '../../src/api/client'
+import { pgpEncrypt, PgpError } from '../../src/crypto/pgp'
+import pgpVectors from '../../test-vectors/pgp-vectors.json'
+
+/**
+ * Test suite for recovering swaps from encrypted backups
+ */
+
+const merchantKey = pgpVectors.vectors[0]
+const otherKey = pgpVectors.vectors[1]
+
+const backup: SwapBackup = {
+    version: 1,
+    swapId: 'swap123',
+    invoice: 'lnbc250u1p...',
+    swap: '{"id":"swap123"}',
+    mnemonic: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    satoshis: 25000,
+    paymentLinkId: 'link123',
+    createdAt: '2026-01-01T00:00:00.000Z'
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function summary(backupId: string) {
+    return { backupId, paymentLinkId: null, status: 'failed', version: 1, createdAt: 1000, updatedAt: 2000 }
+}
+
+/**
+ * Serve GET /backups/:id with the given payload and accept PUT /backups/:id and POST /backups/:id/confirm-payment
+ */
+function mockBackupBackend(encryptedBackup: string) {
+    const fetchMock = vi.fn(async (url: string, init: { method?: string }) => {
+        if (init.method === 'PUT' || init.method === 'POST') {
+            return jsonResponse(200, { ...summary('backup123'), status: 'recovered' })
+        }
+        return jsonResponse(200, { ...summary('backup123'), encryptedBackup })
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+})
+
+describe('parseSwapBackup', () => {
+    it('should accept a version 1 swap backup', () => {
+        expect(parseSwapBackup(JSON.stringify(backup))).toEqual(backup)
+    })
+
+    it('should reject content that is not a swap backup', () => {
+        expect(() => parseSwapBackup('not json')).toThrow(SwapRecoveryError)
+        expect(() => parseSwapBackup(JSON.stringify({ ...backup, version: 2 }))).toThrow(SwapRecoveryError)
+        expect(() => parseSwapBackup(JSON.stringify({ ...backup, swap: '' }))).toThrow(SwapRecoveryError)
+    })
+})
+
+describe('decryptSwapBackup', () => {
+    it('should decrypt a backup with the merchant private key', async () => {
+        const encrypted = await pgpEncrypt(JSON.stringify(backup), merchantKey.publicKey)
+
+        expect(await decryptSwapBackup(encrypted, { privateKey: merchantKey.privateKey })).toEqual(backup)
+    })
+
+    it('should fail with another key', async () => {
+        const encrypted = await pgpEncrypt(JSON.stringify(backup), merchantKey.publicKey)
+
+        await expect(decryptSwapBackup(encrypted, { privateKey: otherKey.privateKey })).rejects.toThrow(PgpError)
+    })
+})
+
+describe('listRecoverableBackups', () => {
+    it('should follow cursors and only ask for unfinished swaps', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse(200, { data: [summary('b1'), summary('b2')], nextCursor: 'page2' }))
+            .mockResolvedValueOnce(jsonResponse(200, { data: [summary('b3')], nextCursor: null }))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const backups = await listRecoverableBackups('access-token')
+
+        expect(backups.map(b => b.backupId)).toEqual(['b1', 'b2', 'b3'])
+        const [firstUrl, init] = fetchMock.mock.calls[0]
+        expect(firstUrl).toBe('/api/backups?status=pending%2Cinvoice_paid%2Cfailed&limit=200')
+        expect(init.headers.Authorization).toBe('Bearer access-token')
+        expect(fetchMock.mock.calls[1][0]).toContain('cursor=page2')
+    })
+})
+
+describe('recoverBackup', () => {
+    it('should decrypt, claim and mark the backup recovered, reporting each step', async () => {
+        const fetchMock = mockBackupBackend(await pgpEncrypt(JSON.stringify(backup), merchantKey.publicKey))
+        const claim = vi.fn(async (_backup: SwapBackup, onRestored: () => void) => {
+            onRestored()
+            return true
+        })
+        const steps: RecoveryStep[] = []
+
+        const recovered = await recoverBackup('access-token', 'backup123', { privateKey: merchantKey.privateKey },
+            claim, step => steps.push(step))
+
+        expect(recovered).toEqual(backup)
+        expect(claim.mock.calls[0][0]).toEqual(backup)
+        expect(steps).toEqual(['fetching', 'decrypting', 'restoring', 'claiming', 'recovered'])
+
+        const [url, init] = fetchMock.mock.calls[1] as unknown as [string, { method: string; body: string }]
+        expect(url).toBe('/api/backups/backup123')
+        expect(init.method).toBe('PUT')
+        expect(JSON.parse(init.body)).toEqual({ status: 'recovered' })
+
+        const [confirmUrl, confirmInit] = fetchMock.mock.calls[2] as unknown as
+            [string, { method: string; headers: Record<string, string> }]
+        expect(confirmUrl).toBe('/api/backups/backup123/confirm-payment')
+        expect(confirmInit.method).toBe('POST')
+        expect(confirmInit.headers.Authorization).toBe('Bearer access-token')
+    })
+
+    it('should not mark the backup when the claim fails', async () => {
+        const fetchMock = mockBackupBackend(await pgpEncrypt(JSON.stringify(backup), merchantKey.publicKey))
+        const steps: RecoveryStep[] = []
+
+        await expect(recoverBackup('access-token', 'backup123', { privateKey: merchantKey.privateKey },
+            async () => false, step => steps.push(step))).rejects.toThrow(SwapRecoveryError)
+
+        expect(steps[steps.length - 1]).toBe('failed')
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should still succeed when the status report fails after the claim', async () => {
+        const encryptedBackup = await pgpEncrypt(JSON.stringify(backup), merchantKey.publicKey)
+        vi.stubGlobal('fetch', vi.fn()
+            .mockResolvedValueOnce(jsonResponse(200, { ...summary('backup123'), encryptedBackup }))
+            .mockResolvedValueOnce(jsonResponse(503, { error: 'Service unavailable' })))
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+        await expect(recoverBackup('access-token', 'backup123', { privateKey: merchantKey.privateKey },
+            async () => true, () => {})).resolves.toEqual(backup)
+    })
+
+    it('should surface a backup owned by someone else as ApiError', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(403, { error: 'Backup belongs to another merchant' })))
+        const claim = vi.fn()
+
+        await expect(recoverBackup('access-token', 'backup123', { privateKey: merchantKey.privateKey },
+            claim, () => {})).rejects.toThrow(ApiError)
+        expect(claim).not.toHaveBeenCalled()
+    })
+})
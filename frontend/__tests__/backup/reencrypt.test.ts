@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+    reencryptBackupsForKey,
+    ReencryptKeyMismatchError,
+    reencryptSwapBackup,
+    ReencryptStep
+} from '../../src/backup/reencrypt'
+import { SwapBackup } from '../../src/backup/swap-backup'
+import { SwapRecoveryError } from '../../src/backup/recovery'
+import { pgpDecrypt, pgpEncrypt, pgpKeyFingerprint } from '../../src/crypto/pgp'
+import pgpVectors from '../../test-vectors/pgp-vectors.json'
+
+/**
+ * Test suite for moving swap backups to a new PGP key
+ */
+
+const oldKey = pgpVectors.vectors[0]
+const newKey = pgpVectors.vectors[1]
+const OLD_FINGERPRINT = 'a201e1d206e56463013670957e457f79ea709d07'
+const NEW_FINGERPRINT = 'f6babcfb58e035354dd11504f05fa53b89246659'
+
+const backup: SwapBackup = {
+    version: 1,
+    swapId: 'swap123',
+    invoice: 'lnbc250u1p...',
+    swap: '{"id":"swap123"}',
+    mnemonic: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    satoshis: 25000,
+    paymentLinkId: 'link123',
+    createdAt: '2026-01-01T00:00:00.000Z'
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function summary(backupId: string, keyFingerprint = OLD_FINGERPRINT) {
+    return { backupId, paymentLinkId: null, status: 'pending', version: 1, keyFingerprint, createdAt: 1000, updatedAt: 2000 }
+}
+
+/**
+ * Serve the listed backups, each with the given payload, and accept re-encrypted uploads
+ */
+function mockBackend(payloads: Record<string, string>, reencryptStatus = 200) {
+    const fetchMock = vi.fn(async (url: string, init: { method?: string }) => {
+        if (url.includes('/backups?')) {
+            return jsonResponse(200, { data: Object.keys(payloads).map(id => summary(id)), nextCursor: null })
+        }
+        const backupId = url.split('/')[3]
+        if (init.method === 'POST') {
+            return jsonResponse(reencryptStatus, reencryptStatus === 200
+                ? { ...summary(backupId, NEW_FINGERPRINT), version: 2 }
+                : { error: 'Cannot revise a claimed backup', code: 'backup_finalized' })
+        }
+        return jsonResponse(200, { ...summary(backupId), encryptedBackup: payloads[backupId] })
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+function uploads(fetchMock: ReturnType<typeof mockBackend>) {
+    return fetchMock.mock.calls
+        .filter(([, init]) => init.method === 'POST')
+        .map(([url, init]) => ({ url, body: JSON.parse((init as unknown as { body: string }).body) }))
+}
+
+const target = { publicKey: newKey.publicKey, fingerprint: NEW_FINGERPRINT }
+const privateKey = { privateKey: oldKey.privateKey }
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe('pgpKeyFingerprint', () => {
+    it('should give the same fingerprint for both halves of a key pair', async () => {
+        expect(await pgpKeyFingerprint(oldKey.publicKey)).toBe(OLD_FINGERPRINT)
+        expect(await pgpKeyFingerprint(oldKey.privateKey)).toBe(OLD_FINGERPRINT)
+        expect(await pgpKeyFingerprint(newKey.publicKey)).toBe(NEW_FINGERPRINT)
+    })
+})
+
+describe('reencryptSwapBackup', () => {
+    it('should upload the backup encrypted to the new key', async () => {
+        const fetchMock = mockBackend({ backup1: await pgpEncrypt(JSON.stringify(backup), oldKey.publicKey) })
+        const steps: ReencryptStep[] = []
+
+        await reencryptSwapBackup('token', 'backup1', privateKey, target, step => steps.push(step))
+
+        expect(steps).toEqual(['fetching', 'decrypting', 'encrypting', 'uploading', 'done'])
+        const [upload] = uploads(fetchMock)
+        expect(upload.url).toBe('/api/backups/backup1/reencrypt')
+        expect(upload.body.keyFingerprint).toBe(NEW_FINGERPRINT)
+        const decrypted = await pgpDecrypt(upload.body.encryptedBackup, newKey.privateKey, newKey.passphrase)
+        expect(JSON.parse(decrypted)).toEqual(backup)
+    })
+
+    it('should not upload content that is not a swap backup', async () => {
+        const fetchMock = mockBackend({ backup1: await pgpEncrypt('not a backup', oldKey.publicKey) })
+        const steps: ReencryptStep[] = []
+
+        await expect(reencryptSwapBackup('token', 'backup1', privateKey, target, step => steps.push(step)))
+            .rejects.toThrow(SwapRecoveryError)
+        expect(steps[steps.length - 1]).toBe('failed')
+        expect(uploads(fetchMock)).toHaveLength(0)
+    })
+})
+
+describe('reencryptBackupsForKey', () => {
+    it('should move every pending backup of the old key', async () => {
+        const encrypted = await pgpEncrypt(JSON.stringify(backup), oldKey.publicKey)
+        const fetchMock = mockBackend({ backup1: encrypted, backup2: encrypted })
+
+        const result = await reencryptBackupsForKey('token', OLD_FINGERPRINT, privateKey, target)
+
+        expect(result).toEqual({ reencrypted: ['backup1', 'backup2'], failed: [] })
+        const listUrl = fetchMock.mock.calls[0][0]
+        expect(listUrl).toContain(`keyFingerprint=${OLD_FINGERPRINT}`)
+        expect(listUrl).toContain('status=pending%2Cinvoice_paid%2Cfailed')
+    })
+
+    it('should carry on past backups that cannot be moved', async () => {
+        mockBackend({
+            backup1: await pgpEncrypt(JSON.stringify(backup), newKey.publicKey),
+            backup2: await pgpEncrypt(JSON.stringify(backup), oldKey.publicKey)
+        })
+
+        const result = await reencryptBackupsForKey('token', OLD_FINGERPRINT, privateKey, target)
+
+        expect(result.reencrypted).toEqual(['backup2'])
+        expect(result.failed.map(failure => failure.backupId)).toEqual(['backup1'])
+    })
+
+    it('should report backups the server refuses', async () => {
+        mockBackend({ backup1: await pgpEncrypt(JSON.stringify(backup), oldKey.publicKey) }, 409)
+
+        const result = await reencryptBackupsForKey('token', OLD_FINGERPRINT, privateKey, target)
+
+        expect(result.failed[0].error).toMatchObject({ status: 409, code: 'backup_finalized' })
+    })
+
+    it('should refuse a private key that is not the old key', async () => {
+        const fetchMock = mockBackend({})
+
+        await expect(reencryptBackupsForKey('token', OLD_FINGERPRINT, { privateKey: newKey.privateKey }, target))
+            .rejects.toThrow(ReencryptKeyMismatchError)
+        expect(fetchMock).not.toHaveBeenCalled()
+    })
+})
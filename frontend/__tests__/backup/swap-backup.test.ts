@@ -0,0 +1,216 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { ApiError } from '../../src/api/client'
+import { reportSwapClaimed, SwapBackup, SwapBackupError, uploadSwapBackup } from '../../src/backup/swap-backup'
+import { pgpDecrypt } from '../../src/crypto/pgp'
+import pgpVectors from '../../test-vectors/pgp-vectors.json'
+
+/**
+ * Test suite for encrypting and uploading swap backups
+ */
+
+const merchantKey = pgpVectors.vectors[0]
+const MERCHANT_FINGERPRINT = 'a201e1d206e56463013670957e457f79ea709d07'
+
+const backup: SwapBackup = {
+    version: 1,
+    swapId: 'swap123',
+    invoice: 'lnbc250u1p...',
+    swap: '{"id":"swap123"}',
+    mnemonic: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    satoshis: 25000,
+    paymentLinkId: 'link123',
+    createdAt: '2026-01-01T00:00:00.000Z'
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+/**
+ * Route mocked fetch calls: GET .../pgp returns the merchant key, POST .../backups
+ * returns the given responses in order
+ */
+function mockBackend(
+    backupResponses: Array<Response | Error>,
+    pgpPublicKey = merchantKey.publicKey,
+    fingerprint: string | null = MERCHANT_FINGERPRINT
+) {
+    const fetchMock = vi.fn(async (url: string) => {
+        if (url.includes('/pgp')) {
+            return jsonResponse(200, { pgpPublicKey, fingerprint })
+        }
+        const next = backupResponses.shift()!
+        if (next instanceof Error) {
+            throw next
+        }
+        return next
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+}
+
+function backupCalls(fetchMock: ReturnType<typeof mockBackend>) {
+    return fetchMock.mock.calls.filter(([url]) => url.endsWith('/backups'))
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+})
+
+describe('uploadSwapBackup', () => {
+    it('should upload a backup encrypted to the merchant key', async () => {
+        const fetchMock = mockBackend([jsonResponse(201, { backupId: 'backup123' })])
+
+        expect(await uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0 })).toBe('backup123')
+
+        expect(fetchMock.mock.calls[0][0]).toBe('/api/merchants/merchant123/pgp')
+        const [, init] = backupCalls(fetchMock)[0] as unknown as [string, { method: string; body: string }]
+        expect(init.method).toBe('POST')
+
+        const body = JSON.parse(init.body)
+        expect(body.merchantId).toBe('merchant123')
+        expect(body.paymentLinkId).toBe('link123')
+        expect(body.status).toBe('pending')
+        expect(body.keyFingerprint).toBe(MERCHANT_FINGERPRINT)
+        expect(body.encryptedBackup).toContain('-----BEGIN PGP MESSAGE-----')
+
+        const decrypted = await pgpDecrypt(body.encryptedBackup, merchantKey.privateKey)
+        expect(JSON.parse(decrypted)).toEqual(backup)
+    })
+
+    it('should attribute a POS backup to the terminal\'s store', async () => {
+        const fetchMock = mockBackend([jsonResponse(201, { backupId: 'backup123' })])
+        const posBackup: SwapBackup = { ...backup, paymentLinkId: undefined, storeId: 'store456' }
+
+        await uploadSwapBackup(posBackup, 'merchant123', { baseDelayMs: 0 })
+
+        const [, init] = backupCalls(fetchMock)[0] as unknown as [string, { body: string }]
+        const body = JSON.parse(init.body)
+        expect(body.storeId).toBe('store456')
+        expect(body).not.toHaveProperty('paymentLinkId')
+    })
+
+    it('should retry transient upload failures', async () => {
+        const fetchMock = mockBackend([
+            new TypeError('Failed to fetch'),
+            jsonResponse(503, { error: 'Service unavailable' }),
+            jsonResponse(201, { backupId: 'backup123' })
+        ])
+        const onRetry = vi.fn()
+
+        expect(await uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0, onRetry })).toBe('backup123')
+        expect(backupCalls(fetchMock)).toHaveLength(3)
+        expect(onRetry).toHaveBeenCalledTimes(2)
+    })
+
+    it('should send the same Idempotency-Key on every attempt', async () => {
+        const fetchMock = mockBackend([
+            jsonResponse(503, { error: 'Service unavailable' }),
+            jsonResponse(201, { backupId: 'backup123' })
+        ])
+
+        await uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0 })
+
+        const keys = backupCalls(fetchMock).map(call =>
+            (call as unknown as [string, { headers: Record<string, string> }])[1].headers['Idempotency-Key'])
+        expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/)
+        expect(keys[1]).toBe(keys[0])
+    })
+
+    it('should fail after the last attempt', async () => {
+        const fetchMock = mockBackend([
+            jsonResponse(500, { error: 'Internal server error' }),
+            jsonResponse(500, { error: 'Internal server error' })
+        ])
+
+        await expect(uploadSwapBackup(backup, 'merchant123', { attempts: 2, baseDelayMs: 0 }))
+            .rejects.toThrow(SwapBackupError)
+        expect(backupCalls(fetchMock)).toHaveLength(2)
+    })
+
+    it('should not retry a rejected backup', async () => {
+        const fetchMock = mockBackend([jsonResponse(400, { error: 'Validation error' })])
+
+        await expect(uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0 })).rejects.toThrow('Validation error')
+        expect(backupCalls(fetchMock)).toHaveLength(1)
+    })
+
+    it('should only accept 201 Created', async () => {
+        mockBackend([jsonResponse(200, { backupId: 'backup123' })])
+
+        await expect(uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0 })).rejects.toThrow(SwapBackupError)
+    })
+
+    it('should fail when the merchant does not exist', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(404, { error: 'Merchant not found' })))
+
+        await expect(uploadSwapBackup(backup, 'missing', { baseDelayMs: 0 })).rejects.toThrow(SwapBackupError)
+    })
+
+    it('should fail when the merchant key cannot encrypt', async () => {
+        const fetchMock = mockBackend([], 'not a pgp key')
+
+        await expect(uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0 })).rejects.toThrow(SwapBackupError)
+        expect(backupCalls(fetchMock)).toHaveLength(0)
+    })
+
+    it('should ask for the key the link is pinned to', async () => {
+        const fetchMock = mockBackend([jsonResponse(201, { backupId: 'backup123' })])
+
+        await uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0, pgpFingerprint: MERCHANT_FINGERPRINT })
+
+        expect(fetchMock.mock.calls[0][0]).toBe(`/api/merchants/merchant123/pgp?fingerprint=${MERCHANT_FINGERPRINT}`)
+        expect(backupCalls(fetchMock)).toHaveLength(1)
+    })
+
+    it('should refuse a key other than the pinned one', async () => {
+        const otherKey = pgpVectors.vectors[1]
+        const fetchMock = mockBackend([], otherKey.publicKey, MERCHANT_FINGERPRINT)
+
+        await expect(uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0, pgpFingerprint: MERCHANT_FINGERPRINT }))
+            .rejects.toThrow(SwapBackupError)
+        expect(backupCalls(fetchMock)).toHaveLength(0)
+    })
+
+    it('should refuse a key the server misstates the fingerprint of', async () => {
+        const fetchMock = mockBackend([], merchantKey.publicKey, 'f6babcfb58e035354dd11504f05fa53b89246659')
+
+        await expect(uploadSwapBackup(backup, 'merchant123', { baseDelayMs: 0 })).rejects.toThrow(SwapBackupError)
+        expect(backupCalls(fetchMock)).toHaveLength(0)
+    })
+})
+
+describe('reportSwapClaimed', () => {
+    it('should report the swap as paid and then claimed', async () => {
+        const fetchMock = mockBackend([
+            jsonResponse(200, { backupId: 'b1', status: 'invoice_paid' }),
+            jsonResponse(200, { backupId: 'b1', status: 'claimed' })
+        ])
+
+        await reportSwapClaimed('b1')
+
+        expect(fetchMock.mock.calls.map(([url, init]) => [url, init.method, JSON.parse(init.body).status])).toEqual([
+            ['/api/backups/b1', 'PUT', 'invoice_paid'],
+            ['/api/backups/b1', 'PUT', 'claimed']
+        ])
+    })
+
+    it('should retry transient failures', async () => {
+        const fetchMock = mockBackend([
+            jsonResponse(503, { error: 'Unavailable' }),
+            jsonResponse(200, { backupId: 'b1', status: 'invoice_paid' }),
+            jsonResponse(200, { backupId: 'b1', status: 'claimed' })
+        ])
+
+        await reportSwapClaimed('b1', { baseDelayMs: 0 })
+
+        expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry a status the server rejects', async () => {
+        const fetchMock = mockBackend([jsonResponse(409, { error: 'Cannot change a refunded backup to invoice_paid' })])
+
+        await expect(reportSwapClaimed('b1', { baseDelayMs: 0 })).rejects.toBeInstanceOf(ApiError)
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+})
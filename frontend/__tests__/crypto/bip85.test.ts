@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import {
+    deriveBip85Entropy,
+    deriveLinkKey,
+    linkKeyPath,
+    mnemonicToSeed,
+    parseHardenedPath,
+    parseXprv,
+    Bip85Error
+} from '../../src/crypto/bip85'
+import { aesDecrypt, aesEncrypt, base64UrlToBytes } from '../../src/crypto/aes'
+import bip85Vectors from '../../test-vectors/bip85-vectors.json'
+
+/**
+ * Test suite for BIP85 link key derivation
+ *
+ * The bip85 vectors are copied from the BIP85 specification; the linkKeys
+ * vectors pin the m/83696968'/128169'/32'/{index}' derivation used for links.
+ */
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const TEST_MNEMONIC = bip85Vectors.linkKeys[0].mnemonic
+
+describe('BIP85 Derivation', () => {
+    describe('mnemonicToSeed', () => {
+        it('should match the BIP39 reference vector', async () => {
+            const seed = await mnemonicToSeed(TEST_MNEMONIC, 'TREZOR')
+            expect(toHex(seed)).toBe(
+                'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04'
+            )
+        })
+
+        it('should normalize whitespace and case', async () => {
+            const messy = `  ${TEST_MNEMONIC.toUpperCase().replace(/ /g, '   ')}\n`
+            expect(toHex(await mnemonicToSeed(messy))).toBe(toHex(await mnemonicToSeed(TEST_MNEMONIC)))
+        })
+
+        it('should reject mnemonics with an invalid word count', async () => {
+            await expect(mnemonicToSeed('abandon abandon abandon')).rejects.toThrow(Bip85Error)
+            await expect(mnemonicToSeed('')).rejects.toThrow(Bip85Error)
+        })
+    })
+
+    describe('parseXprv', () => {
+        it('should reject a corrupted checksum', async () => {
+            const xprv = bip85Vectors.bip85[0].xprv
+            const corrupted = xprv.slice(0, -1) + (xprv.endsWith('b') ? 'c' : 'b')
+
+            await expect(parseXprv(corrupted)).rejects.toThrow(Bip85Error)
+        })
+
+        it('should reject invalid base58 characters', async () => {
+            await expect(parseXprv('xprv0OIl')).rejects.toThrow(Bip85Error)
+        })
+    })
+
+    describe('parseHardenedPath', () => {
+        it('should parse hardened paths', () => {
+            expect(parseHardenedPath("m/83696968'/128169'/32'/7'")).toEqual([83696968, 128169, 32, 7])
+        })
+
+        it('should reject non-hardened steps', () => {
+            expect(() => parseHardenedPath("m/83696968'/128169'/32/0'")).toThrow(Bip85Error)
+        })
+
+        it('should reject paths without a root', () => {
+            expect(() => parseHardenedPath("83696968'/0'")).toThrow(Bip85Error)
+        })
+    })
+
+    describe('linkKeyPath', () => {
+        it('should use the BIP85 HEX application with 32 bytes', () => {
+            expect(linkKeyPath(5)).toBe("m/83696968'/128169'/32'/5'")
+        })
+
+        it('should reject invalid link indexes', () => {
+            expect(() => linkKeyPath(-1)).toThrow(Bip85Error)
+            expect(() => linkKeyPath(1.5)).toThrow(Bip85Error)
+            expect(() => linkKeyPath(0x80000000)).toThrow(Bip85Error)
+        })
+    })
+
+    describe('deriveLinkKey', () => {
+        it('should be deterministic', async () => {
+            const key1 = await deriveLinkKey(TEST_MNEMONIC, 3)
+            const key2 = await deriveLinkKey(TEST_MNEMONIC, 3)
+            expect(key1).toBe(key2)
+        })
+
+        it('should derive independent keys per link index', async () => {
+            const key0 = await deriveLinkKey(TEST_MNEMONIC, 0)
+            const key1 = await deriveLinkKey(TEST_MNEMONIC, 1)
+            expect(key0).not.toBe(key1)
+        })
+
+        it('should produce 256-bit keys usable with aesEncrypt/aesDecrypt', async () => {
+            const key = await deriveLinkKey(TEST_MNEMONIC, 0)
+            expect(base64UrlToBytes(key)!.length).toBe(32)
+
+            const encrypted = await aesEncrypt('payment link payload', key)
+            const regenerated = await deriveLinkKey(TEST_MNEMONIC, 0)
+            expect(await aesDecrypt(encrypted, regenerated)).toBe('payment link payload')
+        })
+
+        it('should reject an invalid link index before deriving', async () => {
+            await expect(deriveLinkKey(TEST_MNEMONIC, -1)).rejects.toThrow(Bip85Error)
+        })
+    })
+})
+
+describe('BIP85 Test Vectors', () => {
+    for (const vector of bip85Vectors.bip85) {
+        it(`should derive ${vector.name}`, async () => {
+            const root = await parseXprv(vector.xprv)
+            const entropy = await deriveBip85Entropy(root, vector.path)
+            expect(toHex(entropy)).toBe(vector.entropy)
+        })
+    }
+
+    for (const vector of bip85Vectors.linkKeys) {
+        it(`should derive link key ${vector.path} for "${vector.mnemonic.split(' ')[0]} ..."`, async () => {
+            const key = await deriveLinkKey(vector.mnemonic, vector.linkIndex)
+            expect(key).toBe(vector.key)
+            expect(toHex(base64UrlToBytes(key)!)).toBe(vector.keyHex)
+            expect(linkKeyPath(vector.linkIndex)).toBe(vector.path)
+        })
+    }
+})
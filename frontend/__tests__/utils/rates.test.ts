@@ -311,4 +311,15 @@ describe('validateInvoicePayload', () => {
             timestamp: '2024-01-15T10:30:00.123Z'
         })).toBe(true)
     })
+
+    it('should accept v4 and v6 PGP fingerprints', () => {
+        expect(validateInvoicePayload({ ...validPayload, pgpFingerprint: 'a201e1d206e56463013670957e457f79ea709d07' })).toBe(true)
+        expect(validateInvoicePayload({ ...validPayload, pgpFingerprint: 'ab'.repeat(32) })).toBe(true)
+    })
+
+    it('should reject malformed PGP fingerprints', () => {
+        expect(validateInvoicePayload({ ...validPayload, pgpFingerprint: 'A201E1D206E56463013670957E457F79EA709D07' })).toBe(false)
+        expect(validateInvoicePayload({ ...validPayload, pgpFingerprint: 'a201e1d2' })).toBe(false)
+        expect(validateInvoicePayload({ ...validPayload, pgpFingerprint: 1234 })).toBe(false)
+    })
 })
@@ -3,7 +3,8 @@ import {
     base64UrlEncode,
     base64UrlDecode,
     encodeConfig,
-    decodeConfig
+    decodeConfig,
+    parsePaymentLinkFragment
 } from '../../src/utils/url-parser'
 
 describe('base64UrlEncode', () => {
@@ -239,4 +240,73 @@ describe('decodeConfig', () => {
         const result = decodeConfig('')
         expect(result).toBeNull()
     })
+
+    it('should round-trip the merchant ID', () => {
+        const decoded = decodeConfig(encodeConfig('my-descriptor', 'USD', false, true, 'merchant123'))
+        expect(decoded?.m).toBe('merchant123')
+    })
+
+    it('should omit the merchant ID when not set', () => {
+        const decoded = decodeConfig(encodeConfig('my-descriptor', 'USD', false, true))
+        expect(decoded).not.toHaveProperty('m')
+    })
+
+    it('should drop a malformed merchant ID', () => {
+        const encoded = base64UrlEncode(JSON.stringify({ d: 'desc', c: 'USD', m: 42 }))
+        expect(decodeConfig(encoded)).not.toHaveProperty('m')
+    })
+
+    it('should round-trip the store ID', () => {
+        const decoded = decodeConfig(encodeConfig('my-descriptor', 'USD', false, true, 'merchant123', 'store456'))
+        expect(decoded?.s).toBe('store456')
+    })
+
+    it('should omit the store ID without a merchant ID', () => {
+        expect(decodeConfig(encodeConfig('my-descriptor', 'USD', false, true, '', 'store456'))).not.toHaveProperty('s')
+
+        const encoded = base64UrlEncode(JSON.stringify({ d: 'desc', c: 'USD', s: 'store456' }))
+        expect(decodeConfig(encoded)).not.toHaveProperty('s')
+    })
+
+    it('should drop a malformed store ID', () => {
+        const encoded = base64UrlEncode(JSON.stringify({ d: 'desc', c: 'USD', m: 'merchant123', s: 7 }))
+        expect(decodeConfig(encoded)).not.toHaveProperty('s')
+    })
+})
+
+describe('parsePaymentLinkFragment', () => {
+    const key = 'A'.repeat(42) + 'Q'
+
+    it('should parse a link fragment', () => {
+        expect(parsePaymentLinkFragment(`l=abc123_-XYZ&k=${key}`)).toEqual({ linkId: 'abc123_-XYZ', key })
+    })
+
+    it('should accept parameters in any order', () => {
+        expect(parsePaymentLinkFragment(`k=${key}&l=abc`)).toEqual({ linkId: 'abc', key })
+    })
+
+    it('should return null for a POS config', () => {
+        const encoded = encodeConfig('my-descriptor', 'USD', false, true)
+        expect(parsePaymentLinkFragment(encoded)).toBeNull()
+    })
+
+    it('should return null when the key is missing', () => {
+        expect(parsePaymentLinkFragment('l=abc')).toBeNull()
+    })
+
+    it('should return null when the link ID is missing', () => {
+        expect(parsePaymentLinkFragment(`k=${key}`)).toBeNull()
+    })
+
+    it('should return null for a key that is not 256 bits', () => {
+        expect(parsePaymentLinkFragment(`l=abc&k=${key.slice(1)}`)).toBeNull()
+    })
+
+    it('should return null for a link ID with invalid characters', () => {
+        expect(parsePaymentLinkFragment(`l=../admin&k=${key}`)).toBeNull()
+    })
+
+    it('should return null for empty string', () => {
+        expect(parsePaymentLinkFragment('')).toBeNull()
+    })
 })
@@ -0,0 +1,78 @@
+/**
+ * Merchant sign-in
+ *
+ * Used by pages that act on the merchant's account, such as swap recovery
+ * and PGP key rotation.
+ * Tokens are kept in memory by the caller and never written to storage.
+ */
+
+import { apiRequest } from './client';
+
+/**
+ * Body of POST /api/auth/login; a TOTP or recovery code is required once two-factor authentication is enabled
+ */
+export interface LoginCredentials {
+    email: string;
+    password: string;
+    totpCode?: string;
+    recoveryCode?: string;
+}
+
+/**
+ * Who a session acts as: the merchant account's owner, or a staff member
+ */
+export type MerchantRole = 'owner' | 'manager' | 'cashier' | 'accountant';
+
+/**
+ * Tokens returned by a successful login
+ */
+export interface MerchantSession {
+    merchantId: string;
+    role: MerchantRole; // Decides what the backend allows; see DEVELOPMENT.md
+
+    token: string; // Access token, sent as `Authorization: Bearer`
+    refreshToken: string;
+    expiresIn: number; // Access token lifetime in seconds
+}
+
+/**
+ * Error code the backend answers with when the account needs a second factor
+ */
+export const TOTP_REQUIRED_CODE = 'totp_required';
+
+/**
+ * Error code the backend answers with (403) when the signed-in role does not allow the request
+ */
+export const PERMISSION_DENIED_CODE = 'permission_denied';
+
+/**
+ * Sign in as a merchant or one of their staff
+ * @throws ApiError (401) if the credentials are wrong, with code `totp_required` if a
+ *   two-factor code is missing
+ */
+export async function login(credentials: LoginCredentials): Promise<MerchantSession> {
+    return apiRequest<MerchantSession>('/auth/login', {
+        method: 'POST',
+        body: credentials
+    });
+}
+
+/**
+ * Re-enter the password (and second factor) before a sensitive change, such as
+ * replacing or retiring the PGP key; the confirmation lasts a few minutes
+ * @param accessToken - Merchant access token
+ * @returns When the confirmation expires (Unix ms)
+ * @throws ApiError (401) if the credentials are wrong, with code `totp_required` if a
+ *   two-factor code is missing
+ */
+export async function stepUp(
+    accessToken: string,
+    credentials: Omit<LoginCredentials, 'email'>
+): Promise<number> {
+    const { stepUpExpiresAt } = await apiRequest<{ stepUpExpiresAt: number }>('/auth/step-up', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+        body: credentials
+    });
+    return stepUpExpiresAt;
+}
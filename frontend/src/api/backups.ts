@@ -0,0 +1,167 @@
+/**
+ * Swap backup endpoints
+ */
+
+import { ApiError, apiRequest } from './client';
+
+export type BackupStatus = 'pending' | 'invoice_paid' | 'claimed' | 'refunded' | 'failed' | 'recovered';
+
+/**
+ * Body of POST /api/backups
+ */
+export interface CreateBackupRequest {
+    encryptedBackup: string; // ASCII-armored PGP message
+    merchantId: string;
+    paymentLinkId?: string; // Set when the swap was created from a payment link
+    storeId?: string; // Store the POS terminal belongs to; backups for a payment link take the link's store
+    status: 'pending'; // Progress is reported afterwards with updateBackupStatus
+    keyFingerprint?: string; // Key the backup is encrypted to (default: the merchant's current key)
+}
+
+/**
+ * Store an encrypted swap backup
+ * @param idempotencyKey - Sent as the Idempotency-Key header; reuse it when retrying so a
+ *   request that reached the server is not stored twice
+ * @returns ID of the stored backup
+ * @throws ApiError unless the backend answers 201 Created with a backup ID
+ */
+export async function createBackup(request: CreateBackupRequest, idempotencyKey?: string): Promise<string> {
+    const { backupId } = await apiRequest<{ backupId: string }>('/backups', {
+        method: 'POST',
+        body: request,
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+        expectStatus: 201
+    });
+    if (typeof backupId !== 'string' || !backupId) {
+        throw new ApiError('Backup response is missing backupId', 201);
+    }
+    return backupId;
+}
+
+/**
+ * Backup as listed by GET /api/backups (without the encrypted payload)
+ */
+export interface BackupSummary {
+    backupId: string;
+    storeId: string | null;
+    paymentLinkId: string | null;
+    status: BackupStatus;
+    version: number; // Revision of the ciphertext, starting at 1
+    keyFingerprint: string | null; // PGP key it is encrypted to; null for backups older than the key history
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Backup with its payload, returned by GET /api/backups/:id
+ */
+export interface Backup extends BackupSummary {
+    encryptedBackup: string; // ASCII-armored PGP message
+}
+
+/**
+ * One page of GET /api/backups
+ */
+export interface BackupPage {
+    data: BackupSummary[];
+    nextCursor: string | null; // null on the last page
+}
+
+/**
+ * Query for listBackups
+ */
+export interface ListBackupsQuery {
+    status?: BackupStatus[];
+    keyFingerprint?: string;
+    storeId?: string;
+    cursor?: string;
+    limit?: number;
+}
+
+function authHeaders(accessToken: string): Record<string, string> {
+    return { Authorization: `Bearer ${accessToken}` };
+}
+
+/**
+ * Fetch one page of the merchant's backups, newest first
+ * @param accessToken - Merchant access token
+ * @throws ApiError if the token is rejected or the backend is unreachable
+ */
+export async function listBackups(accessToken: string, query: ListBackupsQuery = {}): Promise<BackupPage> {
+    const params = new URLSearchParams();
+    if (query.status && query.status.length > 0) {
+        params.set('status', query.status.join(','));
+    }
+    if (query.keyFingerprint) {
+        params.set('keyFingerprint', query.keyFingerprint);
+    }
+    if (query.storeId) {
+        params.set('storeId', query.storeId);
+    }
+    if (query.cursor) {
+        params.set('cursor', query.cursor);
+    }
+    if (query.limit !== undefined) {
+        params.set('limit', String(query.limit));
+    }
+
+    const search = params.toString();
+    return apiRequest<BackupPage>(`/backups${search ? `?${search}` : ''}`, {
+        headers: authHeaders(accessToken)
+    });
+}
+
+/**
+ * Fetch a backup including its encrypted payload
+ * @param accessToken - Merchant access token
+ * @throws ApiError (404) if the backup does not exist, (403) if it belongs to another merchant
+ */
+export async function fetchBackup(accessToken: string, backupId: string): Promise<Backup> {
+    return apiRequest<Backup>(`/backups/${encodeURIComponent(backupId)}`, {
+        headers: authHeaders(accessToken)
+    });
+}
+
+/**
+ * Report a swap's progress (PUT /api/backups/:id)
+ * @throws ApiError (409) if the backup cannot move to this status
+ */
+export async function updateBackupStatus(backupId: string, status: BackupStatus): Promise<BackupSummary> {
+    return apiRequest<BackupSummary>(`/backups/${encodeURIComponent(backupId)}`, {
+        method: 'PUT',
+        body: { status }
+    });
+}
+
+/**
+ * Confirm as the merchant that a backup's swap was paid, counting it against
+ * its payment link (POST /api/backups/:id/confirm-payment); confirming twice is a no-op
+ * @param accessToken - Merchant access token
+ * @throws ApiError (409) if the swap has not been paid
+ */
+export async function confirmBackupPayment(accessToken: string, backupId: string): Promise<BackupSummary> {
+    return apiRequest<BackupSummary>(`/backups/${encodeURIComponent(backupId)}/confirm-payment`, {
+        method: 'POST',
+        headers: authHeaders(accessToken)
+    });
+}
+
+/**
+ * Replace a backup with a copy encrypted to the merchant's current PGP key
+ * (POST /api/backups/:id/reencrypt); earlier revisions are kept
+ * @param accessToken - Merchant access token
+ * @param keyFingerprint - Fingerprint of the current key
+ * @throws ApiError (409) if the key is not the current one or the swap has finished
+ */
+export async function reencryptBackup(
+    accessToken: string,
+    backupId: string,
+    encryptedBackup: string,
+    keyFingerprint: string
+): Promise<BackupSummary> {
+    return apiRequest<BackupSummary>(`/backups/${encodeURIComponent(backupId)}/reencrypt`, {
+        method: 'POST',
+        headers: authHeaders(accessToken),
+        body: { encryptedBackup, keyFingerprint }
+    });
+}
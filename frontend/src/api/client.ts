@@ -0,0 +1,131 @@
+/**
+ * Minimal HTTP client for the BullPOS backend API
+ *
+ * In development the backend runs on its own port (see DEVELOPMENT.md); in
+ * production it is served under /api on the same origin as the frontend.
+ */
+
+const DEV_HOSTNAMES = ['localhost', '127.0.0.1'];
+const DEV_API_BASE_URL = 'http://localhost:3000/api';
+const PROD_API_BASE_URL = '/api';
+
+const DEFAULT_RETRY_ATTEMPTS = 4;
+const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Thrown when the backend cannot be reached or answers with a non-2xx status
+ */
+export class ApiError extends Error {
+    /** HTTP status code, or 0 if the request never got a response */
+    readonly status: number;
+    /** Machine-readable reason from the `code` field of the error body, when present */
+    readonly code?: string;
+
+    constructor(message: string, status: number, code?: string) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.code = code;
+    }
+}
+
+/**
+ * Base URL of the backend API for the current page origin
+ */
+export function getApiBaseUrl(): string {
+    const hostname = globalThis.location?.hostname ?? '';
+    return DEV_HOSTNAMES.includes(hostname) ? DEV_API_BASE_URL : PROD_API_BASE_URL;
+}
+
+/**
+ * Options for apiRequest
+ */
+export interface ApiRequestOptions {
+    method?: string; // Defaults to GET
+    body?: unknown; // Serialized as JSON
+    headers?: Record<string, string>;
+    expectStatus?: number; // Treat any other status as an error, even if it is 2xx
+}
+
+/**
+ * Send a JSON request to the backend and parse the JSON response
+ * @param path - Path below the API base URL (e.g. "/links/abc")
+ * @param options - Method, JSON body and extra headers
+ * @returns Parsed response body
+ * @throws ApiError on network failure or non-2xx (or unexpected) status (message and code taken from the `error` and `code` fields when present)
+ */
+export async function apiRequest<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+    const headers: Record<string, string> = { Accept: 'application/json', ...options.headers };
+    if (options.body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(`${getApiBaseUrl()}${path}`, {
+            method: options.method ?? 'GET',
+            headers,
+            body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+        });
+    } catch (error) {
+        throw new ApiError(`Network error: ${error instanceof Error ? error.message : String(error)}`, 0);
+    }
+
+    let body: unknown = null;
+    try {
+        body = await response.json();
+    } catch {
+        // Empty or non-JSON body; handled below
+    }
+
+    if (!response.ok || (options.expectStatus !== undefined && response.status !== options.expectStatus)) {
+        const errorBody = (body ?? {}) as { error?: unknown; code?: unknown };
+        const message = typeof errorBody.error === 'string'
+            ? errorBody.error
+            : `Request failed with status ${response.status}`;
+        const code = typeof errorBody.code === 'string' ? errorBody.code : undefined;
+        throw new ApiError(message, response.status, code);
+    }
+
+    return body as T;
+}
+
+/**
+ * Options for retryWithBackoff
+ */
+export interface RetryOptions {
+    attempts?: number; // Total attempts including the first one (default 4)
+    baseDelayMs?: number; // Delay before the first retry, doubled after each attempt (default 1s)
+    onRetry?: (attempt: number, error: unknown) => void;
+}
+
+/**
+ * Whether a failed request may succeed if sent again (network errors, 429 and 5xx)
+ */
+export function isRetryableError(error: unknown): boolean {
+    return error instanceof ApiError && (error.status === 0 || error.status === 429 || error.status >= 500);
+}
+
+/**
+ * Run an API operation, retrying transient failures with exponential backoff
+ * @param operation - Function performing the request
+ * @param options - Attempts, base delay and retry callback
+ * @returns Result of the first successful attempt
+ * @throws The last error, or the first one that is not retryable
+ */
+export async function retryWithBackoff<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const attempts = options.attempts ?? DEFAULT_RETRY_ATTEMPTS;
+    const baseDelayMs = options.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (attempt >= attempts || !isRetryableError(error)) {
+                throw error;
+            }
+            options.onRetry?.(attempt, error);
+            await new Promise(resolve => setTimeout(resolve, baseDelayMs * 2 ** (attempt - 1)));
+        }
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * Encrypted payment links
+ *
+ * A link URL has the form `#l=<linkId>&k=<key>`. The server only stores the
+ * AES-256-GCM ciphertext under the link ID; the key never leaves the URL
+ * fragment, so the invoice payload is decrypted in the customer's browser.
+ */
+
+import { apiRequest, retryWithBackoff, RetryOptions } from './client';
+import { aesDecrypt, AesError, base64UrlToBytes, bytesToBase64Url } from '../crypto/aes';
+import { InvoicePayload, validateInvoicePayload } from '../utils/rates';
+
+/**
+ * Public view of a payment link returned by GET /api/links/:id
+ */
+export interface PaymentLinkResponse {
+    linkId: string;
+    ciphertext: string;
+    nonce?: string | null; // Present when the IV is stored separately from the ciphertext
+    tag?: string | null; // Present when the GCM tag is stored separately from the ciphertext
+    createdAt: string;
+    expiresAt?: number | null; // Unix time in milliseconds; the server answers 410 once it has passed
+}
+
+/**
+ * Swap progress a paying browser reports for a link
+ */
+export type LinkEventType = 'swap-created' | 'invoice-paid' | 'claim-broadcast' | 'claim-confirmed';
+
+export interface LinkEvent {
+    type: LinkEventType;
+    swapId: string;
+    txid?: string; // Liquid claim transaction, once known
+}
+
+/**
+ * Thrown when a fetched link cannot be decrypted or does not hold a valid invoice
+ */
+export class PaymentLinkError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PaymentLinkError';
+    }
+}
+
+/**
+ * Fetch the encrypted payload of a payment link
+ * @param linkId - Link ID from the URL fragment
+ * @throws ApiError if the link does not exist or the backend is unreachable
+ */
+export async function fetchPaymentLink(linkId: string): Promise<PaymentLinkResponse> {
+    return apiRequest<PaymentLinkResponse>(`/links/${encodeURIComponent(linkId)}`);
+}
+
+/**
+ * Tell the backend how a link's swap is progressing, so the merchant can see
+ * which links were paid. Only the swap ID and txid are sent, never the invoice.
+ * Transient API failures are retried with exponential backoff.
+ * @param linkId - Link ID from the URL fragment
+ * @param event - Swap step, swap ID and optional txid
+ * @param options - Retry settings
+ * @throws ApiError if the event could not be delivered
+ */
+export async function reportLinkEvent(linkId: string, event: LinkEvent, options: RetryOptions = {}): Promise<void> {
+    await retryWithBackoff(() => apiRequest(`/links/${encodeURIComponent(linkId)}/events`, {
+        method: 'POST',
+        body: event,
+        expectStatus: 201
+    }), options);
+}
+
+/**
+ * Rebuild the aesDecrypt input (IV || ciphertext || tag) for links that store
+ * the nonce and tag in their own columns
+ */
+function joinEncryptedParts(link: PaymentLinkResponse): string {
+    if (!link.nonce || !link.tag) {
+        return link.ciphertext;
+    }
+
+    const parts = [link.nonce, link.ciphertext, link.tag].map(base64UrlToBytes);
+    if (parts.some(part => part === null)) {
+        throw new PaymentLinkError('Payment link data is corrupted');
+    }
+
+    const combined = new Uint8Array(parts.reduce((length, part) => length + part!.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        combined.set(part!, offset);
+        offset += part!.length;
+    }
+    return bytesToBase64Url(combined);
+}
+
+/**
+ * Decrypt a payment link and validate the invoice it contains
+ * @param link - Link as returned by fetchPaymentLink
+ * @param key - Base64url AES key from the URL fragment
+ * @returns The validated invoice payload
+ * @throws PaymentLinkError if the key is wrong, the data is corrupted or the payload is invalid
+ */
+export async function decryptPaymentLink(link: PaymentLinkResponse, key: string): Promise<InvoicePayload> {
+    let plaintext: string;
+    try {
+        plaintext = await aesDecrypt(joinEncryptedParts(link), key);
+    } catch (error) {
+        if (error instanceof AesError) {
+            throw new PaymentLinkError('Payment link could not be decrypted; the link may be incomplete or the key is wrong');
+        }
+        throw error;
+    }
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(plaintext);
+    } catch {
+        throw new PaymentLinkError('Payment link does not contain valid invoice data');
+    }
+
+    if (!validateInvoicePayload(payload)) {
+        throw new PaymentLinkError('Payment link does not contain valid invoice data');
+    }
+
+    return payload;
+}
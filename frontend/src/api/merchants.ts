@@ -0,0 +1,77 @@
+/**
+ * Merchant endpoints: the public PGP key lookup and the merchant's key history
+ */
+
+import { apiRequest } from './client';
+
+/**
+ * A merchant's PGP public key as served by GET /api/merchants/:id/pgp
+ */
+export interface MerchantPgpKey {
+    pgpPublicKey: string; // ASCII-armored
+    fingerprint: string | null; // As recorded by the server; null for keys it has not parsed yet
+}
+
+/**
+ * Fetch a merchant's PGP public key (GET /api/merchants/:id/pgp)
+ * @param merchantId - Merchant ID
+ * @param fingerprint - Ask for this key rather than the current one
+ * @throws ApiError if the merchant does not exist, the pinned key is not
+ * accepted any more (404, code `pgp_key_not_found`) or the backend is unreachable
+ */
+export async function fetchMerchantPgpKey(merchantId: string, fingerprint?: string): Promise<MerchantPgpKey> {
+    const query = fingerprint ? `?fingerprint=${encodeURIComponent(fingerprint)}` : '';
+    return apiRequest<MerchantPgpKey>(`/merchants/${encodeURIComponent(merchantId)}/pgp${query}`);
+}
+
+/**
+ * Entry of GET /api/merchants/pgp-keys
+ */
+export interface PgpKeyRecord {
+    fingerprint: string; // Lowercase hex
+    publicKey: string;
+    validFrom: number;
+    validUntil: number | null; // null for the current key
+    retiredAt: number | null;
+    pendingBackups: number; // Backups of unfinished swaps still encrypted to this key
+}
+
+function authHeaders(accessToken: string): Record<string, string> {
+    return { Authorization: `Bearer ${accessToken}` };
+}
+
+/**
+ * List every PGP key the merchant has used, current key first
+ * @param accessToken - Merchant access token
+ */
+export async function listPgpKeys(accessToken: string): Promise<PgpKeyRecord[]> {
+    return apiRequest<PgpKeyRecord[]>('/merchants/pgp-keys', {
+        headers: authHeaders(accessToken)
+    });
+}
+
+/**
+ * Make a new key the one swap backups are encrypted to (PUT /api/merchants/profile).
+ * Needs a recent step-up.
+ * @param accessToken - Merchant access token
+ * @throws ApiError (403) without a recent step-up, (409) if the key was used before
+ */
+export async function replacePgpKey(accessToken: string, pgpPublicKey: string): Promise<void> {
+    await apiRequest('/merchants/profile', {
+        method: 'PUT',
+        headers: authHeaders(accessToken),
+        body: { pgpPublicKey }
+    });
+}
+
+/**
+ * Stop accepting backups encrypted to a replaced key. Needs a recent step-up.
+ * @param accessToken - Merchant access token
+ * @throws ApiError (409, code `key_in_use`) while pending backups are still encrypted to it
+ */
+export async function retirePgpKey(accessToken: string, fingerprint: string): Promise<PgpKeyRecord> {
+    return apiRequest<PgpKeyRecord>(`/merchants/pgp-keys/${encodeURIComponent(fingerprint)}/retire`, {
+        method: 'POST',
+        headers: authHeaders(accessToken)
+    });
+}
@@ -0,0 +1,64 @@
+/**
+ * TOTP two-factor enrollment for merchant accounts
+ *
+ * The backend only returns the otpauth:// URI; the QR code for authenticator
+ * apps is rendered in the browser with the same lwk_wasm `stringToQr` used for
+ * invoices, so the TOTP secret never leaves the page as an image request.
+ */
+
+import { apiRequest } from './client';
+
+const OTPAUTH_TOTP_PREFIX = 'otpauth://totp/';
+
+/**
+ * Pending enrollment returned by POST /api/auth/totp/enroll
+ */
+export interface TotpEnrollment {
+    secret: string; // Base32, for manual entry
+    otpauthUri: string;
+}
+
+function authHeaders(accessToken: string): Record<string, string> {
+    return { Authorization: `Bearer ${accessToken}` };
+}
+
+/**
+ * Start TOTP enrollment with a fresh secret
+ * @param accessToken - Merchant access token
+ * @throws ApiError (409) if TOTP is already enabled
+ */
+export async function startTotpEnrollment(accessToken: string): Promise<TotpEnrollment> {
+    return apiRequest<TotpEnrollment>('/auth/totp/enroll', {
+        method: 'POST',
+        headers: authHeaders(accessToken)
+    });
+}
+
+/**
+ * Enable TOTP by submitting the first code from the authenticator app
+ * @param accessToken - Merchant access token
+ * @param code - 6-digit TOTP code
+ * @returns Single-use recovery codes; the backend never shows them again
+ * @throws ApiError (401) if the code is wrong
+ */
+export async function confirmTotpEnrollment(accessToken: string, code: string): Promise<string[]> {
+    const { recoveryCodes } = await apiRequest<{ recoveryCodes: string[] }>('/auth/totp/confirm', {
+        method: 'POST',
+        headers: authHeaders(accessToken),
+        body: { code }
+    });
+    return recoveryCodes;
+}
+
+/**
+ * Render an enrollment URI as a QR code image source
+ * @param otpauthUri - URI from startTotpEnrollment
+ * @param stringToQr - QR renderer, normally `lwk.stringToQr`
+ * @throws Error if the URI is not a TOTP otpauth:// URI
+ */
+export function totpQrImageSrc(otpauthUri: string, stringToQr: (text: string) => string): string {
+    if (!otpauthUri.startsWith(OTPAUTH_TOTP_PREFIX)) {
+        throw new Error('Not a TOTP enrollment URI');
+    }
+    return stringToQr(otpauthUri);
+}
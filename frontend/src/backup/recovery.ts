@@ -0,0 +1,161 @@
+/**
+ * Swap recovery
+ *
+ * When a claim fails (for example the payer's browser was closed before the
+ * swap completed), the merchant can claim the funds from the stored backup:
+ * the backup is fetched, decrypted locally with the merchant's PGP private
+ * key, the Boltz swap is rebuilt and its claim is broadcast. The private key
+ * and the decrypted swap data never leave the browser.
+ */
+
+import {
+    BackupStatus,
+    BackupSummary,
+    confirmBackupPayment,
+    fetchBackup,
+    listBackups,
+    updateBackupStatus
+} from '../api/backups';
+import { pgpDecrypt } from '../crypto/pgp';
+import { SwapBackup } from './swap-backup';
+
+/**
+ * Backups whose swap may still hold unclaimed funds
+ */
+export const RECOVERABLE_STATUSES: BackupStatus[] = ['pending', 'invoice_paid', 'failed'];
+
+const MAX_RECOVERABLE_PAGES = 20;
+
+/**
+ * Steps reported while a backup is being recovered, in order
+ */
+export type RecoveryStep = 'fetching' | 'decrypting' | 'restoring' | 'claiming' | 'recovered' | 'failed';
+
+/**
+ * Thrown when a backup cannot be recovered: it does not decrypt to a swap
+ * backup, or the claim did not go through
+ */
+export class SwapRecoveryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SwapRecoveryError';
+    }
+}
+
+/**
+ * The merchant's PGP private key, held in memory for the duration of the recovery
+ */
+export interface RecoveryKey {
+    privateKey: string; // ASCII-armored
+    passphrase?: string;
+}
+
+/**
+ * Rebuild the Boltz swap from a decrypted backup and claim it
+ * @param backup - Decrypted swap backup
+ * @param onRestored - Call once the swap has been rebuilt, before waiting for the claim
+ * @returns true if the claim was broadcast
+ */
+export type SwapClaimer = (backup: SwapBackup, onRestored: () => void) => Promise<boolean>;
+
+/**
+ * Check that decrypted backup content is a swap backup this page can restore
+ * @throws SwapRecoveryError if it is not
+ */
+export function parseSwapBackup(plaintext: string): SwapBackup {
+    let backup: Partial<SwapBackup>;
+    try {
+        backup = JSON.parse(plaintext);
+    } catch {
+        throw new SwapRecoveryError('Backup does not contain valid JSON');
+    }
+
+    if (!backup || typeof backup !== 'object' || backup.version !== 1) {
+        throw new SwapRecoveryError('Unsupported backup version');
+    }
+    if (typeof backup.swapId !== 'string' || typeof backup.swap !== 'string' || !backup.swap) {
+        throw new SwapRecoveryError('Backup is missing the swap data');
+    }
+    if (typeof backup.satoshis !== 'number') {
+        throw new SwapRecoveryError('Backup is missing the swap amount');
+    }
+    return backup as SwapBackup;
+}
+
+/**
+ * Decrypt a backup with the merchant's private key
+ * @throws PgpError if the key cannot be used or the message is not encrypted to it
+ * @throws SwapRecoveryError if the message is not a swap backup
+ */
+export async function decryptSwapBackup(encryptedBackup: string, key: RecoveryKey): Promise<SwapBackup> {
+    const plaintext = await pgpDecrypt(encryptedBackup, key.privateKey, key.passphrase);
+    return parseSwapBackup(plaintext);
+}
+
+/**
+ * List every backup that may still need recovery, newest first
+ * @param accessToken - Merchant access token
+ * @param keyFingerprint - Only backups encrypted to this PGP key
+ * @throws ApiError if the backend rejects the token or is unreachable
+ */
+export async function listRecoverableBackups(accessToken: string, keyFingerprint?: string): Promise<BackupSummary[]> {
+    const backups: BackupSummary[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_RECOVERABLE_PAGES; page++) {
+        const result = await listBackups(accessToken, { status: RECOVERABLE_STATUSES, keyFingerprint, cursor, limit: 200 });
+        backups.push(...result.data);
+        if (!result.nextCursor) {
+            break;
+        }
+        cursor = result.nextCursor;
+    }
+    return backups;
+}
+
+/**
+ * Recover one backup: fetch, decrypt, rebuild the swap and claim it, then mark
+ * the backup recovered and confirm the payment so it counts against its link
+ * @param accessToken - Merchant access token
+ * @param backupId - Backup to recover
+ * @param key - Merchant's PGP private key
+ * @param claim - Rebuilds and claims the swap (lwk in the browser)
+ * @param onProgress - Called as each step starts
+ * @returns The decrypted backup
+ * @throws ApiError, PgpError or SwapRecoveryError; onProgress has then been called with 'failed'
+ */
+export async function recoverBackup(
+    accessToken: string,
+    backupId: string,
+    key: RecoveryKey,
+    claim: SwapClaimer,
+    onProgress: (step: RecoveryStep) => void
+): Promise<SwapBackup> {
+    try {
+        onProgress('fetching');
+        const { encryptedBackup } = await fetchBackup(accessToken, backupId);
+
+        onProgress('decrypting');
+        const backup = await decryptSwapBackup(encryptedBackup, key);
+
+        onProgress('restoring');
+        const claimed = await claim(backup, () => onProgress('claiming'));
+        if (!claimed) {
+            throw new SwapRecoveryError(`Swap ${backup.swapId} could not be claimed`);
+        }
+
+        // The funds are safe at this point; a failed status report only leaves the backup listed
+        try {
+            await updateBackupStatus(backupId, 'recovered');
+            await confirmBackupPayment(accessToken, backupId);
+        } catch (error) {
+            console.warn(`Could not mark backup ${backupId} as recovered:`, error);
+        }
+
+        onProgress('recovered');
+        return backup;
+    } catch (error) {
+        onProgress('failed');
+        throw error;
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * Backup re-encryption
+ *
+ * Before a replaced PGP key can be retired and discarded, the backups of
+ * unfinished swaps still encrypted to it are moved to the current key: each
+ * one is fetched, decrypted locally with the old private key, encrypted to
+ * the new public key and uploaded as a new revision. The old private key and
+ * the decrypted swap data never leave the browser.
+ */
+
+import { fetchBackup, reencryptBackup } from '../api/backups';
+import { pgpDecrypt, pgpEncrypt, pgpKeyFingerprint } from '../crypto/pgp';
+import { listRecoverableBackups, parseSwapBackup, RecoveryKey } from './recovery';
+
+/**
+ * Steps reported while a backup is being re-encrypted, in order
+ */
+export type ReencryptStep = 'fetching' | 'decrypting' | 'encrypting' | 'uploading' | 'done' | 'failed';
+
+/**
+ * Thrown when the private key given for re-encryption is not the old key
+ */
+export class ReencryptKeyMismatchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReencryptKeyMismatchError';
+    }
+}
+
+/**
+ * The key backups are moved to
+ */
+export interface TargetKey {
+    publicKey: string; // ASCII-armored
+    fingerprint: string;
+}
+
+/**
+ * Outcome of re-encrypting every pending backup of a key
+ */
+export interface ReencryptSummary {
+    reencrypted: string[]; // Backup IDs
+    failed: Array<{ backupId: string; error: unknown }>;
+}
+
+/**
+ * Move one backup to the new key
+ * @throws ApiError, PgpError or SwapRecoveryError; onProgress has then been called with 'failed'
+ */
+export async function reencryptSwapBackup(
+    accessToken: string,
+    backupId: string,
+    oldKey: RecoveryKey,
+    newKey: TargetKey,
+    onProgress: (step: ReencryptStep) => void = () => {}
+): Promise<void> {
+    try {
+        onProgress('fetching');
+        const { encryptedBackup } = await fetchBackup(accessToken, backupId);
+
+        onProgress('decrypting');
+        const plaintext = await pgpDecrypt(encryptedBackup, oldKey.privateKey, oldKey.passphrase);
+        parseSwapBackup(plaintext); // Never replace a backup with something that cannot be restored
+
+        onProgress('encrypting');
+        const reencrypted = await pgpEncrypt(plaintext, newKey.publicKey);
+
+        onProgress('uploading');
+        await reencryptBackup(accessToken, backupId, reencrypted, newKey.fingerprint);
+
+        onProgress('done');
+    } catch (error) {
+        onProgress('failed');
+        throw error;
+    }
+}
+
+/**
+ * Move every backup of an unfinished swap from an old key to the new one, one
+ * at a time. A backup that fails is reported and the rest carry on.
+ * @param oldFingerprint - Key the backups are encrypted to now
+ * @param oldKey - Private key for oldFingerprint
+ * @param onProgress - Called as each backup goes through each step
+ * @throws ReencryptKeyMismatchError if oldKey is not the key for oldFingerprint
+ * @throws ApiError if the backups cannot be listed
+ */
+export async function reencryptBackupsForKey(
+    accessToken: string,
+    oldFingerprint: string,
+    oldKey: RecoveryKey,
+    newKey: TargetKey,
+    onProgress: (backupId: string, step: ReencryptStep) => void = () => {}
+): Promise<ReencryptSummary> {
+    const privateKeyFingerprint = await pgpKeyFingerprint(oldKey.privateKey);
+    if (privateKeyFingerprint !== oldFingerprint) {
+        throw new ReencryptKeyMismatchError(`The private key is ${privateKeyFingerprint}, not ${oldFingerprint}`);
+    }
+
+    const summary: ReencryptSummary = { reencrypted: [], failed: [] };
+    for (const { backupId } of await listRecoverableBackups(accessToken, oldFingerprint)) {
+        try {
+            await reencryptSwapBackup(accessToken, backupId, oldKey, newKey, step => onProgress(backupId, step));
+            summary.reencrypted.push(backupId);
+        } catch (error) {
+            summary.failed.push({ backupId, error });
+        }
+    }
+    return summary;
+}
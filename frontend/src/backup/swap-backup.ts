@@ -0,0 +1,127 @@
+/**
+ * Swap backups
+ *
+ * Before an invoice is shown, the swap recovery data is PGP-encrypted to the
+ * merchant's public key and stored by the backend. If the browser tab that
+ * created the swap goes away, the merchant can still claim the funds.
+ */
+
+import { ApiError, RetryOptions, retryWithBackoff } from '../api/client';
+import { createBackup, updateBackupStatus } from '../api/backups';
+import { fetchMerchantPgpKey, MerchantPgpKey } from '../api/merchants';
+import { pgpEncrypt, PgpError, pgpKeyFingerprint } from '../crypto/pgp';
+
+/**
+ * Plaintext content of a swap backup (JSON-encoded before encryption)
+ */
+export interface SwapBackup {
+    version: 1;
+    swapId: string;
+    invoice: string; // bolt11 invoice shown to the payer
+    swap: string; // InvoiceResponse.serialize(); restore with BoltzSession.restoreInvoice()
+    mnemonic: string | null; // Boltz session mnemonic, for the boltz.exchange rescue tool
+    satoshis: number;
+    paymentLinkId?: string;
+    storeId?: string; // Store the POS terminal belongs to
+    createdAt: string;
+}
+
+/**
+ * Thrown when a swap backup could not be stored; the invoice must not be shown
+ */
+export class SwapBackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SwapBackupError';
+    }
+}
+
+/**
+ * Settings for uploadSwapBackup
+ */
+export interface UploadOptions extends RetryOptions {
+    pgpFingerprint?: string; // Key the payment link was made for; any other key is refused
+}
+
+/**
+ * Encrypt a swap backup to the merchant's PGP key and upload it
+ * Transient API failures are retried with exponential backoff, reusing one
+ * Idempotency-Key so a retried upload is never stored twice.
+ * The fingerprint of the fetched key is computed locally, so a server that
+ * swaps in another key than the one pinned by the link is detected.
+ * @param backup - Swap recovery data
+ * @param merchantId - Merchant whose PGP key the backup is encrypted to
+ * @param options - Retry settings and the pinned key fingerprint
+ * @returns ID of the stored backup
+ * @throws SwapBackupError if the key cannot be fetched or used, is not the
+ * pinned key, or the upload fails
+ */
+export async function uploadSwapBackup(
+    backup: SwapBackup,
+    merchantId: string,
+    options: UploadOptions = {}
+): Promise<string> {
+    const { pgpFingerprint } = options;
+    let served: MerchantPgpKey;
+    try {
+        served = await retryWithBackoff(() => fetchMerchantPgpKey(merchantId, pgpFingerprint), options);
+    } catch (error) {
+        if (error instanceof ApiError) {
+            throw new SwapBackupError(`Could not fetch the merchant's PGP key: ${error.message}`);
+        }
+        throw error;
+    }
+
+    let encryptedBackup: string;
+    let keyFingerprint: string;
+    try {
+        keyFingerprint = await pgpKeyFingerprint(served.pgpPublicKey);
+        encryptedBackup = await pgpEncrypt(JSON.stringify(backup), served.pgpPublicKey);
+    } catch (error) {
+        if (error instanceof PgpError) {
+            throw new SwapBackupError(`The merchant's PGP key cannot be used: ${error.message}`);
+        }
+        throw error;
+    }
+
+    if (pgpFingerprint && keyFingerprint !== pgpFingerprint) {
+        throw new SwapBackupError(`The server sent PGP key ${keyFingerprint}, but this link is for ${pgpFingerprint}`);
+    }
+    if (served.fingerprint && keyFingerprint !== served.fingerprint) {
+        throw new SwapBackupError(`The server sent PGP key ${keyFingerprint} as ${served.fingerprint}`);
+    }
+
+    // Every attempt carries the same key, so a retry after a lost response returns the stored backup
+    const idempotencyKey = crypto.randomUUID();
+    try {
+        return await retryWithBackoff(() => createBackup({
+            encryptedBackup,
+            merchantId,
+            paymentLinkId: backup.paymentLinkId,
+            storeId: backup.storeId,
+            status: 'pending',
+            keyFingerprint // So the backup stays readable if the merchant replaces the key meanwhile
+        }, idempotencyKey), options);
+    } catch (error) {
+        if (error instanceof ApiError) {
+            throw new SwapBackupError(`Could not upload the swap backup: ${error.message}`);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Report that the swap was paid and claimed, so the backend stops listing the
+ * backup for recovery. The report is not trusted: the payment only counts
+ * against its payment link once the merchant confirms it.
+ * Transient API failures are retried with exponential backoff; reporting a
+ * status the backup already has is a no-op, so the report can be sent again.
+ * @param backupId - ID returned by uploadSwapBackup
+ * @param options - Retry settings
+ * @throws ApiError if the status could not be reported
+ */
+export async function reportSwapClaimed(backupId: string, options: RetryOptions = {}): Promise<void> {
+    for (const status of ['invoice_paid', 'claimed'] as const) {
+        await retryWithBackoff(() => updateBackupStatus(backupId, status), options);
+    }
+}
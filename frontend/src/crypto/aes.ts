@@ -1,39 +1,177 @@
 /**
  * AES-256-GCM encryption/decryption using WebCrypto API
  *
- * This module will be fully implemented by issue #13
- * These are placeholder type definitions for testing infrastructure
+ * Wire format (see SECURITY.md, "Layer 1: Payment Link Encryption"):
+ *   base64url( IV (12 bytes) || ciphertext || GCM tag (16 bytes) )
+ *
+ * Keys are 256-bit values encoded as URL-safe base64 (no padding) so they can
+ * be carried in the URL fragment without further escaping.
+ */
+
+import { base64UrlEncode, base64UrlDecode } from '../utils/url-parser';
+
+const KEY_LENGTH_BYTES = 32; // 256-bit key
+const IV_LENGTH_BYTES = 12; // 96-bit IV, as recommended for GCM
+const TAG_LENGTH_BYTES = 16; // 128-bit authentication tag
+
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+/**
+ * Base class for all AES module errors
  */
+export class AesError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AesError';
+    }
+}
+
+/**
+ * Thrown when a key is not a URL-safe base64 encoded 256-bit value
+ */
+export class AesInvalidKeyError extends AesError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AesInvalidKeyError';
+    }
+}
+
+/**
+ * Thrown when encrypted data is malformed or too short to contain IV and tag
+ */
+export class AesInvalidInputError extends AesError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AesInvalidInputError';
+    }
+}
+
+/**
+ * Thrown when the GCM authentication tag does not verify
+ * (wrong key, or ciphertext/IV/tag was tampered with)
+ */
+export class AesAuthenticationError extends AesError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AesAuthenticationError';
+    }
+}
+
+/**
+ * Encode raw bytes as URL-safe base64 without padding
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return base64UrlEncode(binary);
+}
+
+/**
+ * Decode URL-safe base64 (padding optional) into raw bytes
+ * Returns null if the input is not valid base64url
+ */
+export function base64UrlToBytes(encoded: string) {
+    const unpadded = encoded.replace(/=+$/, '');
+    if (!BASE64URL_PATTERN.test(unpadded) || unpadded.length % 4 === 1) {
+        return null;
+    }
+    try {
+        const binary = base64UrlDecode(unpadded);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    } catch {
+        return null;
+    }
+}
+
+async function importKey(key: string, usage: 'encrypt' | 'decrypt'): Promise<CryptoKey> {
+    const raw = typeof key === 'string' ? base64UrlToBytes(key) : null;
+    if (!raw || raw.length !== KEY_LENGTH_BYTES) {
+        throw new AesInvalidKeyError('Key must be a base64url-encoded 256-bit value');
+    }
+    return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, [usage]);
+}
 
 /**
  * Decrypt AES-256-GCM encrypted data using WebCrypto API
- * @param encryptedData - Base64-encoded encrypted data with IV prepended
- * @param key - Base64-encoded 256-bit encryption key
+ * @param encryptedData - Base64url-encoded encrypted data with IV prepended
+ * @param key - Base64url-encoded 256-bit encryption key
  * @returns Decrypted plaintext string
- * @throws Error if decryption fails
+ * @throws AesInvalidKeyError if the key is malformed
+ * @throws AesInvalidInputError if the data is malformed or truncated
+ * @throws AesAuthenticationError if the authentication tag does not verify
  */
-export async function aesDecrypt(_encryptedData: string, _key: string): Promise<string> {
-    // Placeholder implementation - will be replaced by issue #13
-    throw new Error('AES decryption not yet implemented - waiting for issue #13')
+export async function aesDecrypt(encryptedData: string, key: string): Promise<string> {
+    const cryptoKey = await importKey(key, 'decrypt');
+
+    const data = typeof encryptedData === 'string' ? base64UrlToBytes(encryptedData) : null;
+    if (!data) {
+        throw new AesInvalidInputError('Encrypted data is not valid base64url');
+    }
+    if (data.length < IV_LENGTH_BYTES + TAG_LENGTH_BYTES) {
+        throw new AesInvalidInputError(
+            `Encrypted data is truncated (${data.length} bytes, need at least ${IV_LENGTH_BYTES + TAG_LENGTH_BYTES})`
+        );
+    }
+
+    const iv = data.slice(0, IV_LENGTH_BYTES);
+    const ciphertext = data.slice(IV_LENGTH_BYTES);
+
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv, tagLength: TAG_LENGTH_BYTES * 8 },
+            cryptoKey,
+            ciphertext
+        );
+    } catch {
+        // WebCrypto reports every GCM failure as an opaque OperationError
+        throw new AesAuthenticationError('Authentication failed: wrong key or tampered data');
+    }
+
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(plaintext);
+    } catch {
+        throw new AesInvalidInputError('Decrypted data is not valid UTF-8');
+    }
 }
 
 /**
  * Encrypt plaintext using AES-256-GCM with WebCrypto API
  * @param plaintext - String to encrypt
- * @param key - Base64-encoded 256-bit encryption key
- * @returns Base64-encoded encrypted data with IV prepended
- * @throws Error if encryption fails
+ * @param key - Base64url-encoded 256-bit encryption key
+ * @returns Base64url-encoded encrypted data with IV prepended
+ * @throws AesInvalidKeyError if the key is malformed
  */
-export async function aesEncrypt(_plaintext: string, _key: string): Promise<string> {
-    // Placeholder implementation - will be replaced by issue #13
-    throw new Error('AES encryption not yet implemented - waiting for issue #13')
+export async function aesEncrypt(plaintext: string, key: string): Promise<string> {
+    const cryptoKey = await importKey(key, 'encrypt');
+
+    // Fresh random IV for every message - never reuse an IV with the same key
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH_BYTES));
+    const encoded = new TextEncoder().encode(plaintext);
+
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, tagLength: TAG_LENGTH_BYTES * 8 },
+        cryptoKey,
+        encoded
+    ));
+
+    const output = new Uint8Array(iv.length + ciphertext.length);
+    output.set(iv, 0);
+    output.set(ciphertext, iv.length);
+    return bytesToBase64Url(output);
 }
 
 /**
  * Generate a random 256-bit AES key
- * @returns Base64-encoded 256-bit key
+ * @returns Base64url-encoded 256-bit key
  */
 export async function generateAesKey(): Promise<string> {
-    // Placeholder implementation - will be replaced by issue #13
-    throw new Error('AES key generation not yet implemented - waiting for issue #13')
+    const key = crypto.getRandomValues(new Uint8Array(KEY_LENGTH_BYTES));
+    return bytesToBase64Url(key);
 }
@@ -0,0 +1,242 @@
+/**
+ * BIP85 deterministic key derivation for payment link AES keys
+ *
+ * Link keys are derived from the merchant's Boltz session mnemonic (stored in
+ * localStorage by createBoltzSession) using the BIP85 HEX application:
+ *
+ *   m/83696968'/128169'/32'/{linkIndex}'
+ *
+ * The 32 bytes of derived entropy are used directly as the AES-256-GCM key, so
+ * any BIP85-capable tool can regenerate the key for a given link index from
+ * the mnemonic alone. All derivation steps are hardened, which means only
+ * HMAC-SHA512 and scalar addition are needed (no elliptic curve point math).
+ */
+
+import { bytesToBase64Url } from './aes';
+
+// secp256k1 group order
+const CURVE_ORDER = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const HARDENED_OFFSET = 0x80000000;
+
+const BIP85_PURPOSE = 83696968;
+const BIP85_HEX_APPLICATION = 128169;
+const BIP85_ENTROPY_HMAC_KEY = 'bip-entropy-from-k';
+
+const LINK_KEY_BYTES = 32;
+const VALID_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const XPRV_VERSIONS = [0x0488ade4, 0x04358394]; // mainnet xprv, testnet tprv
+
+/**
+ * Thrown when derivation input (mnemonic, path, index, xprv) is invalid
+ */
+export class Bip85Error extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'Bip85Error';
+    }
+}
+
+/**
+ * BIP32 extended private key (only the parts needed for hardened derivation)
+ */
+export interface ExtendedPrivateKey {
+    privateKey: Uint8Array; // 32 bytes
+    chainCode: Uint8Array; // 32 bytes
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+    let value = BigInt(0);
+    for (const byte of bytes) {
+        value = (value << BigInt(8)) | BigInt(byte);
+    }
+    return value;
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = Number(value & BigInt(0xff));
+        value >>= BigInt(8);
+    }
+    return bytes;
+}
+
+async function hmacSha512(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+    const cryptoKey = await crypto.subtle.importKey(
+        'raw',
+        key.slice(),
+        { name: 'HMAC', hash: 'SHA-512' },
+        false,
+        ['sign']
+    );
+    return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, data.slice()));
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', data.slice()));
+}
+
+/**
+ * Normalize a BIP39 mnemonic (NFKD, single spaces, lowercase) and check its word count
+ */
+function normalizeMnemonic(mnemonic: string): string {
+    if (typeof mnemonic !== 'string') {
+        throw new Bip85Error('Mnemonic must be a string');
+    }
+    const words = mnemonic.normalize('NFKD').trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (!VALID_WORD_COUNTS.includes(words.length)) {
+        throw new Bip85Error(`Mnemonic must have ${VALID_WORD_COUNTS.join(', ')} words (got ${words.length})`);
+    }
+    return words.join(' ');
+}
+
+/**
+ * Convert a BIP39 mnemonic to its 64-byte seed (PBKDF2-HMAC-SHA512, 2048 rounds)
+ * @param mnemonic - BIP39 mnemonic sentence
+ * @param passphrase - Optional BIP39 passphrase (empty for Boltz session mnemonics)
+ */
+export async function mnemonicToSeed(mnemonic: string, passphrase = ''): Promise<Uint8Array> {
+    const encoder = new TextEncoder();
+    const password = encoder.encode(normalizeMnemonic(mnemonic));
+    const salt = encoder.encode('mnemonic' + passphrase.normalize('NFKD'));
+
+    const baseKey = await crypto.subtle.importKey('raw', password, 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-512', salt, iterations: 2048 },
+        baseKey,
+        512
+    );
+    return new Uint8Array(bits);
+}
+
+/**
+ * Compute the BIP32 master key from a seed
+ */
+export async function masterKeyFromSeed(seed: Uint8Array): Promise<ExtendedPrivateKey> {
+    const I = await hmacSha512(new TextEncoder().encode('Bitcoin seed'), seed);
+    const privateKey = I.slice(0, 32);
+    const k = bytesToBigInt(privateKey);
+    if (k === BigInt(0) || k >= CURVE_ORDER) {
+        throw new Bip85Error('Seed produces an invalid master key');
+    }
+    return { privateKey, chainCode: I.slice(32) };
+}
+
+/**
+ * Parse a base58check-encoded BIP32 extended private key (xprv/tprv)
+ */
+export async function parseXprv(xprv: string): Promise<ExtendedPrivateKey> {
+    let value = BigInt(0);
+    for (const char of xprv) {
+        const digit = BASE58_ALPHABET.indexOf(char);
+        if (digit < 0) {
+            throw new Bip85Error('Extended key contains invalid base58 characters');
+        }
+        value = value * BigInt(58) + BigInt(digit);
+    }
+    const bytes = bigIntToBytes(value, 82);
+
+    const payload = bytes.slice(0, 78);
+    const checksum = (await sha256(await sha256(payload))).slice(0, 4);
+    if (!checksum.every((byte, i) => byte === bytes[78 + i])) {
+        throw new Bip85Error('Extended key checksum mismatch');
+    }
+
+    const version = new DataView(payload.buffer).getUint32(0);
+    if (!XPRV_VERSIONS.includes(version) || payload[45] !== 0) {
+        throw new Bip85Error('Not an extended private key');
+    }
+
+    return { chainCode: payload.slice(13, 45), privateKey: payload.slice(46, 78) };
+}
+
+/**
+ * Derive a hardened child key (BIP32 CKDpriv with index >= 2^31)
+ */
+async function deriveHardenedChild(parent: ExtendedPrivateKey, index: number): Promise<ExtendedPrivateKey> {
+    const data = new Uint8Array(37);
+    data[0] = 0;
+    data.set(parent.privateKey, 1);
+    new DataView(data.buffer).setUint32(33, index + HARDENED_OFFSET);
+
+    const I = await hmacSha512(parent.chainCode, data);
+    const IL = bytesToBigInt(I.slice(0, 32));
+    const child = (IL + bytesToBigInt(parent.privateKey)) % CURVE_ORDER;
+    if (IL >= CURVE_ORDER || child === BigInt(0)) {
+        // Probability below 2^-127; BIP32 says to skip to the next index
+        throw new Bip85Error(`Derivation at index ${index}' produced an invalid key`);
+    }
+    return { privateKey: bigIntToBytes(child, 32), chainCode: I.slice(32) };
+}
+
+/**
+ * Parse a fully hardened derivation path such as m/83696968'/128169'/32'/0'
+ */
+export function parseHardenedPath(path: string): number[] {
+    const parts = path.split('/');
+    if (parts[0] !== 'm') {
+        throw new Bip85Error(`Derivation path must start with "m": ${path}`);
+    }
+    return parts.slice(1).map((part) => {
+        const match = /^(\d+)['h]$/.exec(part);
+        if (!match) {
+            throw new Bip85Error(`Only hardened derivation is supported: ${path}`);
+        }
+        const index = Number(match[1]);
+        if (index >= HARDENED_OFFSET) {
+            throw new Bip85Error(`Derivation index out of range: ${part}`);
+        }
+        return index;
+    });
+}
+
+/**
+ * Derive 64 bytes of BIP85 entropy for a hardened path
+ * @param root - BIP32 master key
+ * @param path - Hardened derivation path under m/83696968'
+ */
+export async function deriveBip85Entropy(root: ExtendedPrivateKey, path: string): Promise<Uint8Array> {
+    const indexes = parseHardenedPath(path);
+    if (indexes[0] !== BIP85_PURPOSE) {
+        throw new Bip85Error(`BIP85 paths must start with m/${BIP85_PURPOSE}'`);
+    }
+
+    let node = root;
+    for (const index of indexes) {
+        node = await deriveHardenedChild(node, index);
+    }
+    return hmacSha512(new TextEncoder().encode(BIP85_ENTROPY_HMAC_KEY), node.privateKey);
+}
+
+/**
+ * BIP85 derivation path for a payment link key (HEX application, 32 bytes)
+ */
+export function linkKeyPath(linkIndex: number): string {
+    if (!Number.isInteger(linkIndex) || linkIndex < 0 || linkIndex >= HARDENED_OFFSET) {
+        throw new Bip85Error(`Link index must be an integer between 0 and ${HARDENED_OFFSET - 1}`);
+    }
+    return `m/${BIP85_PURPOSE}'/${BIP85_HEX_APPLICATION}'/${LINK_KEY_BYTES}'/${linkIndex}'`;
+}
+
+/**
+ * Derive the AES key for a payment link from a BIP32 master key
+ * @returns Base64url-encoded 256-bit key, in the format accepted by aesEncrypt/aesDecrypt
+ */
+export async function deriveLinkKeyFromRoot(root: ExtendedPrivateKey, linkIndex: number): Promise<string> {
+    const entropy = await deriveBip85Entropy(root, linkKeyPath(linkIndex));
+    return bytesToBase64Url(entropy.slice(0, LINK_KEY_BYTES));
+}
+
+/**
+ * Derive the AES key for a payment link from the merchant's Boltz mnemonic
+ * @param mnemonic - BIP39 mnemonic (the Boltz session mnemonic from localStorage)
+ * @param linkIndex - Index of the link issued by this merchant (0, 1, 2, ...)
+ * @returns Base64url-encoded 256-bit key, in the format accepted by aesEncrypt/aesDecrypt
+ */
+export async function deriveLinkKey(mnemonic: string, linkIndex: number): Promise<string> {
+    linkKeyPath(linkIndex); // Validate the index before running PBKDF2
+    const root = await masterKeyFromSeed(await mnemonicToSeed(mnemonic));
+    return deriveLinkKeyFromRoot(root, linkIndex);
+}
@@ -1,20 +1,176 @@
 /**
  * PGP encryption using OpenPGP.js for swap backup encryption
  *
- * This module will be fully implemented by issue #18
- * These are placeholder type definitions for testing infrastructure
+ * Swap recovery data is encrypted in the browser to the merchant's public key
+ * (served by GET /api/merchants/:id/pgp) so the server only ever stores an
+ * ASCII-armored PGP message it cannot read.
  */
 
+import * as openpgp from 'openpgp';
+
+// Smallest RSA or ElGamal encryption key accepted, as when the backend stores a key
+const MIN_KEY_BITS = 2048;
+
+/**
+ * Base class for all PGP module errors
+ */
+export class PgpError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PgpError';
+    }
+}
+
+/**
+ * Thrown when a key cannot be parsed or is the wrong kind of key
+ */
+export class PgpInvalidKeyError extends PgpError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PgpInvalidKeyError';
+    }
+}
+
+/**
+ * Thrown when the public key has passed its expiration date
+ */
+export class PgpKeyExpiredError extends PgpError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PgpKeyExpiredError';
+    }
+}
+
+/**
+ * Thrown when the public key carries a revocation signature
+ */
+export class PgpKeyRevokedError extends PgpError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PgpKeyRevokedError';
+    }
+}
+
+/**
+ * Thrown when the key has no valid (sub)key usable for encryption
+ */
+export class PgpKeyNotEncryptionCapableError extends PgpError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PgpKeyNotEncryptionCapableError';
+    }
+}
+
+/**
+ * Thrown when a passphrase-protected private key cannot be unlocked
+ */
+export class PgpPassphraseError extends PgpError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PgpPassphraseError';
+    }
+}
+
+/**
+ * Thrown when a message is malformed or cannot be decrypted with the given key
+ */
+export class PgpDecryptionError extends PgpError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PgpDecryptionError';
+    }
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Parse an armored public key and verify it can be used to encrypt backups
+ * @param publicKeyArmored - PGP public key in ASCII-armored format
+ * @returns The parsed public key
+ * @throws PgpInvalidKeyError, PgpKeyRevokedError, PgpKeyExpiredError or PgpKeyNotEncryptionCapableError
+ */
+export async function readEncryptionPublicKey(publicKeyArmored: string): Promise<openpgp.PublicKey> {
+    if (typeof publicKeyArmored !== 'string' || !publicKeyArmored.includes('-----BEGIN PGP PUBLIC KEY BLOCK-----')) {
+        throw new PgpInvalidKeyError('Not an ASCII-armored PGP public key');
+    }
+
+    let key: openpgp.Key;
+    try {
+        key = await openpgp.readKey({ armoredKey: publicKeyArmored });
+    } catch (error) {
+        throw new PgpInvalidKeyError(`Could not parse public key: ${errorMessage(error)}`);
+    }
+
+    if (key.isPrivate()) {
+        throw new PgpInvalidKeyError('Expected a public key but got a private key');
+    }
+
+    if (await key.isRevoked()) {
+        throw new PgpKeyRevokedError(`Key ${key.getFingerprint()} has been revoked`);
+    }
+
+    const expiration = await key.getExpirationTime();
+    if (expiration instanceof Date && expiration.getTime() <= Date.now()) {
+        throw new PgpKeyExpiredError(`Key ${key.getFingerprint()} expired on ${expiration.toISOString()}`);
+    }
+
+    let encryptionKey: openpgp.Key | openpgp.Subkey;
+    try {
+        // Key sizes are checked below, so undersized keys are reported as such
+        encryptionKey = await key.getEncryptionKey(undefined, undefined, undefined, { ...openpgp.config, minRSABits: 0 });
+    } catch {
+        throw new PgpKeyNotEncryptionCapableError(`Key ${key.getFingerprint()} has no valid encryption subkey`);
+    }
+
+    const { algorithm, bits } = encryptionKey.getAlgorithmInfo();
+    if ((algorithm.startsWith('rsa') || algorithm === 'elgamal') && bits !== undefined && bits < MIN_KEY_BITS) {
+        throw new PgpInvalidKeyError(`PGP encryption keys must be at least ${MIN_KEY_BITS} bits (got ${bits})`);
+    }
+
+    return key as openpgp.PublicKey;
+}
+
+async function readDecryptionPrivateKey(privateKeyArmored: string, passphrase?: string): Promise<openpgp.PrivateKey> {
+    let privateKey: openpgp.PrivateKey;
+    try {
+        privateKey = await openpgp.readPrivateKey({ armoredKey: privateKeyArmored });
+    } catch (error) {
+        throw new PgpInvalidKeyError(`Could not parse private key: ${errorMessage(error)}`);
+    }
+
+    if (privateKey.isDecrypted()) {
+        return privateKey;
+    }
+
+    if (!passphrase) {
+        throw new PgpPassphraseError('Private key is passphrase-protected; a passphrase is required');
+    }
+
+    try {
+        return await openpgp.decryptKey({ privateKey, passphrase });
+    } catch {
+        throw new PgpPassphraseError('Incorrect passphrase for private key');
+    }
+}
+
 /**
  * Encrypt plaintext using PGP public key
  * @param plaintext - Data to encrypt
  * @param publicKeyArmored - PGP public key in ASCII-armored format
  * @returns ASCII-armored encrypted message
- * @throws Error if encryption fails
+ * @throws PgpInvalidKeyError, PgpKeyRevokedError, PgpKeyExpiredError or PgpKeyNotEncryptionCapableError
  */
-export async function pgpEncrypt(_plaintext: string, _publicKeyArmored: string): Promise<string> {
-    // Placeholder implementation - will be replaced by issue #18
-    throw new Error('PGP encryption not yet implemented - waiting for issue #18')
+export async function pgpEncrypt(plaintext: string, publicKeyArmored: string): Promise<string> {
+    const encryptionKey = await readEncryptionPublicKey(publicKeyArmored);
+    const message = await openpgp.createMessage({ text: plaintext });
+
+    return openpgp.encrypt({
+        message,
+        encryptionKeys: encryptionKey,
+        format: 'armored'
+    });
 }
 
 /**
@@ -23,15 +179,48 @@ export async function pgpEncrypt(_plaintext: string, _publicKeyArmored: string):
  * @param privateKeyArmored - PGP private key in ASCII-armored format
  * @param passphrase - Passphrase to unlock private key (if encrypted)
  * @returns Decrypted plaintext
- * @throws Error if decryption fails
+ * @throws PgpInvalidKeyError if the private key cannot be parsed
+ * @throws PgpPassphraseError if the key is locked and the passphrase is missing or wrong
+ * @throws PgpDecryptionError if the message is malformed or not encrypted to this key
  */
 export async function pgpDecrypt(
-    _encryptedMessage: string,
-    _privateKeyArmored: string,
-    _passphrase?: string
+    encryptedMessage: string,
+    privateKeyArmored: string,
+    passphrase?: string
 ): Promise<string> {
-    // Placeholder implementation - will be replaced by issue #18
-    throw new Error('PGP decryption not yet implemented - waiting for issue #18')
+    const decryptionKey = await readDecryptionPrivateKey(privateKeyArmored, passphrase);
+
+    let message: openpgp.Message<string>;
+    try {
+        message = await openpgp.readMessage({ armoredMessage: encryptedMessage });
+    } catch (error) {
+        throw new PgpDecryptionError(`Could not parse PGP message: ${errorMessage(error)}`);
+    }
+
+    try {
+        const { data } = await openpgp.decrypt({
+            message,
+            decryptionKeys: decryptionKey,
+            format: 'utf8'
+        });
+        return data as string;
+    } catch (error) {
+        throw new PgpDecryptionError(`Could not decrypt PGP message: ${errorMessage(error)}`);
+    }
+}
+
+/**
+ * Fingerprint of a public or private key, as lowercase hex (the key's identity in the backend's key history)
+ * @param keyArmored - ASCII-armored PGP key
+ * @throws PgpInvalidKeyError if the key cannot be parsed
+ */
+export async function pgpKeyFingerprint(keyArmored: string): Promise<string> {
+    try {
+        const key = await openpgp.readKey({ armoredKey: keyArmored });
+        return key.getFingerprint();
+    } catch (error) {
+        throw new PgpInvalidKeyError(`Could not parse key: ${errorMessage(error)}`);
+    }
 }
 
 /**
@@ -42,20 +231,32 @@ export async function pgpDecrypt(
  * @returns Object containing public and private keys in ASCII-armored format
  */
 export async function pgpGenerateKey(
-    _name: string,
-    _email: string,
-    _passphrase?: string
+    name: string,
+    email: string,
+    passphrase?: string
 ): Promise<{ publicKey: string; privateKey: string }> {
-    // Placeholder implementation - will be replaced by issue #18
-    throw new Error('PGP key generation not yet implemented - waiting for issue #18')
+    const { publicKey, privateKey } = await openpgp.generateKey({
+        type: 'ecc',
+        curve: 'curve25519Legacy',
+        userIDs: [{ name, email }],
+        passphrase: passphrase || undefined,
+        format: 'armored'
+    });
+
+    return { publicKey, privateKey };
 }
 
 /**
- * Validate that a string is a valid PGP public key
+ * Validate that a string is a valid PGP public key usable for encryption
+ * (parseable, not private, not revoked, not expired, has an encryption subkey)
  * @param publicKeyArmored - ASCII-armored public key to validate
  * @returns true if valid, false otherwise
  */
-export async function isValidPgpPublicKey(_publicKeyArmored: string): Promise<boolean> {
-    // Placeholder implementation - will be replaced by issue #18
-    throw new Error('PGP key validation not yet implemented - waiting for issue #18')
+export async function isValidPgpPublicKey(publicKeyArmored: string): Promise<boolean> {
+    try {
+        await readEncryptionPublicKey(publicKeyArmored);
+        return true;
+    } catch {
+        return false;
+    }
 }
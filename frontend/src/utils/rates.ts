@@ -79,6 +79,10 @@ export interface InvoicePayload {
     lineItems?: LineItem[]; // Optional line items with images
     pdfDataUrl?: string; // Optional PDF attachment (base64 data URL)
     pdfFilename?: string; // Optional PDF filename for display
+    // Encrypted payment links
+    descriptor?: string; // Merchant's CT descriptor; swaps for the link claim to this wallet
+    merchantId?: string; // Merchant whose PGP key swap backups are encrypted to
+    pgpFingerprint?: string; // Fingerprint of that key, lowercase hex; the key the server serves must match
 }
 
 export function validateInvoicePayload(payload: unknown): payload is InvoicePayload {
@@ -153,5 +157,21 @@ export function validateInvoicePayload(payload: unknown): payload is InvoicePayl
         return false;
     }
 
+    // Validate optional descriptor (must be string if present)
+    if (p.descriptor !== undefined && typeof p.descriptor !== 'string') {
+        return false;
+    }
+
+    // Validate optional merchantId (must be string if present)
+    if (p.merchantId !== undefined && typeof p.merchantId !== 'string') {
+        return false;
+    }
+
+    // Validate optional pgpFingerprint (v4 or v6 fingerprint in lowercase hex if present)
+    if (p.pgpFingerprint !== undefined
+        && (typeof p.pgpFingerprint !== 'string' || !/^([0-9a-f]{40}|[0-9a-f]{64})$/.test(p.pgpFingerprint))) {
+        return false;
+    }
+
     return true;
 }
@@ -35,6 +35,8 @@ export interface POSConfig {
     c: string; // currency code (alpha3)
     g?: boolean; // show gear (optional, defaults to false)
     n?: boolean; // show note/description (optional, defaults to true)
+    m?: string; // merchant ID for swap backups (optional)
+    s?: string; // store ID the terminal's swaps are attributed to (optional, needs 'm')
 }
 
 /**
@@ -45,7 +47,9 @@ export function encodeConfig(
     descriptor: string,
     currency: string,
     showGear: boolean,
-    showDescription: boolean
+    showDescription: boolean,
+    merchantId?: string,
+    storeId?: string
 ): string {
     const config: POSConfig = { d: descriptor, c: currency };
     // Only include 'g' if true to keep URL shorter when false (default)
@@ -56,6 +60,14 @@ export function encodeConfig(
     if (!showDescription) {
         config.n = false;
     }
+    // Only include 'm' when swap backups are configured
+    if (merchantId) {
+        config.m = merchantId;
+        // A store only means something for a merchant
+        if (storeId) {
+            config.s = storeId;
+        }
+    }
     return base64UrlEncode(JSON.stringify(config));
 }
 
@@ -78,8 +90,44 @@ export function decodeConfig(encoded: string): POSConfig | null {
         if (typeof config.n !== 'boolean') {
             config.n = true;
         }
+        // Drop a malformed merchant ID rather than failing backups later
+        if (config.m !== undefined && (typeof config.m !== 'string' || !config.m)) {
+            delete config.m;
+        }
+        if (config.s !== undefined && (typeof config.s !== 'string' || !config.s || !config.m)) {
+            delete config.s;
+        }
         return config;
     } catch {
         return null;
     }
 }
+
+/**
+ * Encrypted payment link fragment (`#l=<linkId>&k=<key>`)
+ */
+export interface PaymentLinkFragment {
+    linkId: string; // ID of the encrypted link on the backend
+    key: string; // Base64url AES-256 key; only ever lives in the URL fragment
+}
+
+const LINK_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const LINK_KEY_PATTERN = /^[A-Za-z0-9_-]{43}$/; // 32 bytes, unpadded base64url
+
+/**
+ * Parse an encrypted payment link fragment (without the leading '#')
+ * Returns null if the fragment is not in the `l=<linkId>&k=<key>` format,
+ * so callers can fall back to decoding a POS configuration
+ */
+export function parsePaymentLinkFragment(fragment: string): PaymentLinkFragment | null {
+    if (!fragment.includes('=')) {
+        return null;
+    }
+    const params = new URLSearchParams(fragment);
+    const linkId = params.get('l');
+    const key = params.get('k');
+    if (!linkId || !key || !LINK_ID_PATTERN.test(linkId) || !LINK_KEY_PATTERN.test(key)) {
+        return null;
+    }
+    return { linkId, key };
+}